@@ -0,0 +1,21 @@
+// Bundles the TypeScript benchmark with esbuild and runs it in Node
+import { build } from 'esbuild';
+
+const roundCount = parseInt(process.argv[2], 10) || 5000;
+
+const result = await build({
+  entryPoints: ['src/utils/StatsBenchmark.ts'],
+  bundle: true,
+  write: false,
+  format: 'esm',
+  platform: 'node',
+  logLevel: 'error'
+});
+
+const source = result.outputFiles[0].text;
+const { runStatsBenchmark } = await import(`data:text/javascript;base64,${Buffer.from(source).toString('base64')}`);
+
+console.log(`Stats benchmark with ${roundCount} generated rounds\n`);
+for (const { label, ms } of runStatsBenchmark(roundCount)) {
+  console.log(`${ms.toFixed(1).padStart(9)} ms  ${label}`);
+}
@@ -0,0 +1,170 @@
+// Reference sync server for Compu-Caddy. No dependencies: run it with `npm run sync-server`
+// on any machine the household's phones and laptops can reach.
+//
+//   PORT            Port to listen on (default 8787)
+//   SYNC_DATA_FILE  JSON file the change log is kept in (default ./golf-sync-data.json)
+//   SYNC_TOKEN      Household key clients must send as a bearer token (optional but recommended)
+import { createServer } from 'node:http';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+const PORT = parseInt(process.env.PORT, 10) || 8787;
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE || 'golf-sync-data.json');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const PAGE_SIZE = 500;
+// Change ids remembered so a retried push isn't applied twice
+const MAX_SEEN_IDS = 20000;
+
+// { seq, changes: [{ seq, id, storeName, operation, recordId, data, timestamp, deviceId }], seenIds }
+let state = { seq: 0, changes: [], seenIds: [] };
+let seen = new Set();
+let writing = Promise.resolve();
+
+const load = async () => {
+  try {
+    state = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+    seen = new Set(state.seenIds);
+    console.log(`Loaded ${state.changes.length} changes from ${DATA_FILE}`);
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+    console.log(`Starting a new change log at ${DATA_FILE}`);
+  }
+};
+
+// Writes go to a temporary file first so a crash mid-write can't corrupt the log.
+// A failed write rejects only its own caller; the next one still runs and writes the whole state.
+const save = () => {
+  const write = writing.catch(() => {}).then(async () => {
+    const temp = `${DATA_FILE}.tmp`;
+    await writeFile(temp, JSON.stringify(state));
+    await rename(temp, DATA_FILE);
+  });
+  writing = write;
+  return write;
+};
+
+const isValidChange = (change) =>
+  change &&
+  typeof change.id === 'string' &&
+  typeof change.storeName === 'string' &&
+  typeof change.recordId === 'string' &&
+  (change.operation === 'put' || change.operation === 'delete');
+
+const addChanges = async (deviceId, changes) => {
+  let accepted = 0;
+  changes.forEach(change => {
+    if (seen.has(change.id)) return;
+
+    // Only the latest change to a record is kept; devices behind it still get it, since its seq is newer
+    state.seq += 1;
+    state.changes = state.changes.filter(c => c.storeName !== change.storeName || c.recordId !== change.recordId);
+    state.changes.push({
+      seq: state.seq,
+      id: change.id,
+      storeName: change.storeName,
+      operation: change.operation,
+      recordId: change.recordId,
+      data: change.operation === 'put' ? change.data : null,
+      timestamp: change.timestamp || Date.now(),
+      deviceId
+    });
+    seen.add(change.id);
+    state.seenIds.push(change.id);
+    accepted++;
+  });
+
+  if (state.seenIds.length > MAX_SEEN_IDS) {
+    state.seenIds = state.seenIds.slice(-MAX_SEEN_IDS);
+    seen = new Set(state.seenIds);
+  }
+  if (accepted > 0) await save();
+  return accepted;
+};
+
+// Changes after `since`, leaving out the asking device's own. The cursor still moves past them.
+const getChanges = (deviceId, since) => {
+  const after = state.changes.filter(c => c.seq > since);
+  const page = after.slice(0, PAGE_SIZE);
+  return {
+    changes: page.filter(c => c.deviceId !== deviceId),
+    cursor: String(page.length > 0 ? page[page.length - 1].seq : Math.max(since, 0)),
+    hasMore: after.length > PAGE_SIZE
+  };
+};
+
+const readBody = (req) => {
+  return new Promise((resolveBody, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const handle = async (req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (url.pathname === '/health') return send(res, 200, { ok: true, seq: state.seq });
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(res, 401, { error: 'Invalid household key' });
+  }
+
+  if (url.pathname === '/changes' && req.method === 'GET') {
+    const deviceId = url.searchParams.get('device') || '';
+    const since = parseInt(url.searchParams.get('since') || '0', 10) || 0;
+    return send(res, 200, getChanges(deviceId, since));
+  }
+
+  if (url.pathname === '/changes' && req.method === 'POST') {
+    let body;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (error) {
+      return send(res, error.status || 400, { error: error.status ? error.message : 'Invalid JSON' });
+    }
+    if (!body || typeof body.deviceId !== 'string' || !Array.isArray(body.changes)) {
+      return send(res, 400, { error: 'Expected { deviceId, changes: [] }' });
+    }
+    if (!body.changes.every(isValidChange)) {
+      return send(res, 400, { error: 'Each change needs id, storeName, recordId and a put or delete operation' });
+    }
+
+    const accepted = await addChanges(body.deviceId, body.changes);
+    return send(res, 200, { accepted, cursor: String(state.seq) });
+  }
+
+  return send(res, 404, { error: 'Not found' });
+};
+
+await load();
+
+createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.error('Request failed:', error);
+    send(res, 500, { error: 'Internal server error' });
+  });
+}).listen(PORT, () => {
+  console.log(`Compu-Caddy sync server listening on port ${PORT}${TOKEN ? '' : ' (no SYNC_TOKEN set, anyone can sync)'}`);
+});
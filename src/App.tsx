@@ -1,4 +1,4 @@
-import React, { useState, lazy, Suspense, useCallback } from 'react';
+import React, { useState, lazy, Suspense, useCallback, useEffect, useRef } from 'react';
 import { Activity, Menu, X, TrendingUp, Plus, MapPin, Award, Home, Settings as SettingsIcon, BarChart3 } from 'lucide-react';
 import { PWAInstallBanner, OfflineIndicator, usePWAInstall } from './PWAComponents';
 
@@ -12,11 +12,13 @@ const HomeCourse = lazy(() => import('./components/HomeCourse'));
 const Settings = lazy(() => import('./components/Settings'));
 const Scorecard = lazy(() => import('./components/Scorecard'));
 const ScorecardImport = lazy(() => import('./components/ScorecardImport'));
+const ConflictReview = lazy(() => import('./components/ConflictReview'));
 import ErrorBoundary from './components/ErrorBoundary';
 
 // Import hooks
 import { useGolfData } from './hooks/useGolfData';
 import { useStats } from './hooks/useStats';
+import StatsFilterBar from './components/StatsFilterBar';
 
 // Service Worker Registration
 if ('serviceWorker' in navigator) {
@@ -63,8 +65,10 @@ export default function GolfStatsApp() {
   const handleBackTouchEnd = () => {
     setBackSwipeStart(null);
   };
-  const [notification, setNotification] = useState<{ message: string; type: string } | null>(null);
+  const [notification, setNotification] = useState<{ message: string; type: string; undoTrashId?: string } | null>(null);
+  const notificationTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
   const [showScorecard, setShowScorecard] = useState<boolean>(false);
+  const [editingRound, setEditingRound] = useState<any>(null);
   const [apiKeyInput, setApiKeyInput] = useState<string>(localStorage.getItem('golfApiKey') || '');
 
   // PWA Install functionality
@@ -81,15 +85,62 @@ export default function GolfStatsApp() {
     error,
     handleImportCourse,
     setHomeCourse,
-    saveRound,
+    saveRounds,
+    importCourseFromScorecard,
+    updateRound,
+    getRoundDetails,
+    getRoundHistory,
+    editorName,
+    updateEditorName,
     deleteRound,
+    deleteCourse,
+    trashItems,
+    restoreFromTrash,
+    deleteFromTrash,
+    emptyTrash,
+    performSync,
+    syncConfig,
+    updateSyncConfig,
+    syncStatus,
+    syncError,
+    lastSyncedAt,
+    pendingConflicts,
+    resolveConflict,
+    syncQueueItems,
+    loadSyncQueue,
+    retrySyncItem,
+    discardSyncItem,
     exportData,
+    readBackup,
+    previewImport,
     importData,
-    clearAllData
+    checkIntegrity,
+    repairIntegrity,
+    clearAllData,
+    restorePoints,
+    takeSnapshot,
+    previewSnapshot,
+    restoreSnapshot,
+    statsFilters,
+    updateStatsFilters,
+    roundStats,
+    shots,
+    recordCounts,
+    loadRoundDetails,
+    loadRoundPage,
+    players,
+    activePlayerId,
+    setActivePlayer,
+    addPlayer,
+    renamePlayer,
+    deletePlayer,
+    playerHandicaps
   } = useGolfData();
 
   const {
     stats,
+    filteredRounds,
+    filteredHoleScores,
     homeCourse,
     homeCourseStats,
     scoreTrendData,
@@ -102,18 +153,81 @@ export default function GolfStatsApp() {
     onePuttPct,
     birdieAvg,
     bogeyAvoidancePct
-  } = useStats(rounds, holeScores, courses);
+  } = useStats(rounds, holeScores, courses, statsFilters, roundStats, shots);
+
+  // Only the analytics view needs hole-level data, so it's loaded when it's shown. Home course hole
+  // averages come from the cached round aggregates, which cover every round.
+  useEffect(() => {
+    if (currentView === 'analytics') {
+      loadRoundDetails(filteredRounds.map(r => r.id));
+    }
+  }, [currentView, filteredRounds, loadRoundDetails]);
+
+  const statsFilterBar = (
+    <StatsFilterBar courses={courses} rounds={rounds} filters={statsFilters} onChange={updateStatsFilters} />
+  );
 
   const startNewRound = useCallback((course: any) => {
     setSelectedCourse(course);
     setShowScorecard(true);
   }, []);
 
-  const showNotification = useCallback((message: string, type: string = 'info') => {
-    setNotification({ message, type });
-    setTimeout(() => setNotification(null), 3000);
+  // Pass a trash entry id to show an Undo button, which stays up a little longer
+  const showNotification = useCallback((message: string, type: string = 'info', undoTrashId?: string) => {
+    if (notificationTimer.current) clearTimeout(notificationTimer.current);
+    setNotification({ message, type, undoTrashId });
+    notificationTimer.current = setTimeout(() => setNotification(null), undoTrashId ? 6000 : 3000);
   }, []);
 
+  const undoDelete = async (trashId: string) => {
+    setNotification(null);
+    try {
+      await restoreFromTrash(trashId);
+      showNotification('Restored from trash', 'success');
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Error restoring from trash', 'error');
+    }
+  };
+
+  // Reopens a saved round in the full scorecard
+  const editRound = useCallback(async (round: any) => {
+    const course = courses.find(c => c.id === round.courseId);
+    if (!course) {
+      showNotification('The course for this round is no longer saved', 'error');
+      return;
+    }
+    try {
+      const details = await getRoundDetails(round.id);
+      setEditingRound({ ...round, ...details });
+      setSelectedCourse(course);
+      setShowScorecard(true);
+    } catch (error) {
+      showNotification('Error loading round', 'error');
+    }
+  }, [courses, getRoundDetails, showNotification]);
+
+  const closeScorecard = () => {
+    setShowScorecard(false);
+    setSelectedCourse(null);
+    setEditingRound(null);
+  };
+
+  const handleScorecardSave = async (roundsData: any[], course: any) => {
+    try {
+      if (editingRound) {
+        await updateRound(editingRound.id, roundsData[0], course);
+        showNotification('Round updated', 'success');
+      } else {
+        await saveRounds(roundsData, course);
+        localStorage.removeItem('scorecard-draft');
+        showNotification(roundsData.length > 1 ? `${roundsData.length} rounds saved` : 'Round saved', 'success');
+      }
+      closeScorecard();
+    } catch (error) {
+      showNotification('Error saving round', 'error');
+    }
+  };
+
   const saveApiKey = () => {
     if (apiKeyInput.trim()) {
       localStorage.setItem('golfApiKey', apiKeyInput.trim());
@@ -173,12 +287,15 @@ export default function GolfStatsApp() {
           <div className="max-w-4xl mx-auto">
             <Scorecard
               course={selectedCourse}
-              onSave={saveRound}
-              onCancel={() => {
-                setShowScorecard(false);
-                setSelectedCourse(null);
-              }}
-              existingRound={undefined}
+              onSave={handleScorecardSave}
+              onCancel={closeScorecard}
+              players={players}
+              activePlayerId={activePlayerId}
+              existingRound={editingRound || undefined}
+              // An edited round keeps the index it was originally played off
+              handicapIndexes={editingRound
+                ? { [editingRound.playerId]: editingRound.handicapIndex ?? playerHandicaps[editingRound.playerId] ?? null }
+                : playerHandicaps}
             />
           </div>
         </div>
@@ -204,11 +321,19 @@ export default function GolfStatsApp() {
           className={`fixed top-4 right-4 z-50 px-6 py-3 rounded-lg shadow-lg ${
             notification.type === 'success' ? 'bg-green-600' :
             notification.type === 'error' ? 'bg-red-600' : 'bg-blue-600'
-          } text-white animate-pulse`}
+          } text-white flex items-center gap-4 ${notification.undoTrashId ? '' : 'animate-pulse'}`}
           role="alert"
           aria-live="assertive"
         >
           {notification.message}
+          {notification.undoTrashId && (
+            <button
+              onClick={() => undoDelete(notification.undoTrashId as string)}
+              className="font-semibold underline hover:no-underline"
+            >
+              Undo
+            </button>
+          )}
         </div>
       )}
 
@@ -219,6 +344,18 @@ export default function GolfStatsApp() {
             <div className="flex items-center gap-2">
               <Activity className="text-blue-600" size={32} />
               <h1 className="text-2xl font-bold text-gray-800">CompuCaddy</h1>
+              {players.length > 1 && (
+                <select
+                  value={activePlayerId}
+                  onChange={(e) => setActivePlayer(e.target.value)}
+                  className="ml-2 px-2 py-1 border rounded-lg text-sm"
+                  aria-label="Show stats for player"
+                >
+                  {players.map(player => (
+                    <option key={player.id} value={player.id}>{player.name}</option>
+                  ))}
+                </select>
+              )}
             </div>
 
             {/* Mobile Menu Button */}
@@ -388,6 +525,7 @@ export default function GolfStatsApp() {
               gameProfileData={gameProfileData}
               strokesGainedData={strokesGainedData}
               setCurrentView={setCurrentView}
+              filterBar={statsFilterBar}
             />
           )}
           {currentView === 'newRound' && (
@@ -414,6 +552,7 @@ export default function GolfStatsApp() {
               courses={courses}
               rounds={rounds}
               setHomeCourse={setHomeCourse}
+              deleteCourse={deleteCourse}
               setCurrentView={setCurrentView}
               showNotification={showNotification}
             />
@@ -421,10 +560,14 @@ export default function GolfStatsApp() {
           {currentView === 'analytics' && (
             <Analytics
               stats={stats}
-              holeScores={holeScores}
-              rounds={rounds}
+              holeScores={filteredHoleScores}
+              rounds={filteredRounds}
               courses={courses}
               deleteRound={deleteRound}
+              editRound={editRound}
+              getRoundHistory={getRoundHistory}
+              loadRoundPage={loadRoundPage}
+              filterBar={statsFilterBar}
               showNotification={showNotification}
             />
           )}
@@ -435,14 +578,56 @@ export default function GolfStatsApp() {
               setCurrentView={setCurrentView}
             />
           )}
+          {currentView === 'conflicts' && (
+            <ConflictReview
+              conflicts={pendingConflicts}
+              courses={courses}
+              getRoundDetails={getRoundDetails}
+              resolveConflict={resolveConflict}
+              setCurrentView={setCurrentView}
+              showNotification={showNotification}
+            />
+          )}
           {currentView === 'settings' && (
             <Settings
               courses={courses}
               rounds={rounds}
-              holeScores={holeScores}
+              recordCounts={recordCounts}
+              editorName={editorName}
+              updateEditorName={updateEditorName}
+              players={players}
+              activePlayerId={activePlayerId}
+              setActivePlayer={setActivePlayer}
+              addPlayer={addPlayer}
+              renamePlayer={renamePlayer}
+              deletePlayer={deletePlayer}
               exportData={exportData}
+              readBackup={readBackup}
+              previewImport={previewImport}
               importData={importData}
+              checkIntegrity={checkIntegrity}
+              repairIntegrity={repairIntegrity}
               clearAllData={clearAllData}
+              restorePoints={restorePoints}
+              takeSnapshot={takeSnapshot}
+              previewSnapshot={previewSnapshot}
+              restoreSnapshot={restoreSnapshot}
+              trashItems={trashItems}
+              restoreFromTrash={restoreFromTrash}
+              deleteFromTrash={deleteFromTrash}
+              emptyTrash={emptyTrash}
+              syncConfig={syncConfig}
+              updateSyncConfig={updateSyncConfig}
+              performSync={performSync}
+              syncStatus={syncStatus}
+              syncError={syncError}
+              lastSyncedAt={lastSyncedAt}
+              conflictCount={pendingConflicts.length}
+              onReviewConflicts={() => setCurrentView('conflicts')}
+              syncQueueItems={syncQueueItems}
+              loadSyncQueue={loadSyncQueue}
+              retrySyncItem={retrySyncItem}
+              discardSyncItem={discardSyncItem}
               apiKeyInput={apiKeyInput}
               setApiKeyInput={setApiKeyInput}
               saveApiKey={saveApiKey}
@@ -453,8 +638,9 @@ export default function GolfStatsApp() {
           )}
           {currentView === 'scorecard-import' && db && (
             <ScorecardImport
-              db={db}
-              onSave={(course: any, round?: any) => saveRound(round, course)}
+              onSave={async (course: any, roundData?: any) => {
+                await importCourseFromScorecard(course, roundData);
+              }}
               onCancel={() => setCurrentView('courses')}
               onStartNewRound={startNewRound}
             />
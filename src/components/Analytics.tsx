@@ -1,6 +1,10 @@
 import React from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { Trash2 } from 'lucide-react';
+import { Trash2, Pencil, History, Trophy } from 'lucide-react';
+import HandicapCalculator, { type HandicapRevision } from '../utils/HandicapCalculator';
+import RoundChangeLog, { type RoundHistoryEntry } from '../utils/RoundChangeLog';
+import { type SideGameResult } from '../utils/SideGames';
+import GameSettlement from './GameSettlement';
 
 // Import types from useGolfData
 interface Location {
@@ -44,9 +48,24 @@ interface Round {
   date: string;
   teeBox: string;
   totalScore: number;
+  adjustedGrossScore?: number | null;
   scoreToPar: number;
-  differential: number;
+  differential: number | null;
   completed: boolean;
+  holesPlayed?: number;
+  lastEditedAt?: number;
+  sideGame?: SideGameResult;
+}
+
+// Where a page of rounds ended, passed back to read the one after it
+interface RoundCursor {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
+}
+
+interface RoundPage {
+  rounds: Round[];
+  next: RoundCursor | null;
 }
 
 interface HoleScore {
@@ -58,20 +77,27 @@ interface HoleScore {
   fairwayHit: string;
   greenInRegulation: boolean;
   penaltyStrokes: number;
+  greensideBunker?: boolean | null;
+  upAndDownAttempt?: boolean | null;
+  chipCount?: number | null;
 }
 
 interface Stats {
   scoringAvg: number;
+  nineHoleScoringAvg: number;
   girPct: number;
   firPct: number;
   puttingAvg: number;
   handicap: number | null;
+  lowHandicapIndex: number | null;
+  handicapHistory: HandicapRevision[];
   distribution: {
-    birdiesOrBetter: number;
+    eagles: number;
+    birdies: number;
     pars: number;
     bogeys: number;
     doubles: number;
-    others: number;
+    triplesPlus: number;
   };
   strokesGained: {
     offTee: number;
@@ -81,6 +107,12 @@ interface Stats {
   };
   scramblingPct: number;
   sandSavePct: number;
+  upAndDownPct: number;
+  shortGameHoles: {
+    scrambling: number;
+    sandSaves: number;
+    upAndDowns: number;
+  };
   onePuttPct: number;
   birdieAvg: number;
   bogeyAvoidancePct: number;
@@ -91,24 +123,70 @@ interface AnalyticsProps {
   holeScores: HoleScore[];
   rounds: Round[];
   courses: Course[];
-  deleteRound: (roundId: string) => Promise<void>;
-  showNotification: (message: string, type: 'success' | 'error' | 'info') => void;
+  deleteRound: (roundId: string) => Promise<string>;
+  editRound: (round: Round) => void;
+  getRoundHistory: (roundId: string) => Promise<RoundHistoryEntry[]>;
+  loadRoundPage: (after?: RoundCursor | null) => Promise<RoundPage>;
+  showNotification: (message: string, type: 'success' | 'error' | 'info', undoTrashId?: string) => void;
+  filterBar?: React.ReactNode;
 }
 
-function Analytics({ stats, holeScores, rounds, courses, deleteRound, showNotification }: AnalyticsProps) {
+function Analytics({ stats, holeScores, rounds, courses, deleteRound, editRound, getRoundHistory, loadRoundPage, showNotification, filterBar }: AnalyticsProps) {
   const [selectedHole, setSelectedHole] = React.useState<number | null>(null);
+  const [historyRoundId, setHistoryRoundId] = React.useState<string | null>(null);
+  const [history, setHistory] = React.useState<RoundHistoryEntry[]>([]);
+  const [gameRoundId, setGameRoundId] = React.useState<string | null>(null);
+  const [recentRounds, setRecentRounds] = React.useState<Round[]>([]);
+  const [recentNext, setRecentNext] = React.useState<RoundCursor | null>(null);
+  const fullRounds = rounds.filter(r => (r.holesPlayed ?? 18) === 18);
+  const holeCount = Math.max(18, ...holeScores.map(h => h.holeNumber || 0));
 
   const handleDeleteRound = async (roundId: string) => {
-    if (!confirm('Delete this round?')) return;
-
     try {
-      await deleteRound(roundId);
-      showNotification('Round deleted', 'success');
+      const trashId = await deleteRound(roundId);
+      showNotification('Round moved to trash', 'info', trashId);
     } catch (error) {
       showNotification('Error deleting round', 'error');
     }
   };
 
+  // The list pages through the database instead of the rounds in memory, and starts over when they change
+  React.useEffect(() => {
+    let cancelled = false;
+    loadRoundPage(null).then(page => {
+      if (cancelled) return;
+      setRecentRounds(page.rounds);
+      setRecentNext(page.next);
+    }).catch(() => showNotification('Error loading rounds', 'error'));
+    return () => {
+      cancelled = true;
+    };
+  }, [loadRoundPage, rounds]);
+
+  const showMoreRounds = async () => {
+    if (!recentNext) return;
+    try {
+      const page = await loadRoundPage(recentNext);
+      setRecentRounds(prev => prev.concat(page.rounds));
+      setRecentNext(page.next);
+    } catch (error) {
+      showNotification('Error loading rounds', 'error');
+    }
+  };
+
+  const toggleHistory = async (roundId: string) => {
+    if (historyRoundId === roundId) {
+      setHistoryRoundId(null);
+      return;
+    }
+    try {
+      setHistory(await getRoundHistory(roundId));
+      setHistoryRoundId(roundId);
+    } catch (error) {
+      showNotification('Error loading edit history', 'error');
+    }
+  };
+
   const handleBarClick = (data: any) => {
     setSelectedHole(data.hole);
   };
@@ -117,6 +195,8 @@ function Analytics({ stats, holeScores, rounds, courses, deleteRound, showNotifi
     <div className="space-y-6">
       <h2 className="text-2xl font-bold text-gray-800">Advanced Analytics</h2>
 
+      {filterBar}
+
       {/* Detailed Stats Grid */}
       <div className="grid md:grid-cols-4 gap-4">
         <div className="bg-white p-4 rounded-lg shadow">
@@ -141,10 +221,10 @@ function Analytics({ stats, holeScores, rounds, courses, deleteRound, showNotifi
         <div className="bg-white p-4 rounded-lg shadow">
           <div className="text-sm text-gray-600 mb-2">Best Round</div>
           <div className="text-2xl font-bold text-green-600">
-            {rounds.length > 0 ? Math.min(...rounds.map(r => r.totalScore)) : 'N/A'}
+            {fullRounds.length > 0 ? Math.min(...fullRounds.map(r => r.totalScore)) : 'N/A'}
           </div>
           <div className="text-xs text-gray-500 mt-1">
-            Worst: {rounds.length > 0 ? Math.max(...rounds.map(r => r.totalScore)) : 'N/A'}
+            Worst: {fullRounds.length > 0 ? Math.max(...fullRounds.map(r => r.totalScore)) : 'N/A'}
           </div>
         </div>
 
@@ -156,11 +236,30 @@ function Analytics({ stats, holeScores, rounds, courses, deleteRound, showNotifi
         </div>
       </div>
 
+      {/* Short Game: only holes with the relevant data recorded count toward each rate */}
+      <div className="grid md:grid-cols-3 gap-4">
+        {[
+          { label: 'Scrambling', value: stats.scramblingPct, holes: stats.shortGameHoles.scrambling, note: 'missed greens', color: 'text-teal-600' },
+          { label: 'Sand Saves', value: stats.sandSavePct, holes: stats.shortGameHoles.sandSaves, note: 'greenside bunkers', color: 'text-yellow-600' },
+          { label: 'Up & Down', value: stats.upAndDownPct, holes: stats.shortGameHoles.upAndDowns, note: 'attempts', color: 'text-indigo-600' }
+        ].map(card => (
+          <div key={card.label} className="bg-white p-4 rounded-lg shadow">
+            <div className="text-sm text-gray-600 mb-2">{card.label}</div>
+            <div className={`text-2xl font-bold ${card.color}`}>
+              {card.holes > 0 ? `${card.value.toFixed(1)}%` : 'N/A'}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              {card.holes} {card.note} recorded
+            </div>
+          </div>
+        ))}
+      </div>
+
       {/* Hole-by-Hole Analysis */}
       <div className="bg-white p-6 rounded-lg shadow">
         <h3 className="text-lg font-semibold mb-4">Hole-by-Hole Performance (All Courses)</h3>
         <ResponsiveContainer width="100%" height={300}>
-          <BarChart data={Array.from({ length: 18 }, (_, i) => {
+          <BarChart data={Array.from({ length: holeCount }, (_, i) => {
             const holeNum = i + 1;
             const holesData = holeScores.filter(h => h.holeNumber === holeNum);
             const avgScore = holesData.length > 0
@@ -221,41 +320,148 @@ function Analytics({ stats, holeScores, rounds, courses, deleteRound, showNotifi
         </div>
       )}
 
+      {/* Handicap Index History */}
+      <div className="bg-white p-6 rounded-lg shadow">
+        <div className="flex justify-between items-baseline mb-4">
+          <h3 className="text-lg font-semibold">Handicap Index History</h3>
+          <div className="text-sm text-gray-600">
+            Low Index: {HandicapCalculator.formatHandicapIndex(stats.lowHandicapIndex)}
+          </div>
+        </div>
+        {stats.handicapHistory.length === 0 ? (
+          <p className="text-sm text-gray-500">Post at least 3 rated rounds to establish a Handicap Index.</p>
+        ) : (
+          <div className="space-y-2 max-h-64 overflow-y-auto">
+            {stats.handicapHistory.slice(-20).reverse().map((revision) => {
+              const course = courses.find(c => c.id === rounds.find(r => r.id === revision.roundId)?.courseId);
+              return (
+                <div key={revision.roundId} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg text-sm">
+                  <div>
+                    <div className="font-medium">{new Date(revision.date).toLocaleDateString()}</div>
+                    <div className="text-gray-600">
+                      {course?.name || 'Unknown Course'} · Differential {revision.differential.toFixed(1)}
+                      {revision.roundIds.length > 1 && ' (two 9-hole rounds)'}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="font-bold text-green-600">{HandicapCalculator.formatHandicapIndex(revision.handicapIndex)}</div>
+                    <div className="text-xs text-gray-500">
+                      {revision.cap !== 'none' && `${revision.cap === 'soft' ? 'Soft' : 'Hard'} cap`}
+                      {revision.cap !== 'none' && revision.exceptionalScoreReduction !== 0 && ' · '}
+                      {revision.exceptionalScoreReduction !== 0 && `ESR ${revision.exceptionalScoreReduction}`}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
       {/* Recent Rounds */}
       <div className="bg-white p-6 rounded-lg shadow">
         <h3 className="text-lg font-semibold mb-4">Recent Rounds</h3>
         <div className="space-y-2">
-          {rounds.slice(-10).reverse().map((round) => {
+          {recentRounds.map((round) => {
             const course = courses.find(c => c.id === round.courseId);
             return (
-              <div key={round.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
-                <div className="flex-1">
-                  <div className="font-medium">{course?.name || 'Unknown Course'}</div>
-                  <div className="text-sm text-gray-600">
-                    {new Date(round.date).toLocaleDateString()} · {round.teeBox}
+              <div key={round.id} className="p-3 bg-gray-50 rounded-lg">
+                <div className="flex justify-between items-center">
+                  <div className="flex-1">
+                    <div className="font-medium">{course?.name || 'Unknown Course'}</div>
+                    <div className="text-sm text-gray-600">
+                      {new Date(round.date).toLocaleDateString()} · {round.teeBox}
+                      {round.holesPlayed && round.holesPlayed !== 18 && <span> · {round.holesPlayed} holes</span>}
+                      {typeof round.adjustedGrossScore === 'number' && round.adjustedGrossScore !== round.totalScore && (
+                        <span> · Adjusted {round.adjustedGrossScore}</span>
+                      )}
+                      {round.lastEditedAt && <span> · Edited</span>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <div className={`text-xl font-bold ${
+                      round.scoreToPar <= 0 ? 'text-green-600' :
+                      round.scoreToPar <= 5 ? 'text-blue-600' : 'text-orange-600'
+                    }`}>
+                      {round.totalScore}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      {round.scoreToPar >= 0 ? '+' : ''}{round.scoreToPar}
+                    </div>
+                    <div className="flex">
+                      {round.sideGame && (
+                        <button
+                          onClick={() => setGameRoundId(gameRoundId === round.id ? null : round.id)}
+                          className="p-2 text-green-600 hover:bg-green-50 rounded-lg"
+                          aria-label="Show game settlement"
+                          aria-expanded={gameRoundId === round.id}
+                        >
+                          <Trophy size={16} />
+                        </button>
+                      )}
+                      {round.lastEditedAt && (
+                        <button
+                          onClick={() => toggleHistory(round.id)}
+                          className="p-2 text-gray-600 hover:bg-gray-200 rounded-lg"
+                          aria-label="Show edit history"
+                          aria-expanded={historyRoundId === round.id}
+                        >
+                          <History size={16} />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => editRound(round)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg"
+                        aria-label="Edit round"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteRound(round.id)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        aria-label="Delete round"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
                   </div>
                 </div>
-                <div className="flex items-center gap-4">
-                  <div className={`text-xl font-bold ${
-                    round.scoreToPar <= 0 ? 'text-green-600' :
-                    round.scoreToPar <= 5 ? 'text-blue-600' : 'text-orange-600'
-                  }`}>
-                    {round.totalScore}
+
+                {gameRoundId === round.id && round.sideGame && (
+                  <div className="mt-3">
+                    <GameSettlement result={round.sideGame} />
                   </div>
-                  <div className="text-sm text-gray-600">
-                    {round.scoreToPar >= 0 ? '+' : ''}{round.scoreToPar}
+                )}
+
+                {historyRoundId === round.id && (
+                  <div className="mt-3 border-t pt-3 space-y-3 text-sm">
+                    {history.length === 0 && <div className="text-gray-500">No edits recorded.</div>}
+                    {history.map(entry => (
+                      <div key={entry.id}>
+                        <div className="text-gray-600">
+                          {new Date(entry.editedAt).toLocaleString()} · {entry.editedBy.name || 'This device'}
+                        </div>
+                        <ul className="list-disc list-inside text-gray-800">
+                          {entry.changes.map((change, i) => (
+                            <li key={i}>{RoundChangeLog.describeChange(change)}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
                   </div>
-                  <button
-                    onClick={() => handleDeleteRound(round.id)}
-                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
-                  >
-                    <Trash2 size={16} />
-                  </button>
-                </div>
+                )}
               </div>
             );
           })}
         </div>
+        {recentNext && (
+          <button
+            onClick={showMoreRounds}
+            className="mt-4 w-full py-2 text-sm font-medium text-blue-600 hover:bg-blue-50 rounded-lg"
+          >
+            Show more
+          </button>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,410 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, GitMerge, CheckCircle } from 'lucide-react';
+import RoundChangeLog from '../utils/RoundChangeLog';
+
+// Import types from useGolfData
+interface Hole {
+  number: number;
+  par: number;
+}
+
+interface Course {
+  id: string;
+  name: string;
+  holes: Hole[];
+}
+
+interface HoleScore {
+  id: string;
+  roundId: string;
+  holeNumber: number;
+  score: number;
+  [field: string]: any;
+}
+
+interface StoredConflict {
+  id: string;
+  storeName: string;
+  recordId: string;
+  timestamp: number;
+  conflict: {
+    type: string;
+    local: any | null;
+    remote: any | null;
+  };
+}
+
+// Per-field choices, in the rule names GolfDB.mergeData understands
+type FieldRule = 'use_local' | 'use_remote' | 'combine';
+
+interface Resolution {
+  strategy: 'use_local' | 'use_remote' | 'merge';
+  mergeRules?: { [field: string]: FieldRule };
+}
+
+interface ConflictReviewProps {
+  conflicts: StoredConflict[];
+  courses: Course[];
+  getRoundDetails: (roundId: string) => Promise<{ holeScores: HoleScore[] }>;
+  resolveConflict: (conflictId: string, resolution: Resolution) => Promise<void>;
+  setCurrentView: (view: string) => void;
+  showNotification: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+// Bookkeeping fields that are never worth choosing between
+const HIDDEN_FIELDS = ['id', 'synced', 'lastModified'];
+
+const isSame = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const formatField = (value: any): string => {
+  if (Array.isArray(value) && value.some(v => v !== null && typeof v === 'object')) {
+    return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  }
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const text = JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  }
+  return RoundChangeLog.formatValue(value);
+};
+
+const fieldLabel = (field: string) => {
+  const words = field.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const getFields = (local: any, remote: any) =>
+  Object.keys(local || {})
+    .concat(Object.keys(remote || {}))
+    .filter((field, i, all) => all.indexOf(field) === i && HIDDEN_FIELDS.indexOf(field) === -1);
+
+// The side a conflict leans to before the user picks: whichever copy was changed last
+const defaultSide = (conflict: StoredConflict['conflict']): 'use_local' | 'use_remote' =>
+  conflict.type === 'server_newer' ? 'use_remote' : 'use_local';
+
+function describeRecord(item: StoredConflict, courses: Course[]): string {
+  const record = item.conflict.local || item.conflict.remote || {};
+  switch (item.storeName) {
+    case 'rounds': {
+      const course = courses.find(c => c.id === record.courseId);
+      return `Round at ${course?.name || 'unknown course'} on ${new Date(record.date).toLocaleDateString()}`;
+    }
+    case 'courses':
+      return `Course: ${record.name}`;
+    case 'holeScores':
+      return `Hole ${record.holeNumber} score`;
+    case 'shots':
+      return `Hole ${record.holeNumber} shot ${record.shotNumber}`;
+    default:
+      return `${item.storeName} record`;
+  }
+}
+
+interface ConflictCardProps {
+  item: StoredConflict;
+  holeConflicts: StoredConflict[];
+  courses: Course[];
+  getRoundDetails: ConflictReviewProps['getRoundDetails'];
+  onResolve: (item: StoredConflict, resolution: Resolution, holeResolutions: { [conflictId: string]: Resolution }) => Promise<void>;
+}
+
+function ConflictCard({ item, holeConflicts, courses, getRoundDetails, onResolve }: ConflictCardProps) {
+  const { local, remote, type } = item.conflict;
+  const fields = getFields(local, remote);
+  const differing = fields.filter(field => !isSame(local?.[field], remote?.[field]));
+  const [choices, setChoices] = useState<{ [field: string]: FieldRule }>(() => {
+    const initial: { [field: string]: FieldRule } = {};
+    differing.forEach(field => { initial[field] = defaultSide(item.conflict); });
+    return initial;
+  });
+  const [holeChoices, setHoleChoices] = useState<{ [conflictId: string]: 'use_local' | 'use_remote' }>(() => {
+    const initial: { [conflictId: string]: 'use_local' | 'use_remote' } = {};
+    holeConflicts.forEach(h => { initial[h.id] = defaultSide(h.conflict); });
+    return initial;
+  });
+  const [baseHoles, setBaseHoles] = useState<HoleScore[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Holes that only changed on one device are already merged, so the saved copy is the starting point
+  useEffect(() => {
+    if (item.storeName !== 'rounds') return;
+    getRoundDetails(item.recordId)
+      .then(details => setBaseHoles(details.holeScores))
+      .catch(error => console.error('Failed to load holes for conflict:', error));
+  }, [item.storeName, item.recordId]);
+
+  const resolve = async (resolution: Resolution, holeSide?: 'use_local' | 'use_remote') => {
+    const holeResolutions: { [conflictId: string]: Resolution } = {};
+    holeConflicts.forEach(h => {
+      holeResolutions[h.id] = { strategy: holeSide || holeChoices[h.id] };
+    });
+    setIsSaving(true);
+    try {
+      await onResolve(item, resolution, holeResolutions);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!local || !remote) {
+    return (
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h3 className="font-semibold mb-1">{describeRecord(item, courses)}</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {local ? 'Deleted on another device but changed on this one.' : 'Deleted on this device but changed on another one.'}
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() => resolve({ strategy: 'use_local' })}
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+          >
+            {local ? 'Keep it' : 'Keep it deleted'}
+          </button>
+          <button
+            onClick={() => resolve({ strategy: 'use_remote' })}
+            disabled={isSaving}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            {local ? 'Delete it' : 'Bring it back'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // Merged preview: picked round fields, plus every hole with its picked score
+  const merged: any = { ...local };
+  differing.forEach(field => {
+    if (choices[field] === 'use_remote') merged[field] = remote[field];
+    if (choices[field] === 'combine') {
+      merged[field] = (local[field] || []).concat(remote[field] || []).filter((v: any, i: number, all: any[]) => all.indexOf(v) === i);
+    }
+  });
+
+  const course = courses.find(c => c.id === merged.courseId);
+  const holeRows = item.storeName !== 'rounds' ? [] : baseHoles
+    .map(h => h.holeNumber)
+    .concat(holeConflicts.map(h => (h.conflict.local || h.conflict.remote).holeNumber))
+    .filter((n, i, all) => all.indexOf(n) === i)
+    .sort((a, b) => a - b)
+    .map(holeNumber => {
+      const conflict = holeConflicts.find(h => (h.conflict.local || h.conflict.remote).holeNumber === holeNumber);
+      const base = baseHoles.find(h => h.holeNumber === holeNumber);
+      const localScore = conflict ? conflict.conflict.local?.score ?? null : base?.score ?? null;
+      const remoteScore = conflict ? conflict.conflict.remote?.score ?? null : base?.score ?? null;
+      const picked = conflict && holeChoices[conflict.id] === 'use_remote' ? remoteScore : localScore;
+      return {
+        holeNumber,
+        par: course?.holes?.find(h => h.number === holeNumber)?.par,
+        conflict,
+        localScore,
+        remoteScore,
+        picked
+      };
+    });
+  const mergedHoleTotal = holeRows.reduce((sum, row) => sum + (row.picked || 0), 0);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="font-semibold mb-1">{describeRecord(item, courses)}</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Changed on this device and another one since they last synced
+        {type === 'server_newer' ? ' (the other device changed it more recently)' : ''}.
+      </p>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-2">Field</th>
+              <th className="py-2 pr-2">This device</th>
+              <th className="py-2 pr-2">Other device</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map(field => {
+              const differs = differing.indexOf(field) !== -1;
+              const canCombine = Array.isArray(local[field]) && Array.isArray(remote[field]);
+              return (
+                <tr key={field} className={`border-b ${differs ? 'bg-yellow-50' : ''}`}>
+                  <td className="py-2 pr-2 font-medium">
+                    {fieldLabel(field)}
+                    {differs && canCombine && (
+                      <label className="block text-xs font-normal text-gray-600 mt-1">
+                        <input
+                          type="checkbox"
+                          checked={choices[field] === 'combine'}
+                          onChange={(e) => setChoices({ ...choices, [field]: e.target.checked ? 'combine' : defaultSide(item.conflict) })}
+                          className="mr-1"
+                        />
+                        Keep both
+                      </label>
+                    )}
+                  </td>
+                  {(['use_local', 'use_remote'] as FieldRule[]).map(side => {
+                    const value = side === 'use_local' ? local[field] : remote[field];
+                    if (!differs) {
+                      return <td key={side} className="py-2 pr-2 text-gray-600">{formatField(value)}</td>;
+                    }
+                    const selected = choices[field] === side;
+                    return (
+                      <td key={side} className="py-2 pr-2">
+                        <label className={`flex items-center gap-2 px-2 py-1 rounded cursor-pointer ${selected ? 'bg-blue-100 font-semibold' : ''}`}>
+                          <input
+                            type="radio"
+                            name={`${item.id}-${field}`}
+                            checked={selected}
+                            onChange={() => setChoices({ ...choices, [field]: side })}
+                          />
+                          {formatField(value)}
+                        </label>
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {holeRows.length > 0 && (
+        <div className="mb-4">
+          <h4 className="font-semibold text-sm mb-2">Merged scorecard</h4>
+          <div className="overflow-x-auto">
+            <table className="text-sm text-center">
+              <tbody>
+                <tr className="border-b">
+                  <th className="py-1 pr-3 text-left font-medium">Hole</th>
+                  {holeRows.map(row => <td key={row.holeNumber} className="px-2 py-1">{row.holeNumber}</td>)}
+                  <td className="px-2 py-1 font-semibold">Tot</td>
+                </tr>
+                <tr className="border-b text-gray-500">
+                  <th className="py-1 pr-3 text-left font-medium">Par</th>
+                  {holeRows.map(row => <td key={row.holeNumber} className="px-2 py-1">{row.par ?? '—'}</td>)}
+                  <td className="px-2 py-1">{holeRows.reduce((sum, row) => sum + (row.par || 0), 0)}</td>
+                </tr>
+                <tr>
+                  <th className="py-1 pr-3 text-left font-medium">Score</th>
+                  {holeRows.map(row => (
+                    <td key={row.holeNumber} className={`px-1 py-1 ${row.conflict ? 'bg-yellow-50' : ''}`}>
+                      {row.conflict ? (
+                        <select
+                          value={holeChoices[row.conflict.id]}
+                          onChange={(e) => setHoleChoices({ ...holeChoices, [row.conflict!.id]: e.target.value as 'use_local' | 'use_remote' })}
+                          className="border rounded px-1"
+                          aria-label={`Score for hole ${row.holeNumber}`}
+                        >
+                          <option value="use_local">{RoundChangeLog.formatValue(row.localScore)} (this)</option>
+                          <option value="use_remote">{RoundChangeLog.formatValue(row.remoteScore)} (other)</option>
+                        </select>
+                      ) : (
+                        RoundChangeLog.formatValue(row.picked)
+                      )}
+                    </td>
+                  ))}
+                  <td className="px-2 py-1 font-semibold">{mergedHoleTotal}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          {typeof merged.totalScore === 'number' && merged.totalScore !== mergedHoleTotal && (
+            <p className="text-xs text-orange-600 mt-2">
+              The merged holes add up to {mergedHoleTotal}, but the round total you picked is {merged.totalScore}.
+              Edit the round afterwards to bring them back in line.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => resolve({ strategy: 'merge', mergeRules: choices })}
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 flex items-center gap-2"
+        >
+          <GitMerge size={16} />
+          Save Merge
+        </button>
+        <button
+          onClick={() => resolve({ strategy: 'use_local' }, 'use_local')}
+          disabled={isSaving}
+          className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          Keep This Device's
+        </button>
+        <button
+          onClick={() => resolve({ strategy: 'use_remote' }, 'use_remote')}
+          disabled={isSaving}
+          className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          Use Other Device's
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Sync conflicts waiting for review: records changed on this device and another one between syncs
+function ConflictReview({ conflicts, courses, getRoundDetails, resolveConflict, setCurrentView, showNotification }: ConflictReviewProps) {
+  const roundConflictIds = conflicts.filter(c => c.storeName === 'rounds').map(c => c.recordId);
+  const roundIdOf = (c: StoredConflict) => (c.conflict.local || c.conflict.remote || {}).roundId;
+
+  // Hole score conflicts are shown on their round's card when the round itself is in conflict too
+  const holeConflictsFor = (item: StoredConflict) =>
+    item.storeName === 'rounds'
+      ? conflicts.filter(c => c.storeName === 'holeScores' && roundIdOf(c) === item.recordId)
+      : [];
+  const cards = conflicts.filter(c => c.storeName !== 'holeScores' || roundConflictIds.indexOf(roundIdOf(c)) === -1);
+
+  const handleResolve = async (
+    item: StoredConflict,
+    resolution: Resolution,
+    holeResolutions: { [conflictId: string]: Resolution }
+  ) => {
+    try {
+      for (const conflictId of Object.keys(holeResolutions)) {
+        await resolveConflict(conflictId, holeResolutions[conflictId]);
+      }
+      await resolveConflict(item.id, resolution);
+      showNotification('Conflict resolved', 'success');
+    } catch (error) {
+      showNotification('Error resolving conflict', 'error');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => setCurrentView('settings')}
+          className="p-2 hover:bg-gray-200 rounded-lg"
+          aria-label="Back to settings"
+        >
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">Review Sync Conflicts</h2>
+      </div>
+
+      {cards.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <CheckCircle size={48} className="mx-auto text-green-500 mb-4" />
+          <p className="text-gray-600">Nothing to review. Every device agrees.</p>
+        </div>
+      ) : (
+        cards.map(item => (
+          <ConflictCard
+            key={item.id}
+            item={item}
+            holeConflicts={holeConflictsFor(item)}
+            courses={courses}
+            getRoundDetails={getRoundDetails}
+            onResolve={handleResolve}
+          />
+        ))
+      )}
+    </div>
+  );
+}
+
+export default ConflictReview;
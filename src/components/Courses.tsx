@@ -1,5 +1,5 @@
 import React from 'react';
-import { MapPin, Plus, Home, Camera } from 'lucide-react';
+import { MapPin, Plus, Home, Camera, Trash2 } from 'lucide-react';
 
 // Import types from useGolfData
 interface Location {
@@ -44,7 +44,7 @@ interface Round {
   teeBox: string;
   totalScore: number;
   scoreToPar: number;
-  differential: number;
+  differential: number | null;
   completed: boolean;
 }
 
@@ -52,11 +52,12 @@ interface CoursesProps {
   courses: Course[];
   rounds: Round[];
   setHomeCourse: (courseId: string) => Promise<void>;
+  deleteCourse: (courseId: string) => Promise<string>;
   setCurrentView: (view: string) => void;
-  showNotification: (message: string, type: 'success' | 'error' | 'info') => void;
+  showNotification: (message: string, type: 'success' | 'error' | 'info', undoTrashId?: string) => void;
 }
 
-function Courses({ courses, rounds, setHomeCourse, setCurrentView, showNotification }: CoursesProps) {
+function Courses({ courses, rounds, setHomeCourse, deleteCourse, setCurrentView, showNotification }: CoursesProps) {
   const handleSetHomeCourse = async (courseId: string) => {
     try {
       await setHomeCourse(courseId);
@@ -66,6 +67,20 @@ function Courses({ courses, rounds, setHomeCourse, setCurrentView, showNotificat
     }
   };
 
+  // Rounds played on the course go to the trash with it
+  const handleDeleteCourse = async (courseId: string) => {
+    const roundCount = rounds.filter(r => r.courseId === courseId).length;
+    try {
+      const trashId = await deleteCourse(courseId);
+      const message = roundCount > 0
+        ? `Course and ${roundCount} round${roundCount === 1 ? '' : 's'} moved to trash`
+        : 'Course moved to trash';
+      showNotification(message, 'info', trashId);
+    } catch (error) {
+      showNotification('Error deleting course', 'error');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -106,12 +121,21 @@ function Courses({ courses, rounds, setHomeCourse, setCurrentView, showNotificat
                   </p>
                 )}
               </div>
-              {course.isHomeCourse && (
-                <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full flex items-center gap-1">
-                  <Home size={14} />
-                  Home
-                </span>
-              )}
+              <div className="flex items-center gap-2">
+                {course.isHomeCourse && (
+                  <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full flex items-center gap-1">
+                    <Home size={14} />
+                    Home
+                  </span>
+                )}
+                <button
+                  onClick={() => handleDeleteCourse(course.id)}
+                  className="text-red-500 hover:text-red-700"
+                  aria-label={`Delete ${course.name}`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
             </div>
 
             <div className="text-sm text-gray-600 mb-4">
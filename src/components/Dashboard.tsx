@@ -1,6 +1,7 @@
 import React, { memo } from 'react';
 import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar, ComposedChart, Area } from 'recharts';
 import { Plus } from 'lucide-react';
+import HandicapCalculator from '../utils/HandicapCalculator';
 
 // Import types from useGolfData
 interface Location {
@@ -40,23 +41,27 @@ interface Course {
 
 interface Stats {
   scoringAvg: number;
+  nineHoleScoringAvg: number;
   girPct: number;
   firPct: number;
   puttingAvg: number;
   handicap: number | null;
   distribution: {
-    birdiesOrBetter: number;
+    eagles: number;
+    birdies: number;
     pars: number;
     bogeys: number;
     doubles: number;
-    others: number;
+    triplesPlus: number;
   };
+  birdieAvg: number;
   strokesGained: {
     offTee: number;
     approach: number;
     shortGame: number;
     putting: number;
   };
+  shotTrackedHoles: number;
 }
 
 interface ScoreTrendData {
@@ -76,6 +81,11 @@ interface ParTypeData {
   parType: string;
   avgScore: number;
   par: number;
+  holes: number;
+  birdiePct: number;
+  parPct: number;
+  bogeyPct: number;
+  doublePlusPct: number;
 }
 
 interface GameProfileData {
@@ -98,6 +108,7 @@ interface DashboardProps {
   gameProfileData: GameProfileData[];
   strokesGainedData: StrokesGainedData[];
   setCurrentView: (view: string) => void;
+  filterBar?: React.ReactNode;
 }
 
 function Dashboard({
@@ -108,7 +119,8 @@ function Dashboard({
   parTypeData,
   gameProfileData,
   strokesGainedData,
-  setCurrentView
+  setCurrentView,
+  filterBar
 }: DashboardProps) {
   return (
     <div className="space-y-6">
@@ -126,15 +138,21 @@ function Dashboard({
         )}
       </div>
 
+      {filterBar}
+
       {/* Key Metrics */}
       <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <div className="bg-white p-4 rounded-lg shadow">
           <div className="text-sm text-gray-600">Scoring Avg</div>
           <div className="text-3xl font-bold text-blue-600">{stats.scoringAvg.toFixed(1)}</div>
+          {stats.nineHoleScoringAvg > 0 && (
+            <div className="text-xs text-gray-500">9 holes: {stats.nineHoleScoringAvg.toFixed(1)}</div>
+          )}
+          <div className="text-xs text-gray-500">Birdies/round: {stats.birdieAvg.toFixed(1)}</div>
         </div>
         <div className="bg-white p-4 rounded-lg shadow">
           <div className="text-sm text-gray-600">Handicap</div>
-          <div className="text-3xl font-bold text-green-600">{stats.handicap || 'N/A'}</div>
+          <div className="text-3xl font-bold text-green-600">{HandicapCalculator.formatHandicapIndex(stats.handicap)}</div>
         </div>
         <div className="bg-white p-4 rounded-lg shadow">
           <div className="text-sm text-gray-600">GIR %</div>
@@ -209,6 +227,30 @@ function Dashboard({
               <Bar dataKey="par" fill="#d1d5db" />
             </BarChart>
           </ResponsiveContainer>
+          <table className="w-full text-sm mt-4">
+            <thead>
+              <tr className="text-gray-600">
+                <th className="text-left font-medium">Par</th>
+                <th className="text-right font-medium">Holes</th>
+                <th className="text-right font-medium">Birdie+</th>
+                <th className="text-right font-medium">Par</th>
+                <th className="text-right font-medium">Bogey</th>
+                <th className="text-right font-medium">Double+</th>
+              </tr>
+            </thead>
+            <tbody>
+              {parTypeData.map(p => (
+                <tr key={p.parType}>
+                  <td>{p.parType}</td>
+                  <td className="text-right">{p.holes}</td>
+                  <td className="text-right">{p.birdiePct}%</td>
+                  <td className="text-right">{p.parPct}%</td>
+                  <td className="text-right">{p.bogeyPct}%</td>
+                  <td className="text-right">{p.doublePlusPct}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
       </div>
 
@@ -228,7 +270,12 @@ function Dashboard({
         </div>
 
         <div className="bg-white p-6 rounded-lg shadow">
-          <h3 className="text-lg font-semibold mb-4">Strokes Gained (Simplified)</h3>
+          <h3 className="text-lg font-semibold">Strokes Gained</h3>
+          <p className="text-xs text-gray-500 mb-4">
+            {stats.shotTrackedHoles > 0
+              ? `${stats.shotTrackedHoles} holes from shot tracking vs. baseline; other holes are estimated`
+              : 'Estimated from fairways, greens and putts. Track shots on the scorecard for true strokes gained.'}
+          </p>
           <ResponsiveContainer width="100%" height={300}>
             <BarChart data={strokesGainedData} layout="vertical">
               <CartesianGrid strokeDasharray="3 3" />
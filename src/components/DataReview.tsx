@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Check, X, AlertTriangle, Save } from 'lucide-react';
+import RecordId from '../utils/RecordId';
 
 // Import types from ScorecardExtractor
 interface CourseMetadata {
@@ -166,7 +167,7 @@ const DataReview: React.FC<DataReviewProps> = ({
 
     // Convert to Course object
     const course: Course = {
-      id: `course-${Date.now()}`,
+      id: RecordId.create('course'),
       name: editedCourse.courseName,
       location: {
         address: editedCourse.location,
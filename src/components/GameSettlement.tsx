@@ -0,0 +1,40 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import SideGames, { formatLabel, type SideGameResult } from '../utils/SideGames';
+
+interface GameSettlementProps {
+  result: SideGameResult;
+}
+
+// The game as it was settled when the round was saved
+function GameSettlement({ result }: GameSettlementProps) {
+  const nameOf = (playerId: string) => result.names[playerId] || 'Unknown player';
+
+  return (
+    <div className="p-3 bg-green-50 rounded-lg text-sm">
+      <div className="font-semibold flex items-center gap-1 mb-1">
+        <Trophy size={14} />
+        {formatLabel(result.config.format)}{SideGames.describeHandicaps(result.config)}
+        {!result.complete && <span className="font-normal text-gray-600"> · settled before the last hole</span>}
+      </div>
+      <div className="space-y-0.5">
+        {result.results.map(line => (
+          <div key={line}>{line}</div>
+        ))}
+      </div>
+      <div className="mt-2 border-t border-green-100 pt-2">
+        {result.payments.length === 0 ? (
+          <div className="text-gray-600">All square, nothing owed</div>
+        ) : (
+          result.payments.map(payment => (
+            <div key={`${payment.from}-${payment.to}`}>
+              {nameOf(payment.from)} pays {nameOf(payment.to)} {SideGames.formatAmount(payment.amount)}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default GameSettlement;
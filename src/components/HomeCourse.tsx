@@ -45,7 +45,7 @@ interface Round {
   teeBox: string;
   totalScore: number;
   scoreToPar: number;
-  differential: number;
+  differential: number | null;
   completed: boolean;
 }
 
@@ -59,7 +59,6 @@ interface HoleAverage {
 
 interface HomeCourseStats {
   homeRounds: Round[];
-  homeHoles: any[];
   holeAverages: HoleAverage[];
   avgScore: number;
   bestScore: number | null;
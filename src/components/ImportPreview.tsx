@@ -0,0 +1,158 @@
+import React from 'react';
+import { AlertTriangle, Upload } from 'lucide-react';
+import { type ImportMode, type ImportPlan, type ImportCounts } from '../utils/BackupImport';
+
+// Import types from useGolfData
+interface Course {
+  id: string;
+  name: string;
+}
+
+interface ImportPreviewProps {
+  fileName: string;
+  plan: ImportPlan;
+  courses: Course[];
+  isImporting: boolean;
+  onModeChange: (mode: ImportMode) => void;
+  onSkipDuplicatesChange: (skip: boolean) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const MODES: { mode: ImportMode; label: string; description: string }[] = [
+  {
+    mode: 'merge_newest',
+    label: 'Merge, newest wins',
+    description: 'Add new records. Where both have a copy, keep the one saved most recently.'
+  },
+  {
+    mode: 'merge_skip',
+    label: 'Merge, keep mine',
+    description: "Only add records this device doesn't have yet."
+  },
+  {
+    mode: 'replace',
+    label: 'Replace',
+    description: 'Move everything on this device to the trash and use the backup instead.'
+  }
+];
+
+function CountsRow({ label, counts, mode }: { label: string; counts: ImportCounts; mode: ImportMode }) {
+  return (
+    <tr className="border-t">
+      <td className="py-2 font-medium">{label}</td>
+      <td className="py-2 text-right text-green-700">{counts.added}</td>
+      <td className="py-2 text-right text-blue-700">{counts.updated}</td>
+      <td className="py-2 text-right text-gray-500">{counts.skipped}</td>
+      {mode === 'replace' && <td className="py-2 text-right text-red-600">{counts.removed}</td>}
+    </tr>
+  );
+}
+
+function ImportPreview({
+  fileName,
+  plan,
+  courses,
+  isImporting,
+  onModeChange,
+  onSkipDuplicatesChange,
+  onConfirm,
+  onCancel
+}: ImportPreviewProps) {
+  const courseName = (courseId: string) => courses.find(c => c.id === courseId)?.name || 'Course from backup';
+  const nothingToImport = plan.puts.length === 0 && plan.deletes.length === 0;
+
+  return (
+    <div className="p-4 border border-green-200 rounded-lg space-y-4">
+      <div>
+        <div className="font-semibold">Import preview</div>
+        <div className="text-sm text-gray-600 break-all">{fileName}</div>
+      </div>
+
+      <div className="space-y-2">
+        {MODES.map(({ mode, label, description }) => (
+          <label key={mode} className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="radio"
+              name="import-mode"
+              checked={plan.mode === mode}
+              onChange={() => onModeChange(mode)}
+              disabled={isImporting}
+              className="mt-1"
+            />
+            <span>
+              <span className="text-sm font-medium">{label}</span>
+              <span className="block text-xs text-gray-500">{description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-normal"></th>
+            <th className="text-right font-normal">Added</th>
+            <th className="text-right font-normal">Updated</th>
+            <th className="text-right font-normal">Skipped</th>
+            {plan.mode === 'replace' && <th className="text-right font-normal">To trash</th>}
+          </tr>
+        </thead>
+        <tbody>
+          <CountsRow label="Courses" counts={plan.counts.courses} mode={plan.mode} />
+          <CountsRow label="Rounds" counts={plan.counts.rounds} mode={plan.mode} />
+          {plan.counts.other.added + plan.counts.other.skipped > 0 && (
+            <CountsRow label="Settings and other" counts={plan.counts.other} mode={plan.mode} />
+          )}
+        </tbody>
+      </table>
+
+      {plan.duplicates.length > 0 && (
+        <div className="p-3 bg-amber-50 rounded-lg space-y-2">
+          <div className="flex items-center gap-2 text-sm font-medium text-amber-800">
+            <AlertTriangle size={16} />
+            {plan.duplicates.length} round{plan.duplicates.length === 1 ? ' looks' : 's look'} like{' '}
+            {plan.duplicates.length === 1 ? 'one' : 'ones'} already saved
+          </div>
+          <ul className="text-xs text-amber-900 space-y-1 max-h-32 overflow-y-auto">
+            {plan.duplicates.map(({ round, existing }) => (
+              <li key={round.id}>
+                {courseName(round.courseId)} · {new Date(round.date).toLocaleDateString()} · {round.totalScore}
+                {' '}(saved: {existing.totalScore})
+              </li>
+            ))}
+          </ul>
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={plan.skipDuplicates}
+              onChange={(e) => onSkipDuplicatesChange(e.target.checked)}
+              disabled={isImporting}
+            />
+            Skip these rounds
+          </label>
+        </div>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <button
+          onClick={onCancel}
+          disabled={isImporting}
+          className="px-4 py-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={isImporting || nothingToImport}
+          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 flex items-center gap-2"
+        >
+          <Upload size={16} />
+          {isImporting ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ImportPreview;
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { Check, Pencil, Trash2, UserPlus } from 'lucide-react';
+import { type Player } from '../utils/PlayerProfiles';
+
+interface PlayersProps {
+  players: Player[];
+  activePlayerId: string;
+  setActivePlayer: (playerId: string) => Promise<void>;
+  addPlayer: (name: string) => Promise<Player>;
+  renamePlayer: (playerId: string, name: string) => Promise<void>;
+  deletePlayer: (playerId: string) => Promise<void>;
+  showNotification: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+function Players({ players, activePlayerId, setActivePlayer, addPlayer, renamePlayer, deletePlayer, showNotification }: PlayersProps) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const player = await addPlayer(newName);
+      setNewName('');
+      showNotification(`Added ${player.name}`, 'success');
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Error adding player', 'error');
+    }
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+    try {
+      await renamePlayer(editingId, editName);
+      setEditingId(null);
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Error renaming player', 'error');
+    }
+  };
+
+  const handleDelete = async (player: Player) => {
+    if (!confirm(`Remove ${player.name}?`)) return;
+    try {
+      await deletePlayer(player.id);
+      showNotification(`Removed ${player.name}`, 'success');
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Error removing player', 'error');
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <h3 className="text-lg font-semibold mb-1">Players</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Everyone sharing this device keeps their own rounds, handicap and stats. A scorecard can record the whole group.
+      </p>
+      <div className="space-y-2 mb-4">
+        {players.map(player => {
+          const isActive = player.id === activePlayerId;
+          return (
+            <div key={player.id} className="flex items-center justify-between p-3 border rounded-lg">
+              {editingId === player.id ? (
+                <form onSubmit={handleRename} className="flex gap-2 flex-1 mr-2">
+                  <input
+                    type="text"
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                    autoFocus
+                    className="flex-1 px-2 py-1 border rounded-lg"
+                    aria-label={`New name for ${player.name}`}
+                  />
+                  <button type="submit" className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700">
+                    Save
+                  </button>
+                  <button type="button" onClick={() => setEditingId(null)} className="px-3 py-1 text-sm border rounded hover:bg-gray-50">
+                    Cancel
+                  </button>
+                </form>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{player.name}</span>
+                  {isActive && <span className="text-xs px-2 py-0.5 bg-green-100 text-green-700 rounded-full">Viewing</span>}
+                </div>
+              )}
+              {editingId !== player.id && (
+                <div className="flex gap-2 items-center">
+                  {!isActive && (
+                    <button
+                      onClick={() => setActivePlayer(player.id)}
+                      className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 flex items-center gap-1"
+                    >
+                      <Check size={14} />
+                      View stats
+                    </button>
+                  )}
+                  <button
+                    onClick={() => {
+                      setEditingId(player.id);
+                      setEditName(player.name);
+                    }}
+                    className="text-gray-500 hover:text-gray-700"
+                    aria-label={`Rename ${player.name}`}
+                  >
+                    <Pencil size={16} />
+                  </button>
+                  {players.length > 1 && (
+                    <button
+                      onClick={() => handleDelete(player)}
+                      className="text-red-500 hover:text-red-700"
+                      aria-label={`Remove ${player.name}`}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name"
+          className="flex-1 px-3 py-2 border rounded-lg"
+          aria-label="New player name"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 flex items-center gap-2"
+        >
+          <UserPlus size={20} />
+          Add Player
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export default Players;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Camera, ChevronDown, ChevronUp, History } from 'lucide-react';
+import SnapshotPolicy, { type SnapshotReason, type SnapshotSummary, type SnapshotPreview } from '../utils/SnapshotPolicy';
+
+interface RestorePointsProps {
+  restorePoints: SnapshotSummary[];
+  takeSnapshot: (reason: SnapshotReason) => Promise<void>;
+  previewSnapshot: (snapshotId: string) => Promise<SnapshotPreview>;
+  restoreSnapshot: (snapshotId: string) => Promise<void>;
+  showNotification: (message: string, type: 'success' | 'error' | 'info') => void;
+}
+
+const STORE_LABELS: { [storeName: string]: string } = {
+  courses: 'Courses',
+  rounds: 'Rounds',
+  holeScores: 'Hole scores',
+  shots: 'Shots'
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+function RestorePoints({ restorePoints, takeSnapshot, previewSnapshot, restoreSnapshot, showNotification }: RestorePointsProps) {
+  const [isWorking, setIsWorking] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<SnapshotPreview | null>(null);
+
+  const sorted = restorePoints.slice().sort((a, b) => b.createdAt - a.createdAt);
+
+  const handleTakeSnapshot = async () => {
+    setIsWorking(true);
+    try {
+      await takeSnapshot('manual');
+      showNotification('Snapshot saved', 'success');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleTogglePreview = async (snapshot: SnapshotSummary) => {
+    if (expandedId === snapshot.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(snapshot.id);
+    setPreview(null);
+    try {
+      setPreview(await previewSnapshot(snapshot.id));
+    } catch (error) {
+      setExpandedId(null);
+      showNotification(error instanceof Error ? error.message : 'Error reading snapshot', 'error');
+    }
+  };
+
+  const handleRestore = async (snapshot: SnapshotSummary) => {
+    const when = new Date(snapshot.createdAt).toLocaleString();
+    if (!confirm(`Roll back all courses and rounds to ${when}? A snapshot of your data as it is now is taken first.`)) return;
+
+    setIsWorking(true);
+    try {
+      await restoreSnapshot(snapshot.id);
+      setExpandedId(null);
+      showNotification(`Rolled back to ${when}`, 'success');
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Error rolling back', 'error');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const describeCounts = (snapshot: SnapshotSummary) => {
+    if (!snapshot.counts) return null;
+    return `${plural(snapshot.counts.courses || 0, 'course')}, ${plural(snapshot.counts.rounds || 0, 'round')}`;
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-lg font-semibold">Restore Points</h3>
+        <button
+          onClick={handleTakeSnapshot}
+          disabled={isWorking}
+          className="px-3 py-1 text-sm bg-gray-100 rounded hover:bg-gray-200 disabled:opacity-50 flex items-center gap-1"
+        >
+          <Camera size={14} />
+          Take snapshot now
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        A copy of your data is saved on this device once a day and before clearing, importing or rolling back.
+      </p>
+      {sorted.length === 0 ? (
+        <p className="text-sm text-gray-500">No restore points yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {sorted.map(snapshot => {
+            const isExpanded = expandedId === snapshot.id;
+            return (
+              <div key={snapshot.id} className="p-3 border rounded-lg">
+                <div className="flex items-center justify-between">
+                  <button onClick={() => handleTogglePreview(snapshot)} className="text-left flex items-center gap-2">
+                    {isExpanded ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                    <span>
+                      <span className="block font-medium">{new Date(snapshot.createdAt).toLocaleString()}</span>
+                      <span className="block text-xs text-gray-500">
+                        {SnapshotPolicy.describe(snapshot)}
+                        {describeCounts(snapshot) && ` · ${describeCounts(snapshot)}`}
+                      </span>
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={isWorking}
+                    className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50 flex items-center gap-1"
+                  >
+                    <History size={14} />
+                    Roll back
+                  </button>
+                </div>
+
+                {isExpanded && !preview && <p className="mt-3 text-sm text-gray-500">Comparing...</p>}
+                {isExpanded && preview && (
+                  <div className="mt-3 space-y-2 text-sm">
+                    <table className="w-full">
+                      <thead>
+                        <tr className="text-gray-500">
+                          <th className="text-left font-normal"></th>
+                          <th className="text-right font-normal">Snapshot</th>
+                          <th className="text-right font-normal">Now</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {Object.keys(preview.counts).map(storeName => (
+                          <tr key={storeName} className="border-t">
+                            <td className="py-1">{STORE_LABELS[storeName] || storeName}</td>
+                            <td className="py-1 text-right">{preview.counts[storeName].snapshot}</td>
+                            <td className="py-1 text-right">{preview.counts[storeName].now}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {preview.roundsBack.length + preview.roundsGone.length + preview.roundsChanged === 0 ? (
+                      <p className="text-gray-500">Your rounds are the same as in this snapshot.</p>
+                    ) : (
+                      <ul className="space-y-1 max-h-40 overflow-y-auto">
+                        {preview.roundsBack.map(round => (
+                          <li key={round.id} className="text-green-700">
+                            Brings back: {preview.courseNames[round.courseId] || 'Unknown course'} ·{' '}
+                            {new Date(round.date).toLocaleDateString()} · {round.totalScore}
+                          </li>
+                        ))}
+                        {preview.roundsGone.map(round => (
+                          <li key={round.id} className="text-red-600">
+                            Removes: {preview.courseNames[round.courseId] || 'Unknown course'} ·{' '}
+                            {new Date(round.date).toLocaleDateString()} · {round.totalScore}
+                          </li>
+                        ))}
+                        {preview.roundsChanged > 0 && (
+                          <li className="text-blue-700">Undoes changes to {plural(preview.roundsChanged, 'round')}</li>
+                        )}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RestorePoints;
@@ -1,5 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save, ChevronLeft, ChevronRight, Mic } from 'lucide-react';
+import HandicapCalculator from '../utils/HandicapCalculator';
+import ShotTracker from './ShotTracker';
+import GameSettlement from './GameSettlement';
+import SideGames, { GAME_FORMATS, formatLabel, type GameConfig, type GameFormat, type SideGameResult } from '../utils/SideGames';
 
 // Speech Recognition types
 declare global {
@@ -52,46 +56,215 @@ interface HoleScore {
   fairwayHit: string;
   greenInRegulation: boolean;
   penaltyStrokes: number;
+  adjustedScore?: number | null;
+  greensideBunker?: boolean | null;
+  upAndDownAttempt?: boolean | null;
+  chipCount?: number | null;
+}
+
+interface ShotEntry {
+  holeNumber: number;
+  shotNumber: number;
+  startDistance: number;
+  lie: 'tee' | 'fairway' | 'rough' | 'sand' | 'recovery' | 'green';
+  result: 'fairway' | 'rough' | 'sand' | 'recovery' | 'green' | 'holed' | 'penalty';
 }
 
 interface RoundData {
   date: string;
   teeBox: string;
+  teeKey?: string;
   weather: string;
   playingPartners: string;
+  roundType?: string;
+  tags?: string[];
+  handicapAllowance?: number;
+  layout?: string;
+  startingHole?: number;
+}
+
+interface RoundLayout {
+  key: string;
+  label: string;
+  holeNumbers: number[];
+}
+
+interface Player {
+  id: string;
+  name: string;
+}
+
+// Each player in a group can play their own tee
+interface PlayerTee {
+  teeBox: string;
+  teeKey?: string;
 }
 
 interface ExistingRound {
+  id: string;
+  playerId: string;
+  date: string;
+  teeBox: string;
+  teeKey?: string;
+  weather?: string;
+  playingPartners?: string;
+  roundType?: string;
+  tags?: string[];
+  handicapAllowance?: number;
+  layout?: string;
+  holeNumbers?: number[];
+  startingHole?: number;
   holeScores: HoleScore[];
+  shots?: ShotEntry[];
+  sideGame?: SideGameResult;
 }
 
 interface ScorecardProps {
   course: Course;
-  onSave: (roundData: any, course: Course) => void;
+  players: Player[];
+  activePlayerId: string;
+  // One round per player in the group; an edited round is always a single player's
+  onSave: (roundsData: any[], course: Course) => void;
   onCancel: () => void;
   existingRound?: ExistingRound;
+  handicapIndexes?: { [playerId: string]: number | null };
 }
 
-// Scorecard Component for Round Entry
-function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps) {
-  const [currentHole, setCurrentHole] = useState(1);
-  const [roundData, setRoundData] = useState<RoundData>({
-    date: new Date().toISOString().split('T')[0],
-    teeBox: course.teeBoxes?.[0]?.name || 'Blue', // Default to Blue tee
-    weather: '',
-    playingPartners: ''
+const HOLES_PER_NINE = 9;
+const ROUND_TYPES = ['casual', 'practice', 'league', 'tournament'];
+
+const parseTags = (text: string): string[] =>
+  text.split(',').map(t => t.trim().toLowerCase()).filter((t, i, all) => t && all.indexOf(t) === i);
+
+const getTeeKey = (tee: any): string => tee?.key || tee?.name || '';
+
+// Course holes with the tee's own par and stroke index, where the tee has them
+const getTeeHoles = (course: Course, tee: any): Hole[] =>
+  (course.holes || []).map(hole => {
+    const teeHole = tee?.holes?.find((h: any) => h.number === hole.number);
+    return teeHole
+      ? { ...hole, par: teeHole.par || hole.par, handicap: teeHole.handicap || hole.handicap }
+      : hole;
   });
-  const [holeScores, setHoleScores] = useState<HoleScore[]>(
 
-    existingRound?.holeScores || Array.from({ length: 18 }, (_, i) => ({
-      holeNumber: i + 1,
+// Playable hole combinations: single nines, plus consecutive pairs of nines (27-hole loops wrap around)
+const getRoundLayouts = (course: Course): RoundLayout[] => {
+  const numbers = course.holes?.length
+    ? course.holes.map(h => h.number).sort((a, b) => a - b)
+    : Array.from({ length: 18 }, (_, i) => i + 1);
+
+  if (numbers.length % HOLES_PER_NINE !== 0) {
+    return [{ key: 'all', label: `${numbers.length} holes`, holeNumbers: numbers }];
+  }
+
+  const nines = Array.from({ length: numbers.length / HOLES_PER_NINE }, (_, i) =>
+    numbers.slice(i * HOLES_PER_NINE, (i + 1) * HOLES_PER_NINE)
+  );
+  if (nines.length === 1) {
+    return [{ key: 'nine-0', label: '9 holes', holeNumbers: nines[0] }];
+  }
+
+  const nineLabel = (i: number) => nines.length === 2
+    ? (i === 0 ? 'Front 9' : 'Back 9')
+    : `Holes ${nines[i][0]}-${nines[i][HOLES_PER_NINE - 1]}`;
+
+  const pairs = nines.length === 2
+    ? [{ key: 'pair-0-1', label: '18 holes', holeNumbers: numbers }]
+    : nines.map((nine, i) => {
+        const next = (i + 1) % nines.length;
+        return { key: `pair-${i}-${next}`, label: `${nineLabel(i)} + ${nineLabel(next)}`, holeNumbers: [...nine, ...nines[next]] };
+      });
+  const singles = nines.map((nine, i) => ({ key: `nine-${i}`, label: nineLabel(i), holeNumbers: nine }));
+
+  return [...pairs, ...singles];
+};
+
+// Holes in play order from the starting hole, keeping anything already entered
+const buildHoleScores = (holeNumbers: number[], startingHole: number, existing: HoleScore[]): HoleScore[] => {
+  const start = Math.max(0, holeNumbers.indexOf(startingHole));
+  return [...holeNumbers.slice(start), ...holeNumbers.slice(0, start)].map(holeNumber =>
+    existing.find(h => h.holeNumber === holeNumber) || {
+      holeNumber,
       score: null,
       putts: null,
       fairwayHit: 'n/a',
       greenInRegulation: false,
       penaltyStrokes: 0
-    }))
+    }
   );
+};
+
+// The layout a saved round was played on, matched by its holes when the round predates layouts
+const findRoundLayout = (layouts: RoundLayout[], round: ExistingRound): RoundLayout => {
+  const played = (round.holeNumbers || round.holeScores.map(h => h.holeNumber)).slice().sort((a, b) => a - b);
+  return layouts.find(l => l.key === round.layout)
+    || layouts.find(l => l.holeNumbers.slice().sort((a, b) => a - b).join(',') === played.join(','))
+    || layouts[0];
+};
+
+// Form state for a saved round being edited
+const getExistingRoundData = (course: Course, layouts: RoundLayout[], round: ExistingRound): RoundData => {
+  const layout = findRoundLayout(layouts, round);
+  const played = round.holeNumbers || round.holeScores.map(h => h.holeNumber);
+  return {
+    date: (round.date || '').slice(0, 10),
+    teeBox: round.teeBox,
+    teeKey: round.teeKey || getTeeKey(HandicapCalculator.findTee(course, undefined, round.teeBox)) || undefined,
+    weather: round.weather || '',
+    playingPartners: round.playingPartners || '',
+    roundType: round.roundType || 'casual',
+    tags: round.tags || [],
+    handicapAllowance: round.handicapAllowance ?? 100,
+    layout: layout.key,
+    startingHole: round.startingHole ?? played[0] ?? layout.holeNumbers[0]
+  };
+};
+
+// Scorecard Component for Round Entry
+function Scorecard({ course, players, activePlayerId, onSave, onCancel, existingRound, handicapIndexes = {} }: ScorecardProps) {
+  const roundLayouts = getRoundLayouts(course);
+  const isEditing = !!existingRound;
+  const initialPlayerId = existingRound?.playerId || activePlayerId;
+  const [currentHole, setCurrentHole] = useState(1);
+  // Everyone being scored, in the order they joined; the current player is the one being entered
+  const [playerIds, setPlayerIds] = useState<string[]>([initialPlayerId]);
+  const [currentPlayerId, setCurrentPlayerId] = useState(initialPlayerId);
+  const [roundData, setRoundData] = useState<RoundData>(() => existingRound ? getExistingRoundData(course, roundLayouts, existingRound) : {
+    date: new Date().toISOString().split('T')[0],
+    teeBox: course.teeBoxes?.[0]?.name || 'Blue', // Default to Blue tee
+    teeKey: getTeeKey(course.teeBoxes?.[0]) || undefined,
+    weather: '',
+    playingPartners: '',
+    roundType: 'casual',
+    tags: [],
+    handicapAllowance: 100,
+    layout: roundLayouts[0].key,
+    startingHole: roundLayouts[0].holeNumbers[0]
+  });
+  const [tagsText, setTagsText] = useState((existingRound?.tags || []).join(', '));
+  // Tees picked per player; anyone without one plays the round's tee
+  const [playerTees, setPlayerTees] = useState<{ [playerId: string]: PlayerTee }>({});
+  const [groupShots, setGroupShots] = useState<{ [playerId: string]: ShotEntry[] }>({
+    [initialPlayerId]: existingRound?.shots || []
+  });
+  const [groupScores, setGroupScores] = useState<{ [playerId: string]: HoleScore[] }>(() => {
+    if (!existingRound) {
+      return { [initialPlayerId]: buildHoleScores(roundLayouts[0].holeNumbers, roundLayouts[0].holeNumbers[0], []) };
+    }
+    // Saved holes in play order; the layout's holes fill any gaps
+    const played = existingRound.holeNumbers || existingRound.holeScores.map(h => h.holeNumber);
+    return { [initialPlayerId]: buildHoleScores(played, played[0], existingRound.holeScores) };
+  });
+
+  const holeScores = groupScores[currentPlayerId] || [];
+  const shots = groupShots[currentPlayerId] || [];
+  const setHoleScores = (scores: HoleScore[]) => setGroupScores(prev => ({ ...prev, [currentPlayerId]: scores }));
+  const setShots = (playerShots: ShotEntry[]) => setGroupShots(prev => ({ ...prev, [currentPlayerId]: playerShots }));
+  // The group's game, if any; settled into each player's round when it's saved
+  const [game, setGame] = useState<GameConfig | null>(null);
+  const playerName = (playerId: string) => players.find(p => p.id === playerId)?.name || 'Unknown player';
+  const getPlayerTee = (playerId: string): PlayerTee =>
+    playerTees[playerId] || { teeBox: roundData.teeBox, teeKey: roundData.teeKey };
 
   // Swipe gesture state
   const [touchStart, setTouchStart] = useState<number | null>(null);
@@ -110,7 +283,19 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
         const parsed = JSON.parse(draft);
         if (parsed.courseId === course.id && !existingRound) {
           setRoundData(parsed.roundData);
-          setHoleScores(parsed.holeScores);
+          setTagsText((parsed.roundData.tags || []).join(', '));
+          // Drafts from before groups hold one player's holes and shots
+          const draftScores = parsed.groupScores || { [initialPlayerId]: parsed.holeScores };
+          const draftPlayers = (parsed.playerIds || [initialPlayerId])
+            .filter((id: string) => draftScores[id] && players.some(p => p.id === id));
+          if (draftPlayers.length > 0) {
+            setPlayerIds(draftPlayers);
+            setCurrentPlayerId(draftPlayers[0]);
+            setGroupScores(draftScores);
+            setGroupShots(parsed.groupShots || { [initialPlayerId]: parsed.shots || [] });
+            setPlayerTees(parsed.playerTees || {});
+            setGame(parsed.game && draftPlayers.length > 1 ? SideGames.withPlayers(parsed.game, draftPlayers) : null);
+          }
         }
       } catch (e) {
         // Ignore invalid draft
@@ -118,35 +303,159 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
     }
   }, [course.id, existingRound]);
 
-  // Auto-save draft every 30 seconds
+  // Auto-save draft every 30 seconds; edits of saved rounds don't touch the new-round draft
   useEffect(() => {
+    if (isEditing) return;
     const interval = setInterval(() => {
       const draft = {
         courseId: course.id,
         roundData,
-        holeScores,
+        playerIds,
+        groupScores,
+        groupShots,
+        playerTees,
+        game,
         timestamp: Date.now()
       };
       localStorage.setItem('scorecard-draft', JSON.stringify(draft));
     }, 30000);
 
     return () => clearInterval(interval);
-  }, [course.id, roundData, holeScores]);
+  }, [isEditing, course.id, roundData, playerIds, groupScores, groupShots, playerTees, game]);
   const currentHoleData = holeScores[currentHole - 1];
-  const courseHole = course.holes?.[currentHole - 1];
+  const holeNumbers = holeScores.map(h => h.holeNumber);
+  const currentLayout = roundLayouts.find(l => l.key === roundData.layout) || roundLayouts[0];
+
+  const changeLayout = (layoutKey: string, startingHole?: number) => {
+    const layout = roundLayouts.find(l => l.key === layoutKey) || roundLayouts[0];
+    const start = startingHole && layout.holeNumbers.includes(startingHole) ? startingHole : layout.holeNumbers[0];
+    setRoundData({ ...roundData, layout: layout.key, startingHole: start });
+    setGroupScores(prev => {
+      const next: { [playerId: string]: HoleScore[] } = {};
+      playerIds.forEach(playerId => {
+        next[playerId] = buildHoleScores(layout.holeNumbers, start, prev[playerId] || []);
+      });
+      return next;
+    });
+    setCurrentHole(1);
+  };
+
+  // A player joins with the current player's tee; one who leaves keeps their scores in case they rejoin
+  const togglePlayer = (playerId: string) => {
+    if (playerIds.includes(playerId)) {
+      if (playerIds.length === 1) return;
+      const remaining = playerIds.filter(id => id !== playerId);
+      setPlayerIds(remaining);
+      if (game) setGame(remaining.length > 1 ? SideGames.withPlayers(game, remaining) : null);
+      if (currentPlayerId === playerId) setCurrentPlayerId(remaining[0]);
+      return;
+    }
+    setPlayerIds([...playerIds, playerId]);
+    if (game) setGame(SideGames.withPlayers(game, [...playerIds, playerId]));
+    setGroupScores(prev => ({ ...prev, [playerId]: buildHoleScores(holeNumbers, holeNumbers[0], prev[playerId] || []) }));
+    setPlayerTees(prev => ({ ...prev, [playerId]: prev[playerId] || getPlayerTee(currentPlayerId) }));
+  };
+
+  const getCurrentTeeInfo = (): any => {
+    const tee = getPlayerTee(currentPlayerId);
+    return HandicapCalculator.findTee(course, tee.teeKey, tee.teeBox);
+  };
+
+  const getPlayedPar = (holes: Hole[]) =>
+    holeScores.reduce((sum, h) => sum + (holes.find(ch => ch.number === h.holeNumber)?.par || 4), 0);
+
+  const isNineHoleRound = holeScores.length === HOLES_PER_NINE;
 
-  const getCurrentTeeInfo = () => {
-    return course.teeBoxes?.find((tee: any) => tee.name === roundData.teeBox);
+  const getTeeCourseHandicap = (tee: any, handicapIndex: number | null) => {
+    const ratings = HandicapCalculator.getTeeRatings(tee, course, holeNumbers);
+    const par = getPlayedPar(getTeeHoles(course, tee));
+    return isNineHoleRound
+      ? HandicapCalculator.calculateNineHoleCourseHandicap(handicapIndex, ratings.slopeRating, ratings.courseRating, par)
+      : HandicapCalculator.calculateCourseHandicap(handicapIndex, ratings.slopeRating, ratings.courseRating, par);
+  };
+
+  // One player's tee, handicap and capped scores
+  const getPlayerCard = (playerId: string) => {
+    const playerTee = getPlayerTee(playerId);
+    const teeInfo = HandicapCalculator.findTee(course, playerTee.teeKey, playerTee.teeBox) as any;
+    const teeHoles = getTeeHoles(course, teeInfo);
+    const playedHoles = teeHoles.filter(h => holeNumbers.includes(h.number));
+    const handicapIndex = handicapIndexes[playerId] ?? null;
+    const courseHandicap = getTeeCourseHandicap(teeInfo, handicapIndex);
+    const playingHandicap = HandicapCalculator.calculatePlayingHandicap(courseHandicap, roundData.handicapAllowance ?? 100);
+    const scores = groupScores[playerId] || [];
+    return {
+      playerTee,
+      teeInfo,
+      teeHoles,
+      playedHoles,
+      playedPar: getPlayedPar(teeHoles),
+      teeRatings: HandicapCalculator.getTeeRatings(teeInfo, course, holeNumbers),
+      handicapIndex,
+      courseHandicap,
+      playingHandicap,
+      netDoubleBogey: HandicapCalculator.applyNetDoubleBogey(scores, playedHoles, courseHandicap),
+      // Too many blank holes and the round is saved without a differential
+      countsForHandicap: HandicapCalculator.isAcceptableScore(
+        scores.filter(h => typeof h.score === 'number').length,
+        holeNumbers.length
+      ),
+      strokesReceived: HandicapCalculator.getStrokesReceived(playingHandicap, playedHoles),
+      totalScore: scores.reduce((sum, h) => sum + (h.score || 0), 0)
+    };
+  };
+
+  const {
+    teeInfo,
+    teeHoles,
+    playedPar,
+    handicapIndex,
+    courseHandicap,
+    netDoubleBogey,
+    playingHandicap,
+    strokesReceived
+  } = getPlayerCard(currentPlayerId);
+  const courseHole = teeHoles.find(h => h.number === currentHoleData?.holeNumber);
+
+  const gameProblem = game ? SideGames.checkConfig(game, holeNumbers.length) : null;
+  const gameStandings = game && !gameProblem
+    ? SideGames.play(game, playerIds.map(playerId => {
+      const card = getPlayerCard(playerId);
+      return {
+        playerId,
+        courseHandicap: card.courseHandicap,
+        holes: card.playedHoles,
+        holeScores: groupScores[playerId] || []
+      };
+    }), holeNumbers)
+    : null;
+
+  const changeGameFormat = (format: GameFormat | '') => {
+    setGame(format ? SideGames.createConfig(format, playerIds, game) : null);
   };
 
   const getCurrentTeeYardage = () => {
+    const teeHole = teeInfo?.holes?.find((h: any) => h.number === courseHole?.number);
+    if (teeHole?.yardage) return teeHole.yardage;
     if (!courseHole?.yardages) return 0;
-    const teeInfo = getCurrentTeeInfo();
     if (!teeInfo) return courseHole.yardages.regular || 0;
 
-    // For now, return the championship yardage as it's the most accurate
-    // In a full implementation, we'd map tee names to specific yardages
-    return courseHole.yardages.championship || courseHole.yardages.regular || 0;
+    // Older courses keyed yardages by lower-case tee name
+    return courseHole.yardages[getTeeKey(teeInfo)]
+      || courseHole.yardages[teeInfo.name.toLowerCase()]
+      || courseHole.yardages.regular
+      || 0;
+  };
+
+  // One dot per stroke received, "+" per stroke given back by plus handicaps
+  const renderStrokeDots = (holeNumber: number) => {
+    const strokes = strokesReceived[holeNumber] || 0;
+    if (strokes === 0) return null;
+    return (
+      <div className="text-[10px] leading-none" aria-hidden="true">
+        {strokes > 0 ? '•'.repeat(strokes) : '+'.repeat(-strokes)}
+      </div>
+    );
   };
 
   const updateHoleScore = (field: keyof HoleScore, value: any) => {
@@ -178,7 +487,7 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
     const isLeftSwipe = distance > 50;
     const isRightSwipe = distance < -50;
 
-    if (isLeftSwipe && currentHole < 18) {
+    if (isLeftSwipe && currentHole < holeScores.length) {
       setCurrentHole(currentHole + 1);
       triggerHapticFeedback();
     }
@@ -228,28 +537,202 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
     recognition.start();
   };
 
-  const handleSave = () => {
-    const totalScore = holeScores.reduce((sum, h) => sum + (h.score || 0), 0);
-    const par = course.holes?.reduce((sum, h) => sum + h.par, 0) || 72;
-
-    onSave({
+  const buildRound = (playerId: string, tags: string[], sideGame: SideGameResult | null) => {
+    const card = getPlayerCard(playerId);
+    const { totalScore, netDoubleBogey, teeRatings, courseHandicap, playingHandicap, countsForHandicap } = card;
+    return {
       ...roundData,
+      playerId,
+      teeBox: card.playerTee.teeBox,
+      teeKey: card.playerTee.teeKey,
+      tags,
       totalScore,
-      scoreToPar: totalScore - par,
-      differential: totalScore - par,
-      holeScores
-    }, course);
+      adjustedGrossScore: countsForHandicap ? netDoubleBogey.adjustedGrossScore : null,
+      handicapIndex: card.handicapIndex,
+      courseHandicap,
+      playingHandicap,
+      netScore: playingHandicap !== null ? totalScore - playingHandicap : null,
+      scoreToPar: totalScore - card.playedPar,
+      holesPlayed: holeNumbers.length,
+      holeNumbers,
+      // Ratings of the tee as played, so later course edits don't change this round
+      courseRating: teeRatings.courseRating,
+      slopeRating: teeRatings.slopeRating,
+      par: card.playedPar,
+      differential: countsForHandicap
+        ? HandicapCalculator.calculateScoreDifferential(
+          netDoubleBogey.adjustedGrossScore,
+          teeRatings.courseRating,
+          teeRatings.slopeRating
+        )
+        : null,
+      holeScores: netDoubleBogey.holeScores,
+      // Only shots for holes in this layout are kept
+      shots: (groupShots[playerId] || []).filter(shot => holeNumbers.includes(shot.holeNumber)),
+      ...(sideGame ? { sideGame } : {})
+    };
+  };
+
+  const handleSave = () => {
+    // Players in the group with nothing entered are left out rather than saved with an empty round
+    const scored = playerIds.filter(playerId => (groupScores[playerId] || []).some(h => h.score));
+    const unscored = playerIds.filter(playerId => scored.indexOf(playerId) === -1);
+    if (scored.length > 0 && unscored.length > 0 &&
+        !confirm(`No scores entered for ${unscored.map(playerName).join(', ')}. Save the round without them?`)) {
+      return;
+    }
+
+    const uncounted = scored.filter(playerId => !getPlayerCard(playerId).countsForHandicap);
+    if (uncounted.length > 0 &&
+        !confirm(`Too few holes scored for ${uncounted.map(playerName).join(', ')} to count toward a handicap. Save anyway?`)) {
+      return;
+    }
+
+    if (game && gameProblem && !confirm(`${gameProblem}. Save the round without the game?`)) return;
+    // Every round in the group carries the same settlement, settled on the holes played so far
+    const sideGame = game && gameStandings ? SideGames.createResult(game, gameStandings, playerName) : null;
+
+    const tags = parseTags(tagsText);
+    onSave((scored.length > 0 ? scored : playerIds).map(playerId => buildRound(playerId, tags, sideGame)), course);
   };
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-6 landscape:flex landscape:flex-row landscape:gap-6">
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-bold">{course.name}</h2>
+        <div>
+          <h2 className="text-2xl font-bold">{course.name}</h2>
+          {isEditing && <div className="text-sm text-gray-600">Editing saved round</div>}
+        </div>
         <button onClick={onCancel} className="text-gray-500 hover:text-gray-700" aria-label="Close scorecard">
           <X size={24} />
         </button>
       </div>
 
+      {/* Players: everyone ticked gets their own round, saved together */}
+      <div className="mb-6">
+        <div className="block text-sm font-medium mb-1">{isEditing ? 'Player' : 'Players'}</div>
+        <div className="flex gap-2 flex-wrap">
+          {isEditing ? (
+            <span className="px-3 py-1 bg-blue-600 text-white rounded-full text-sm">{playerName(initialPlayerId)}</span>
+          ) : (
+            players.map(player => {
+              const inGroup = playerIds.includes(player.id);
+              return (
+                <button
+                  key={player.id}
+                  onClick={() => togglePlayer(player.id)}
+                  disabled={inGroup && playerIds.length === 1}
+                  className={`px-3 py-1 rounded-full text-sm ${
+                    inGroup ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'
+                  }`}
+                  aria-pressed={inGroup}
+                >
+                  {player.name}
+                </button>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      {/* Game: set up once there's a group to play against */}
+      {!isEditing && playerIds.length > 1 && (
+        <div className="mb-6">
+          <label htmlFor="game-format" className="block text-sm font-medium mb-1">Game</label>
+          <select
+            id="game-format"
+            value={game?.format || ''}
+            onChange={(e) => changeGameFormat(e.target.value as GameFormat | '')}
+            className="w-full px-3 py-2 border rounded-lg"
+          >
+            <option value="">Stroke play only</option>
+            {GAME_FORMATS.map(format => (
+              <option key={format.value} value={format.value}>{format.label}</option>
+            ))}
+          </select>
+          {game && (
+            <div className="mt-2 space-y-2 text-sm">
+              <div className="flex flex-wrap gap-4 items-center">
+                <label className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={game.net}
+                    onChange={(e) => setGame({ ...game, net: e.target.checked })}
+                  />
+                  Handicap strokes
+                </label>
+                {game.net && (
+                  <label className="flex items-center gap-1">
+                    Allowance
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="5"
+                      value={SideGames.getAllowance(game)}
+                      onChange={(e) => setGame({ ...game, allowance: parseInt(e.target.value) || 0 })}
+                      className="w-16 px-2 py-1 border rounded"
+                      aria-label="Handicap allowance percent"
+                    />
+                    %
+                  </label>
+                )}
+                <label className="flex items-center gap-1">
+                  Stake
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={game.stake}
+                    onChange={(e) => setGame({ ...game, stake: parseFloat(e.target.value) || 0 })}
+                    className="w-20 px-2 py-1 border rounded"
+                  />
+                </label>
+                {game.format === 'nassau' && (
+                  <label className="flex items-center gap-1">
+                    Press
+                    <select
+                      value={game.pressAfter || 0}
+                      onChange={(e) => setGame({ ...game, pressAfter: parseInt(e.target.value) })}
+                      className="px-2 py-1 border rounded"
+                    >
+                      <option value={0}>Never</option>
+                      <option value={2}>When 2 down</option>
+                      <option value={3}>When 3 down</option>
+                    </select>
+                  </label>
+                )}
+              </div>
+              {SideGames.isTeamFormat(game.format) && (
+                <div className="space-y-1">
+                  {playerIds.map(playerId => (
+                    <div key={playerId} className="flex items-center justify-between">
+                      <span>{playerName(playerId)}</span>
+                      <div className="flex gap-1">
+                        {(['Side A', 'Side B'] as const).map((label, side) => {
+                          const onSide = (game.sides[side] || []).includes(playerId);
+                          return (
+                            <button
+                              key={label}
+                              onClick={() => setGame(SideGames.moveToSide(game, playerId, side as 0 | 1))}
+                              className={`px-2 py-0.5 rounded text-xs ${onSide ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+                              aria-pressed={onSide}
+                            >
+                              {label}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {gameProblem && <p className="text-orange-700">{gameProblem}</p>}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Round Info */}
       <div className="grid grid-cols-2 gap-4 mb-6">
         <div>
@@ -262,19 +745,97 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
           />
         </div>
         <div>
-          <label className="block text-sm font-medium mb-1">Tee Box</label>
+          <label className="block text-sm font-medium mb-1">
+            Tee Box{playerIds.length > 1 && ` · ${playerName(currentPlayerId)}`}
+          </label>
           <select
-            value={roundData.teeBox}
-            onChange={(e) => setRoundData({ ...roundData, teeBox: e.target.value })}
+            value={getTeeKey(teeInfo) || getPlayerTee(currentPlayerId).teeBox}
+            onChange={(e) => {
+              const tee = course.teeBoxes?.find((t: any) => getTeeKey(t) === e.target.value);
+              setPlayerTees({
+                ...playerTees,
+                [currentPlayerId]: { teeBox: tee?.name || e.target.value, teeKey: getTeeKey(tee) || undefined }
+              });
+            }}
             className="w-full px-3 py-2 border rounded-lg"
           >
             {course.teeBoxes?.map((tee: any) => (
-              <option key={tee.name} value={tee.name}>
+              <option key={getTeeKey(tee)} value={getTeeKey(tee)}>
                 {tee.name} - Rating: {tee.rating}, Slope: {tee.slope}, {tee.totalYards} yards
+                {getTeeCourseHandicap(tee, handicapIndex) !== null && `, CH ${getTeeCourseHandicap(tee, handicapIndex)}`}
               </option>
             ))}
           </select>
         </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Holes</label>
+          <select
+            value={currentLayout.key}
+            onChange={(e) => changeLayout(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg"
+          >
+            {roundLayouts.map(layout => (
+              <option key={layout.key} value={layout.key}>{layout.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Starting Hole</label>
+          <select
+            value={roundData.startingHole ?? currentLayout.holeNumbers[0]}
+            onChange={(e) => changeLayout(currentLayout.key, parseInt(e.target.value))}
+            className="w-full px-3 py-2 border rounded-lg"
+          >
+            {currentLayout.holeNumbers.map(number => (
+              <option key={number} value={number}>Hole {number}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Handicap Allowance</label>
+          <select
+            value={roundData.handicapAllowance ?? 100}
+            onChange={(e) => setRoundData({ ...roundData, handicapAllowance: parseInt(e.target.value) })}
+            className="w-full px-3 py-2 border rounded-lg"
+          >
+            {[100, 95, 90, 85, 80, 75].map(pct => (
+              <option key={pct} value={pct}>{pct}%</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Round Type</label>
+          <select
+            value={roundData.roundType || 'casual'}
+            onChange={(e) => setRoundData({ ...roundData, roundType: e.target.value })}
+            className="w-full px-3 py-2 border rounded-lg capitalize"
+          >
+            {ROUND_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-1">Tags</label>
+          <input
+            type="text"
+            value={tagsText}
+            onChange={(e) => setTagsText(e.target.value)}
+            onBlur={() => setRoundData({ ...roundData, tags: parseTags(tagsText) })}
+            placeholder="e.g. windy, walking"
+            className="w-full px-3 py-2 border rounded-lg"
+          />
+        </div>
+        <div className="flex flex-col justify-end text-sm">
+          <div className="text-gray-600">
+            Index {HandicapCalculator.formatHandicapIndex(handicapIndex)}
+          </div>
+          <div className="font-medium">
+            {courseHandicap !== null
+              ? `Course Handicap ${courseHandicap} · Playing Handicap ${playingHandicap}`
+              : 'No Handicap Index yet'}
+          </div>
+        </div>
       </div>
 
       {/* Hole Navigation */}
@@ -283,7 +844,7 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
         onKeyDown={(e) => {
           if (e.key === 'ArrowLeft' && currentHole > 1) {
             setCurrentHole(currentHole - 1);
-          } else if (e.key === 'ArrowRight' && currentHole < 18) {
+          } else if (e.key === 'ArrowRight' && currentHole < holeScores.length) {
             setCurrentHole(currentHole + 1);
           }
         }}
@@ -295,6 +856,30 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
         aria-label="Hole navigation"
         style={{ touchAction: 'pan-y' }} // Allow vertical scrolling but prevent horizontal scroll
       >
+        {playerIds.length > 1 && (
+          <div className="flex gap-2 mb-4 overflow-x-auto" role="tablist" aria-label="Player being scored">
+            {playerIds.map(playerId => {
+              const holeScore = groupScores[playerId]?.[currentHole - 1]?.score;
+              return (
+                <button
+                  key={playerId}
+                  onClick={() => {
+                    setCurrentPlayerId(playerId);
+                    triggerHapticFeedback();
+                  }}
+                  className={`px-3 py-2 rounded-lg text-sm whitespace-nowrap ${
+                    currentPlayerId === playerId ? 'bg-blue-600 text-white' : 'bg-white hover:bg-gray-200'
+                  }`}
+                  role="tab"
+                  aria-selected={currentPlayerId === playerId}
+                >
+                  {playerName(playerId)}{holeScore ? ` · ${holeScore}` : ''}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         <div className="flex justify-between items-center mb-4">
           <button
             onClick={() => {
@@ -309,23 +894,31 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
           </button>
 
           <div className="text-center">
-            <div className="text-2xl font-bold">Hole {currentHole}</div>
+            <div className="text-2xl font-bold">Hole {currentHoleData.holeNumber}</div>
             <div className="text-sm text-gray-600">
               Par {courseHole?.par || 4} • {getCurrentTeeYardage()} yards
+              {courseHole?.handicap ? ` • SI ${courseHole.handicap}` : ''}
             </div>
+            {playingHandicap !== null && (strokesReceived[currentHoleData.holeNumber] || 0) !== 0 && (
+              <div className="text-xs text-green-700">
+                {strokesReceived[currentHoleData.holeNumber] > 0
+                  ? `Receives ${strokesReceived[currentHoleData.holeNumber]} stroke${strokesReceived[currentHoleData.holeNumber] > 1 ? 's' : ''}`
+                  : `Gives ${-strokesReceived[currentHoleData.holeNumber]} stroke${strokesReceived[currentHoleData.holeNumber] < -1 ? 's' : ''}`}
+              </div>
+            )}
             {getCurrentTeeInfo() && (
               <div className="text-xs text-blue-600">
-                {getCurrentTeeInfo().name} Tee • Rating: {getCurrentTeeInfo().rating}
+                {getCurrentTeeInfo().name} Tee • Rating: {getCurrentTeeInfo().rating} • Slope: {getCurrentTeeInfo().slope}
               </div>
             )}
           </div>
 
           <button
             onClick={() => {
-              setCurrentHole(Math.min(18, currentHole + 1));
+              setCurrentHole(Math.min(holeScores.length, currentHole + 1));
               triggerHapticFeedback();
             }}
-            disabled={currentHole === 18}
+            disabled={currentHole === holeScores.length}
             className="p-2 rounded-lg hover:bg-gray-200 disabled:opacity-50"
             aria-label="Next hole"
           >
@@ -604,6 +1197,64 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
           </button>
         </div>
 
+        {/* Around the green: left unset unless recorded so short-game stats skip the hole */}
+        <div className="mb-4 border rounded-lg p-3">
+          <div className="text-sm font-medium mb-2">Around the Green</div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm">Up-and-down attempt</label>
+            <button
+              onClick={() => {
+                updateHoleScore('upAndDownAttempt', !currentHoleData.upAndDownAttempt);
+                triggerHapticFeedback();
+              }}
+              className={`px-4 py-1 rounded-lg text-sm ${
+                currentHoleData.upAndDownAttempt
+                  ? 'bg-green-600 text-white'
+                  : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+              role="switch"
+              aria-checked={!!currentHoleData.upAndDownAttempt}
+              aria-label={`Up-and-down attempt: ${currentHoleData.upAndDownAttempt ? 'Yes' : 'No'}`}
+            >
+              {currentHoleData.upAndDownAttempt ? 'Yes' : 'No'}
+            </button>
+          </div>
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm">Greenside bunker</label>
+            <button
+              onClick={() => {
+                updateHoleScore('greensideBunker', !currentHoleData.greensideBunker);
+                triggerHapticFeedback();
+              }}
+              className={`px-4 py-1 rounded-lg text-sm ${
+                currentHoleData.greensideBunker
+                  ? 'bg-yellow-500 text-white'
+                  : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+              role="switch"
+              aria-checked={!!currentHoleData.greensideBunker}
+              aria-label={`Greenside bunker: ${currentHoleData.greensideBunker ? 'Yes' : 'No'}`}
+            >
+              {currentHoleData.greensideBunker ? 'Yes' : 'No'}
+            </button>
+          </div>
+          {currentHoleData.upAndDownAttempt && (
+            <div className="flex items-center justify-between">
+              <label htmlFor="chip-count" className="text-sm">Chips / pitches</label>
+              <input
+                id="chip-count"
+                type="number"
+                value={currentHoleData.chipCount ?? ''}
+                onChange={(e) => updateHoleScore('chipCount', e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0))}
+                className="w-20 px-3 py-1 border rounded-lg text-center"
+                min="0"
+                max="10"
+                inputMode="numeric"
+              />
+            </div>
+          )}
+        </div>
+
         <div>
           <label className="block text-sm font-medium mb-2">Penalty Strokes</label>
           <input
@@ -616,6 +1267,23 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
             inputMode="numeric"
           />
         </div>
+
+        {/* Shot Tracking */}
+        <div className="mt-4">
+          <ShotTracker
+            key={`${currentPlayerId}-${currentHoleData.holeNumber}`}
+            holeNumber={currentHoleData.holeNumber}
+            par={courseHole?.par || 4}
+            yardage={getCurrentTeeYardage()}
+            score={currentHoleData.score}
+            penaltyStrokes={currentHoleData.penaltyStrokes}
+            shots={shots.filter(shot => shot.holeNumber === currentHoleData.holeNumber)}
+            onChange={(holeShots) => setShots([
+              ...shots.filter(shot => shot.holeNumber !== currentHoleData.holeNumber),
+              ...holeShots
+            ])}
+          />
+        </div>
       </div>
 
       {/* Hole Grid */}
@@ -636,30 +1304,42 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
             }`}
             role="tab"
             aria-selected={currentHole === idx + 1}
-            aria-label={`Hole ${idx + 1}${hole.score ? `, score ${hole.score}` : ', not scored'}`}
+            aria-label={`Hole ${hole.holeNumber}${hole.score ? `, score ${hole.score}` : ', not scored'}${netDoubleBogey.cappedHoles.includes(hole.holeNumber) ? ', capped at net double bogey' : ''}`}
           >
-            <div className="font-bold">{idx + 1}</div>
-            {hole.score && <div className="text-xs">{hole.score}</div>}
+            <div className="font-bold">{hole.holeNumber}</div>
+            {renderStrokeDots(hole.holeNumber)}
+            {hole.score && (
+              <div className={`text-xs ${netDoubleBogey.cappedHoles.includes(hole.holeNumber) ? 'text-orange-600 font-semibold' : ''}`}>
+                {hole.score}
+              </div>
+            )}
           </button>
         ))}
       </div>
 
       {/* Summary */}
       <div className="bg-blue-50 rounded-lg p-4 mb-6">
-        <div className="grid grid-cols-3 gap-4 text-center">
+        <div className="grid grid-cols-4 gap-4 text-center">
           <div>
             <div className="text-sm text-gray-600">Total Score</div>
             <div className="text-2xl font-bold">
               {holeScores.reduce((sum, h) => sum + (h.score || 0), 0) || '-'}
             </div>
           </div>
+          <div>
+            <div className="text-sm text-gray-600">Adjusted</div>
+            <div className="text-2xl font-bold">
+              {/* Blank holes count at net par, so there's nothing to adjust until a score is in */}
+              {holeScores.some(h => h.score) ? netDoubleBogey.adjustedGrossScore : '-'}
+            </div>
+          </div>
           <div>
             <div className="text-sm text-gray-600">To Par</div>
             <div className="text-2xl font-bold">
               {holeScores.reduce((sum, h) => sum + (h.score || 0), 0)
-                ? (holeScores.reduce((sum, h) => sum + (h.score || 0), 0) - (course.par || 72)) >= 0
-                  ? '+' + (holeScores.reduce((sum, h) => sum + (h.score || 0), 0) - (course.par || 72))
-                  : (holeScores.reduce((sum, h) => sum + (h.score || 0), 0) - (course.par || 72))
+                ? (holeScores.reduce((sum, h) => sum + (h.score || 0), 0) - playedPar) >= 0
+                  ? '+' + (holeScores.reduce((sum, h) => sum + (h.score || 0), 0) - playedPar)
+                  : (holeScores.reduce((sum, h) => sum + (h.score || 0), 0) - playedPar)
                 : '-'}
             </div>
           </div>
@@ -670,8 +1350,72 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
             </div>
           </div>
         </div>
+        {netDoubleBogey.cappedHoles.length > 0 && (
+          <div className="mt-3 text-sm text-orange-700">
+            Capped at net double bogey:{' '}
+            {netDoubleBogey.holeScores
+              .filter(h => netDoubleBogey.cappedHoles.includes(h.holeNumber))
+              .map(h => `#${h.holeNumber} (${h.score} → ${h.adjustedScore})`)
+              .join(', ')}
+          </div>
+        )}
+        {playingHandicap !== null && holeScores.some(h => h.score) && (
+          <div className="mt-3 text-sm text-gray-700">
+            Net Score: {holeScores.reduce((sum, h) => sum + (h.score || 0), 0) - playingHandicap}
+          </div>
+        )}
+        <div className="mt-1 text-xs text-gray-500">
+          {courseHandicap !== null
+            ? `Course Handicap ${courseHandicap} used for net double bogey`
+            : 'No Handicap Index yet: holes are capped at par + 5'}
+        </div>
+        {playerIds.length > 1 && (
+          <div className="mt-3 border-t border-blue-100 pt-3 space-y-1 text-sm">
+            {playerIds.map(playerId => {
+              const card = getPlayerCard(playerId);
+              const holesPlayed = (groupScores[playerId] || []).filter(h => h.score).length;
+              const toPar = card.totalScore - (groupScores[playerId] || [])
+                .filter(h => h.score)
+                .reduce((sum, h) => sum + (card.teeHoles.find(ch => ch.number === h.holeNumber)?.par || 4), 0);
+              return (
+                <div key={playerId} className="flex justify-between">
+                  <span className={playerId === currentPlayerId ? 'font-semibold' : ''}>{playerName(playerId)}</span>
+                  <span>
+                    {holesPlayed > 0
+                      ? `${card.totalScore} (${toPar > 0 ? '+' : ''}${toPar === 0 ? 'E' : toPar}) thru ${holesPlayed}`
+                      : '-'}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
       </div>
 
+      {/* Game standings, live while scoring */}
+      {game && gameStandings && (
+        <div className="bg-green-50 rounded-lg p-4 mb-6 text-sm">
+          <div className="font-semibold mb-1">
+            {formatLabel(game.format)}{SideGames.describeHandicaps(game)} · {gameStandings.complete ? 'Final' : `Thru ${gameStandings.holesPlayed}`}
+          </div>
+          <div className="space-y-0.5">
+            {SideGames.describe(game, gameStandings, playerName).map(line => (
+              <div key={line}>{line}</div>
+            ))}
+          </div>
+          {SideGames.settle(game, gameStandings).payments.map(payment => (
+            <div key={`${payment.from}-${payment.to}`} className="text-gray-600">
+              {playerName(payment.from)} owes {playerName(payment.to)} {SideGames.formatAmount(payment.amount)}
+            </div>
+          ))}
+        </div>
+      )}
+      {isEditing && existingRound?.sideGame && (
+        <div className="mb-6">
+          <GameSettlement result={existingRound.sideGame} />
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex gap-4">
         <button
@@ -680,15 +1424,15 @@ function Scorecard({ course, onSave, onCancel, existingRound }: ScorecardProps)
             triggerHapticFeedback();
           }}
           className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center justify-center gap-2"
-          aria-label="Save the golf round"
+          aria-label={isEditing ? 'Save changes to the round' : 'Save the golf round'}
         >
           <Save size={20} />
-          Save Round
+          {isEditing ? 'Save Changes' : 'Save Round'}
         </button>
         <button
           onClick={onCancel}
           className="px-6 py-3 border border-gray-300 rounded-lg hover:bg-gray-50"
-          aria-label="Cancel and discard the round"
+          aria-label={isEditing ? 'Cancel and discard changes' : 'Cancel and discard the round'}
         >
           Cancel
         </button>
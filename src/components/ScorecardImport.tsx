@@ -3,11 +3,11 @@ import { ArrowLeft, Loader2, CheckCircle, Play, RotateCcw } from 'lucide-react';
 import PhotoCapture from './PhotoCapture';
 import DataReview from './DataReview';
 import ScorecardExtractor, { CourseMetadata, ExtractedScoreData, Course, Round } from '../utils/ScorecardExtractor';
-import GolfDB from '../utils/GolfDB';
+import HandicapCalculator from '../utils/HandicapCalculator';
 
 interface ScorecardImportProps {
-  db: GolfDB;
-  onSave: (course: Course, round?: Round) => void;
+  // Saves the course, then the round through the app's usual round save
+  onSave: (course: Course, roundData?: any) => Promise<void>;
   onCancel: () => void;
   onStartNewRound?: (course: Course) => void;
 }
@@ -15,7 +15,6 @@ interface ScorecardImportProps {
 type ImportStep = 'capture' | 'processing' | 'review' | 'post-save';
 
 const ScorecardImport: React.FC<ScorecardImportProps> = ({
-  db,
   onSave,
   onCancel,
   onStartNewRound
@@ -70,45 +69,46 @@ const ScorecardImport: React.FC<ScorecardImportProps> = ({
 
   const handleDataSave = useCallback(async (course: Course, round?: Round) => {
     try {
-      // Save course to database
-      await db.put('courses', course);
-      setSavedCourse(course);
-
+      let roundData;
       if (round) {
-        // Create round with id for database storage
-        const roundId = `round-${Date.now()}`;
-        const roundWithId = {
-          id: roundId,
-          courseId: round.courseId,
+        const totalScore = round.holeScores.reduce((sum, h) => sum + h.score, 0);
+        // Holes that couldn't be read count at par, as long as enough were read for the score to be acceptable
+        const cardScores = course.holes.map(hole => ({
+          holeNumber: hole.number,
+          score: round.holeScores.find(h => h.holeNumber === hole.number)?.score ?? null
+        }));
+        const adjusted = HandicapCalculator.applyNetDoubleBogey(cardScores, course.holes, null);
+        const acceptable = HandicapCalculator.isAcceptableScore(
+          cardScores.length - adjusted.unplayedHoles.length,
+          cardScores.length
+        );
+        roundData = {
           date: round.date,
           teeBox: round.teeBox,
-          totalScore: round.holeScores.reduce((sum, h) => sum + h.score, 0),
-          scoreToPar: round.holeScores.reduce((sum, h) => sum + h.score, 0) - course.par,
-          differential: round.holeScores.reduce((sum, h) => sum + h.score, 0) - course.par,
-          completed: true
-        };
-
-        // Save round to database
-        await db.put('rounds', roundWithId);
-
-        // Save hole scores
-        for (const holeScore of round.holeScores) {
-          const holeScoreData = {
-            id: `hole-${roundId}-${holeScore.holeNumber}`,
-            roundId: roundId,
+          roundType: 'casual',
+          tags: [],
+          totalScore,
+          scoreToPar: totalScore - course.par,
+          adjustedGrossScore: acceptable ? adjusted.adjustedGrossScore : null,
+          // Scorecard photos carry no course or slope rating, so no differential is recorded
+          differential: null,
+          imported: true,
+          importDate: new Date().toISOString(),
+          holeScores: round.holeScores.map(holeScore => ({
             holeNumber: holeScore.holeNumber,
             score: holeScore.score,
             putts: holeScore.putts || 0,
             fairwayHit: holeScore.fairwayHit || 'n/a',
             greenInRegulation: holeScore.greenInRegulation || false,
             penaltyStrokes: holeScore.penaltyStrokes || 0
-          };
-          await db.put('holeScores', holeScoreData);
-        }
-
-        setSavedRound(roundWithId as any);
+          }))
+        };
       }
 
+      await onSave(course, roundData);
+      setSavedCourse(course);
+      setSavedRound(round || null);
+
       setCurrentStep('post-save');
     } catch (error) {
       console.error('Save error:', error);
@@ -116,7 +116,7 @@ const ScorecardImport: React.FC<ScorecardImportProps> = ({
       setProcessingError(errorMessage);
       setCurrentStep('review'); // Go back to review step so user can try again
     }
-  }, [db]);
+  }, [onSave]);
 
   const handleStartNewRound = useCallback(() => {
     if (savedCourse && onStartNewRound) {
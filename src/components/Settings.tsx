@@ -1,5 +1,18 @@
 import React, { useState } from 'react';
-import { Download, Upload, Trash2 } from 'lucide-react';
+import { Download, Upload, Trash2, RotateCcw, RefreshCw, ChevronDown, ChevronUp, ShieldCheck, Lock } from 'lucide-react';
+import TrashBin, { TRASH_RETENTION_DAYS, type TrashItem } from '../utils/TrashBin';
+import { type SyncConfig } from '../utils/SyncAdapter';
+import { type SyncResult, type SyncQueueItem } from '../utils/SyncEngine';
+import { MAX_SYNC_RETRIES } from '../utils/GolfDB';
+import { type IntegrityIssue } from '../utils/IntegrityChecker';
+import { type BackupData, type ImportMode, type ImportPlan } from '../utils/BackupImport';
+import BackupSchema, { type BackupRecordError } from '../utils/BackupSchema';
+import BackupCrypto, { ENCRYPTED_EXTENSION } from '../utils/BackupCrypto';
+import ImportPreview from './ImportPreview';
+import RestorePoints from './RestorePoints';
+import Players from './Players';
+import { type SnapshotReason, type SnapshotSummary, type SnapshotPreview } from '../utils/SnapshotPolicy';
+import { type Player } from '../utils/PlayerProfiles';
 
 // Import types from useGolfData
 interface Location {
@@ -44,19 +57,14 @@ interface Round {
   teeBox: string;
   totalScore: number;
   scoreToPar: number;
-  differential: number;
+  differential: number | null;
   completed: boolean;
 }
 
-interface HoleScore {
-  id: string;
-  roundId: string;
-  holeNumber: number;
-  score: number;
-  putts: number;
-  fairwayHit: string;
-  greenInRegulation: boolean;
-  penaltyStrokes: number;
+interface RecordCounts {
+  rounds: number;
+  holeScores: number;
+  shots: number;
 }
 
 interface GolfCourseAPI {
@@ -66,25 +74,89 @@ interface GolfCourseAPI {
 interface SettingsProps {
   courses: Course[];
   rounds: Round[];
-  holeScores: HoleScore[];
-  exportData: () => void;
-  importData: (file: File) => Promise<void>;
-  clearAllData: () => Promise<void>;
+  recordCounts: RecordCounts;
+  editorName: string;
+  updateEditorName: (name: string) => Promise<void>;
+  players: Player[];
+  activePlayerId: string;
+  setActivePlayer: (playerId: string) => Promise<void>;
+  addPlayer: (name: string) => Promise<Player>;
+  renamePlayer: (playerId: string, name: string) => Promise<void>;
+  deletePlayer: (playerId: string) => Promise<void>;
+  exportData: (passphrase?: string) => Promise<void>;
+  readBackup: (file: File, passphrase?: string) => Promise<BackupData>;
+  previewImport: (backup: BackupData, mode: ImportMode, skipDuplicates: boolean) => Promise<ImportPlan>;
+  importData: (plan: ImportPlan) => Promise<{ repaired: number; trashId: string | null }>;
+  checkIntegrity: () => Promise<IntegrityIssue[]>;
+  repairIntegrity: (issues: IntegrityIssue[]) => Promise<void>;
+  clearAllData: () => Promise<string | null>;
+  restorePoints: SnapshotSummary[];
+  takeSnapshot: (reason: SnapshotReason) => Promise<void>;
+  previewSnapshot: (snapshotId: string) => Promise<SnapshotPreview>;
+  restoreSnapshot: (snapshotId: string) => Promise<void>;
+  trashItems: TrashItem[];
+  restoreFromTrash: (trashId: string) => Promise<void>;
+  deleteFromTrash: (trashId: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  syncConfig: SyncConfig | null;
+  updateSyncConfig: (config: SyncConfig | null) => Promise<void>;
+  performSync: () => Promise<SyncResult | null>;
+  syncStatus: 'idle' | 'syncing' | 'error';
+  syncError: string | null;
+  lastSyncedAt: number | null;
+  conflictCount: number;
+  onReviewConflicts: () => void;
+  syncQueueItems: SyncQueueItem[];
+  loadSyncQueue: () => Promise<void>;
+  retrySyncItem: (syncId: string) => Promise<void>;
+  discardSyncItem: (syncId: string) => Promise<void>;
   apiKeyInput: string;
   setApiKeyInput: (key: string) => void;
   saveApiKey: () => void;
   clearApiKey: () => void;
-  showNotification: (message: string, type: 'success' | 'error' | 'info') => void;
+  showNotification: (message: string, type: 'success' | 'error' | 'info', undoTrashId?: string) => void;
   api: GolfCourseAPI;
 }
 
 function Settings({
   courses,
   rounds,
-  holeScores,
+  recordCounts,
+  editorName,
+  updateEditorName,
+  players,
+  activePlayerId,
+  setActivePlayer,
+  addPlayer,
+  renamePlayer,
+  deletePlayer,
   exportData,
+  readBackup,
+  previewImport,
   importData,
+  checkIntegrity,
+  repairIntegrity,
   clearAllData,
+  restorePoints,
+  takeSnapshot,
+  previewSnapshot,
+  restoreSnapshot,
+  trashItems,
+  restoreFromTrash,
+  deleteFromTrash,
+  emptyTrash,
+  syncConfig,
+  updateSyncConfig,
+  performSync,
+  syncStatus,
+  syncError,
+  lastSyncedAt,
+  conflictCount,
+  onReviewConflicts,
+  syncQueueItems,
+  loadSyncQueue,
+  retrySyncItem,
+  discardSyncItem,
   apiKeyInput,
   setApiKeyInput,
   saveApiKey,
@@ -94,15 +166,100 @@ function Settings({
 }: SettingsProps) {
   const [isImporting, setIsImporting] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
+  const [nameInput, setNameInput] = useState(editorName);
+  const [serverUrlInput, setServerUrlInput] = useState(syncConfig?.serverUrl || '');
+  const [syncTokenInput, setSyncTokenInput] = useState(syncConfig?.token || '');
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [integrityIssues, setIntegrityIssues] = useState<IntegrityIssue[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportPassphraseConfirm, setExportPassphraseConfirm] = useState('');
+  const [encryptedFile, setEncryptedFile] = useState<File | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [importErrors, setImportErrors] = useState<BackupRecordError[]>([]);
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; backup: BackupData; plan: ImportPlan } | null>(null);
+
+  const handleSaveName = async () => {
+    if (nameInput.trim() === editorName) return;
+    try {
+      await updateEditorName(nameInput);
+      showNotification('Name saved', 'success');
+    } catch (error) {
+      showNotification('Error saving name', 'error');
+    }
+  };
+
+  const exportPassphraseProblem = encryptExport
+    ? BackupCrypto.checkPassphrase(exportPassphrase) ||
+      (exportPassphrase !== exportPassphraseConfirm ? "The passphrases don't match" : null)
+    : null;
+
+  const handleExportData = async () => {
+    if (exportPassphraseProblem) {
+      showNotification(exportPassphraseProblem, 'error');
+      return;
+    }
+    try {
+      await exportData(encryptExport ? exportPassphrase : undefined);
+      setExportPassphrase('');
+      setExportPassphraseConfirm('');
+    } catch (error) {
+      showNotification('Error exporting data', 'error');
+    }
+  };
+
+  // Reading a file only previews it; nothing is written until the preview is confirmed
+  const loadBackup = async (file: File, passphrase?: string) => {
+    setImportErrors([]);
+    try {
+      const backup = await readBackup(file, passphrase);
+      const plan = await previewImport(backup, 'merge_newest', true);
+      setEncryptedFile(null);
+      setImportPassphrase('');
+      setPendingImport({ fileName: file.name, backup, plan });
+    } catch (error) {
+      setPendingImport(null);
+      // Encrypted files wait for their passphrase; a wrong one leaves the prompt open to try again
+      if (error instanceof Error && error.name === 'PassphraseRequiredError') {
+        setEncryptedFile(file);
+        return;
+      }
+      if (!(error instanceof Error && error.name === 'BackupDecryptError')) setEncryptedFile(null);
+      setImportErrors((error as any)?.recordErrors || []);
+      showNotification(error instanceof Error ? error.message : 'Error reading the backup file', 'error');
+    }
+  };
 
   const handleImportData = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file) return;
+    setEncryptedFile(null);
+    await loadBackup(file);
+  };
+
+  const updateImportPreview = async (mode: ImportMode, skipDuplicates: boolean) => {
+    if (!pendingImport) return;
+    try {
+      const plan = await previewImport(pendingImport.backup, mode, skipDuplicates);
+      setPendingImport({ ...pendingImport, plan });
+    } catch (error) {
+      showNotification('Error preparing the import', 'error');
+    }
+  };
 
+  const handleConfirmImport = async () => {
+    if (!pendingImport) return;
     setIsImporting(true);
     try {
-      await importData(file);
-      showNotification('Data imported successfully', 'success');
+      const { repaired, trashId } = await importData(pendingImport.plan);
+      setPendingImport(null);
+      setIntegrityIssues(null);
+      const message = repaired > 0
+        ? `Data imported. Fixed ${repaired} problem${repaired === 1 ? '' : 's'} found in the backup.`
+        : 'Data imported successfully';
+      showNotification(message, 'success', trashId || undefined);
     } catch (error) {
       showNotification('Error importing data. Please check the file format.', 'error');
     } finally {
@@ -110,13 +267,47 @@ function Settings({
     }
   };
 
+  const handleCheckData = async () => {
+    setIsChecking(true);
+    try {
+      setIntegrityIssues(await checkIntegrity());
+    } catch (error) {
+      showNotification('Error checking data', 'error');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleRepairData = async () => {
+    if (!integrityIssues || integrityIssues.length === 0) return;
+    setIsChecking(true);
+    try {
+      await repairIntegrity(integrityIssues);
+      const remaining = await checkIntegrity();
+      setIntegrityIssues(remaining);
+      if (remaining.length === 0) {
+        showNotification('All problems repaired', 'success');
+      } else {
+        showNotification('Some problems could not be repaired', 'error');
+      }
+    } catch (error) {
+      showNotification('Error repairing data', 'error');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
   const handleClearAllData = async () => {
-    if (!confirm('This will permanently delete all your courses, rounds, and statistics. Are you sure?')) return;
+    if (!confirm(`This will move all your courses, rounds, and statistics to the trash for ${TRASH_RETENTION_DAYS} days. Are you sure?`)) return;
 
     setIsClearing(true);
     try {
-      await clearAllData();
-      showNotification('All data cleared successfully', 'success');
+      const trashId = await clearAllData();
+      if (trashId) {
+        showNotification('All data moved to trash', 'info', trashId);
+      } else {
+        showNotification('There is no data to clear', 'info');
+      }
     } catch (error) {
       showNotification('Error clearing data', 'error');
     } finally {
@@ -124,6 +315,101 @@ function Settings({
     }
   };
 
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      await restoreFromTrash(item.id);
+      showNotification(`Restored ${item.label}`, 'success');
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Error restoring from trash', 'error');
+    }
+  };
+
+  const handleDeleteForever = async (item: TrashItem) => {
+    if (!confirm(`Permanently delete ${item.label}? This can't be undone.`)) return;
+    try {
+      await deleteFromTrash(item.id);
+      showNotification('Deleted permanently', 'success');
+    } catch (error) {
+      showNotification('Error deleting from trash', 'error');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm('Permanently delete everything in the trash? This can\'t be undone.')) return;
+    try {
+      await emptyTrash();
+      showNotification('Trash emptied', 'success');
+    } catch (error) {
+      showNotification('Error emptying trash', 'error');
+    }
+  };
+
+  const describeTrashItem = (item: TrashItem) => {
+    if (item.type === 'round') return 'Round';
+    const courses = `${item.courseCount} course${item.courseCount === 1 ? '' : 's'}`;
+    const rounds = `${item.roundCount} round${item.roundCount === 1 ? '' : 's'}`;
+    return item.type === 'course' ? `Course with ${rounds}` : `${courses}, ${rounds}`;
+  };
+
+  const handleConnectSync = async () => {
+    const serverUrl = serverUrlInput.trim();
+    if (!/^https?:\/\//.test(serverUrl)) {
+      showNotification('Enter the sync server address, starting with http:// or https://', 'error');
+      return;
+    }
+    try {
+      await updateSyncConfig({ serverUrl, token: syncTokenInput.trim() || undefined });
+      showNotification('Sync server saved', 'success');
+    } catch (error) {
+      showNotification('Error saving sync settings', 'error');
+    }
+  };
+
+  const handleDisconnectSync = async () => {
+    try {
+      await updateSyncConfig(null);
+      setServerUrlInput('');
+      setSyncTokenInput('');
+      showNotification('Sync turned off', 'info');
+    } catch (error) {
+      showNotification('Error saving sync settings', 'error');
+    }
+  };
+
+  const handleSyncNow = async () => {
+    const result = await performSync();
+    if (!result) return;
+    const summary = `Synced: ${result.pulled} received, ${result.pushed} sent`;
+    showNotification(result.conflicts > 0 ? `${summary}, ${result.conflicts} to review` : summary, 'success');
+  };
+
+  const toggleDiagnostics = () => {
+    if (!showDiagnostics) loadSyncQueue();
+    setShowDiagnostics(!showDiagnostics);
+  };
+
+  const handleRetrySyncItem = async (syncId: string) => {
+    try {
+      await retrySyncItem(syncId);
+    } catch (error) {
+      showNotification('Error retrying change', 'error');
+    }
+  };
+
+  const handleDiscardSyncItem = async (item: SyncQueueItem) => {
+    if (!confirm(`Discard this change to ${item.storeName}? Other devices won't receive it.`)) return;
+    try {
+      await discardSyncItem(item.id);
+      showNotification('Change discarded', 'info');
+    } catch (error) {
+      showNotification('Error discarding change', 'error');
+    }
+  };
+
+  const syncItemStatusClass = (status: string) =>
+    status === 'dead' ? 'bg-red-100 text-red-800' :
+    status === 'failed' ? 'bg-orange-100 text-orange-800' : 'bg-gray-100 text-gray-700';
+
   const handleSaveApiKey = () => {
     if (apiKeyInput.trim()) {
       saveApiKey();
@@ -142,6 +428,155 @@ function Settings({
     <div className="space-y-6">
       <h2 className="text-2xl font-bold text-gray-800">Settings & Data</h2>
 
+      <div className="bg-white p-6 rounded-lg shadow">
+        <label htmlFor="editor-name" className="block text-lg font-semibold mb-1">Your Name</label>
+        <p className="text-sm text-gray-600 mb-3">Shown in the edit history of rounds you change on this device.</p>
+        <input
+          id="editor-name"
+          type="text"
+          value={nameInput}
+          onChange={(e) => setNameInput(e.target.value)}
+          onBlur={handleSaveName}
+          className="w-full px-3 py-2 border rounded-lg"
+          placeholder="e.g. Sam"
+        />
+      </div>
+
+      <Players
+        players={players}
+        activePlayerId={activePlayerId}
+        setActivePlayer={setActivePlayer}
+        addPlayer={addPlayer}
+        renamePlayer={renamePlayer}
+        deletePlayer={deletePlayer}
+        showNotification={showNotification}
+      />
+
+      <div className="bg-white p-6 rounded-lg shadow">
+        <h3 className="text-lg font-semibold mb-1">Sync</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Keep rounds in step across your household's phones and laptops through a sync server you run yourself
+          (see <code>server/sync-server.mjs</code>).
+        </p>
+        <div className="space-y-2 mb-3">
+          <input
+            type="url"
+            value={serverUrlInput}
+            onChange={(e) => setServerUrlInput(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg"
+            placeholder="http://192.168.1.20:8787"
+            aria-label="Sync server address"
+          />
+          <input
+            type="password"
+            value={syncTokenInput}
+            onChange={(e) => setSyncTokenInput(e.target.value)}
+            className="w-full px-3 py-2 border rounded-lg"
+            placeholder="Household key (if the server has one)"
+            aria-label="Household key"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={handleConnectSync}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            {syncConfig ? 'Update' : 'Connect'}
+          </button>
+          {syncConfig && (
+            <>
+              <button
+                onClick={handleSyncNow}
+                disabled={syncStatus === 'syncing'}
+                className="px-4 py-2 border border-blue-600 text-blue-600 rounded-lg hover:bg-blue-50 disabled:opacity-50 flex items-center gap-2"
+              >
+                <RefreshCw size={16} className={syncStatus === 'syncing' ? 'animate-spin' : ''} />
+                Sync Now
+              </button>
+              <button
+                onClick={handleDisconnectSync}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Turn Off
+              </button>
+            </>
+          )}
+        </div>
+        {syncConfig && (
+          <div className="mt-3 text-sm text-gray-600 space-y-1">
+            <p>Last synced: {lastSyncedAt ? new Date(lastSyncedAt).toLocaleString() : 'never'}</p>
+            {syncStatus === 'error' && syncError && <p className="text-red-600">{syncError}</p>}
+            {conflictCount > 0 && (
+              <p className="text-orange-600">
+                {conflictCount} change{conflictCount === 1 ? '' : 's'} made on both this and another device need review.{' '}
+                <button onClick={onReviewConflicts} className="underline font-medium hover:no-underline">
+                  Review
+                </button>
+              </p>
+            )}
+          </div>
+        )}
+
+        <button
+          onClick={toggleDiagnostics}
+          className="mt-4 text-sm text-gray-600 hover:text-gray-800 flex items-center gap-1"
+          aria-expanded={showDiagnostics}
+        >
+          {showDiagnostics ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          Sync diagnostics
+        </button>
+        {showDiagnostics && (
+          <div className="mt-3">
+            <div className="flex gap-4 text-sm mb-3">
+              {['pending', 'failed', 'dead'].map(status => (
+                <span key={status}>
+                  <span className="font-semibold">{syncQueueItems.filter(item => item.status === status).length}</span>{' '}
+                  {status}
+                </span>
+              ))}
+            </div>
+            {syncQueueItems.length === 0 ? (
+              <p className="text-sm text-gray-500">No unsent changes.</p>
+            ) : (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {syncQueueItems.map(item => (
+                  <div key={item.id} className="flex items-start justify-between gap-2 p-2 border rounded text-sm">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs ${syncItemStatusClass(item.status)}`}>{item.status}</span>
+                        <span className="truncate">{item.operation} {item.storeName} · {item.data?.id}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        Queued {new Date(item.timestamp).toLocaleString()}
+                        {item.retries > 0 && ` · ${item.retries}/${MAX_SYNC_RETRIES} attempts`}
+                        {item.status === 'failed' && item.nextAttemptAt && ` · next try ${new Date(item.nextAttemptAt).toLocaleTimeString()}`}
+                      </div>
+                      {item.lastError && <div className="text-xs text-red-600 mt-1">{item.lastError}</div>}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      {item.status !== 'pending' && (
+                        <button
+                          onClick={() => handleRetrySyncItem(item.id)}
+                          className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+                        >
+                          Retry
+                        </button>
+                      )}
+                      <button
+                        onClick={() => handleDiscardSyncItem(item)}
+                        className="px-2 py-1 text-xs text-red-600 hover:text-red-800"
+                      >
+                        Discard
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       <div className="bg-white p-6 rounded-lg shadow space-y-4">
         <h3 className="text-lg font-semibold">Data Management</h3>
 
@@ -152,14 +587,52 @@ function Settings({
               <div className="text-sm text-gray-600">Download all courses, rounds, and statistics</div>
             </div>
             <button
-              onClick={exportData}
-              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-2"
+              onClick={handleExportData}
+              disabled={!!exportPassphraseProblem}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 flex items-center gap-2"
             >
-              <Download size={20} />
+              {encryptExport ? <Lock size={20} /> : <Download size={20} />}
               Export
             </button>
           </div>
 
+          {BackupCrypto.isAvailable() && (
+            <div className="px-4 space-y-2">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={encryptExport}
+                  onChange={(e) => setEncryptExport(e.target.checked)}
+                />
+                Encrypt the export with a passphrase
+              </label>
+              {encryptExport && (
+                <div className="space-y-2">
+                  <input
+                    type="password"
+                    value={exportPassphrase}
+                    onChange={(e) => setExportPassphrase(e.target.value)}
+                    placeholder="Passphrase"
+                    autoComplete="new-password"
+                    className="w-full p-2 border rounded-lg"
+                  />
+                  <input
+                    type="password"
+                    value={exportPassphraseConfirm}
+                    onChange={(e) => setExportPassphraseConfirm(e.target.value)}
+                    placeholder="Repeat passphrase"
+                    autoComplete="new-password"
+                    className="w-full p-2 border rounded-lg"
+                  />
+                  <p className="text-xs text-gray-500">
+                    {exportPassphraseProblem ||
+                      `Saved as a ${ENCRYPTED_EXTENSION} file. Without the passphrase it can't be restored, so keep it somewhere safe.`}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="flex items-center justify-between p-4 border rounded-lg">
             <div>
               <div className="font-semibold">Import Data</div>
@@ -170,7 +643,7 @@ function Settings({
               {isImporting ? 'Importing...' : 'Import'}
               <input
                 type="file"
-                accept=".json"
+                accept={`.json,${ENCRYPTED_EXTENSION}`}
                 onChange={handleImportData}
                 className="hidden"
                 disabled={isImporting}
@@ -178,10 +651,129 @@ function Settings({
             </label>
           </div>
 
+          {encryptedFile && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                loadBackup(encryptedFile, importPassphrase);
+              }}
+              className="p-4 border rounded-lg space-y-2"
+            >
+              <div className="font-semibold flex items-center gap-2">
+                <Lock size={16} />
+                {encryptedFile.name} is encrypted
+              </div>
+              <input
+                type="password"
+                value={importPassphrase}
+                onChange={(e) => setImportPassphrase(e.target.value)}
+                placeholder="Passphrase"
+                autoComplete="current-password"
+                autoFocus
+                className="w-full p-2 border rounded-lg"
+              />
+              <div className="flex gap-2 justify-end">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEncryptedFile(null);
+                    setImportPassphrase('');
+                  }}
+                  className="px-4 py-2 border rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!importPassphrase}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+                >
+                  Unlock
+                </button>
+              </div>
+            </form>
+          )}
+
+          {importErrors.length > 0 && (
+            <div className="p-4 border border-red-200 rounded-lg">
+              <div className="flex justify-between items-center mb-2">
+                <span className="font-semibold text-red-700">
+                  Nothing was imported: {importErrors.length} problem{importErrors.length === 1 ? '' : 's'} in the backup
+                </span>
+                <button onClick={() => setImportErrors([])} className="text-sm text-gray-500 hover:text-gray-700">
+                  Dismiss
+                </button>
+              </div>
+              <ul className="text-sm text-gray-700 space-y-1 max-h-48 overflow-y-auto">
+                {importErrors.map((error, index) => (
+                  <li key={index}>{BackupSchema.describeError(error)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {pendingImport && (
+            <ImportPreview
+              fileName={pendingImport.fileName}
+              plan={pendingImport.plan}
+              courses={courses.concat(pendingImport.backup.courses as Course[])}
+              isImporting={isImporting}
+              onModeChange={(mode) => updateImportPreview(mode, pendingImport.plan.skipDuplicates)}
+              onSkipDuplicatesChange={(skip) => updateImportPreview(pendingImport.plan.mode, skip)}
+              onConfirm={handleConfirmImport}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+
+          <div className="p-4 border rounded-lg">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-semibold">Check Data</div>
+                <div className="text-sm text-gray-600">Find scores, shots and rounds that don't fit together</div>
+              </div>
+              <button
+                onClick={handleCheckData}
+                disabled={isChecking}
+                className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 disabled:bg-gray-400 flex items-center gap-2"
+              >
+                <ShieldCheck size={20} />
+                {isChecking ? 'Checking...' : 'Check'}
+              </button>
+            </div>
+
+            {integrityIssues && integrityIssues.length === 0 && (
+              <p className="mt-3 text-sm text-green-700">No problems found.</p>
+            )}
+            {integrityIssues && integrityIssues.length > 0 && (
+              <div className="mt-3 space-y-2">
+                <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium text-amber-700">
+                    {integrityIssues.length} problem{integrityIssues.length === 1 ? '' : 's'} found
+                  </span>
+                  <button
+                    onClick={handleRepairData}
+                    disabled={isChecking}
+                    className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50"
+                  >
+                    Repair all
+                  </button>
+                </div>
+                <div className="max-h-64 overflow-y-auto space-y-1">
+                  {integrityIssues.map((issue, index) => (
+                    <div key={`${issue.type}-${issue.recordId}-${index}`} className="p-2 bg-gray-50 rounded text-sm">
+                      <div>{issue.message}</div>
+                      <div className="text-xs text-gray-500">Repair: {issue.repair}</div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
           <div className="flex items-center justify-between p-4 border border-red-200 rounded-lg">
             <div>
               <div className="font-semibold text-red-700">Clear All Data</div>
-              <div className="text-sm text-gray-600">Permanently delete all courses, rounds, and statistics</div>
+              <div className="text-sm text-gray-600">Move all courses, rounds, and statistics to the trash</div>
             </div>
             <button
               onClick={handleClearAllData}
@@ -195,6 +787,64 @@ function Settings({
         </div>
       </div>
 
+      <div className="bg-white p-6 rounded-lg shadow">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="text-lg font-semibold">Trash</h3>
+          {trashItems.length > 0 && (
+            <button onClick={handleEmptyTrash} className="text-sm text-red-600 hover:text-red-800">
+              Empty trash
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Deleted rounds and courses are kept for {TRASH_RETENTION_DAYS} days and don't count towards your stats.
+        </p>
+        {trashItems.length === 0 ? (
+          <p className="text-sm text-gray-500">The trash is empty.</p>
+        ) : (
+          <div className="space-y-2">
+            {trashItems.map(item => {
+              const daysLeft = TrashBin.daysLeft(item);
+              return (
+                <div key={item.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="font-medium">{item.label}</div>
+                    <div className="text-xs text-gray-500">
+                      {describeTrashItem(item)} · Deleted {new Date(item.deletedAt).toLocaleDateString()} ·{' '}
+                      {daysLeft} day{daysLeft === 1 ? '' : 's'} left
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleRestore(item)}
+                      className="px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 flex items-center gap-1"
+                    >
+                      <RotateCcw size={14} />
+                      Restore
+                    </button>
+                    <button
+                      onClick={() => handleDeleteForever(item)}
+                      className="text-red-500 hover:text-red-700"
+                      aria-label={`Delete ${item.label} permanently`}
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <RestorePoints
+        restorePoints={restorePoints}
+        takeSnapshot={takeSnapshot}
+        previewSnapshot={previewSnapshot}
+        restoreSnapshot={restoreSnapshot}
+        showNotification={showNotification}
+      />
+
       <div className="bg-white p-6 rounded-lg shadow">
         <h3 className="text-lg font-semibold mb-4">App Information</h3>
         <div className="space-y-3">
@@ -208,7 +858,7 @@ function Settings({
           </div>
           <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
             <span className="text-sm font-medium">Total Holes Played</span>
-            <span className="font-bold">{holeScores.length}</span>
+            <span className="font-bold">{recordCounts.holeScores}</span>
           </div>
           <div className="flex justify-between items-center p-3 bg-gray-50 rounded-lg">
             <span className="text-sm font-medium">App Version</span>
@@ -0,0 +1,166 @@
+import React, { memo, useState } from 'react';
+import { Plus, Trash2, Crosshair } from 'lucide-react';
+import StrokesGained from '../utils/StrokesGained';
+
+// Import types from StrokesGained
+type Lie = 'tee' | 'fairway' | 'rough' | 'sand' | 'recovery' | 'green';
+type ShotResult = 'fairway' | 'rough' | 'sand' | 'recovery' | 'green' | 'holed' | 'penalty';
+
+interface ShotEntry {
+  holeNumber: number;
+  shotNumber: number;
+  startDistance: number;
+  lie: Lie;
+  result: ShotResult;
+}
+
+interface ShotTrackerProps {
+  holeNumber: number;
+  par: number;
+  yardage: number;
+  score: number | null;
+  penaltyStrokes: number;
+  shots: ShotEntry[];
+  onChange: (shots: ShotEntry[]) => void;
+}
+
+const LIES: Lie[] = ['tee', 'fairway', 'rough', 'sand', 'recovery', 'green'];
+const RESULTS: ShotResult[] = ['fairway', 'rough', 'sand', 'recovery', 'green', 'holed', 'penalty'];
+
+// Optional shot-by-shot entry for one hole, used for true strokes gained
+function ShotTracker({ holeNumber, par, yardage, score, penaltyStrokes, shots, onChange }: ShotTrackerProps) {
+  const [expanded, setExpanded] = useState(shots.length > 0);
+  const ordered = [...shots].sort((a, b) => a.shotNumber - b.shotNumber);
+  const holeGained = StrokesGained.calculateHole(ordered, par);
+  const recordedStrokes = ordered.length + ordered.filter(s => s.result === 'penalty').length;
+
+  const addShot = () => {
+    const previous = ordered[ordered.length - 1];
+    const lie: Lie = !previous
+      ? 'tee'
+      : StrokesGained.isLie(previous.result) ? previous.result : 'rough';
+    onChange([
+      ...ordered,
+      {
+        holeNumber,
+        shotNumber: ordered.length + 1,
+        startDistance: previous ? 0 : yardage,
+        lie,
+        result: lie === 'green' ? 'holed' : par === 3 || previous ? 'green' : 'fairway'
+      }
+    ]);
+  };
+
+  const updateShot = (shotNumber: number, changes: Partial<ShotEntry>) => {
+    onChange(ordered.map(s => (s.shotNumber === shotNumber ? { ...s, ...changes } : s)));
+  };
+
+  // Removing a shot renumbers the rest so the sequence stays contiguous
+  const removeShot = (shotNumber: number) => {
+    onChange(ordered.filter(s => s.shotNumber !== shotNumber).map((s, i) => ({ ...s, shotNumber: i + 1 })));
+  };
+
+  if (!expanded) {
+    return (
+      <button
+        onClick={() => setExpanded(true)}
+        className="w-full mb-4 py-2 text-sm text-blue-600 border border-dashed border-blue-300 rounded-lg hover:bg-blue-50 flex items-center justify-center gap-2"
+        aria-label={`Track shots for hole ${holeNumber}`}
+      >
+        <Crosshair size={16} />
+        Track shots (optional)
+      </button>
+    );
+  }
+
+  return (
+    <div className="mb-4 border rounded-lg p-3 bg-white">
+      <div className="flex justify-between items-center mb-2">
+        <div className="text-sm font-medium flex items-center gap-2">
+          <Crosshair size={16} />
+          Shots
+        </div>
+        {ordered.length === 0 && (
+          <button onClick={() => setExpanded(false)} className="text-xs text-gray-500 hover:text-gray-700">
+            Hide
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {ordered.map(shot => (
+          <div key={shot.shotNumber} className="grid grid-cols-12 gap-2 items-center text-sm">
+            <div className="col-span-1 text-gray-500">{shot.shotNumber}</div>
+            <select
+              value={shot.lie}
+              onChange={(e) => updateShot(shot.shotNumber, { lie: e.target.value as Lie })}
+              className="col-span-4 px-2 py-1 border rounded capitalize"
+              aria-label={`Shot ${shot.shotNumber} lie`}
+            >
+              {LIES.map(lie => (
+                <option key={lie} value={lie}>{lie}</option>
+              ))}
+            </select>
+            <div className="col-span-3 flex items-center gap-1">
+              <input
+                type="number"
+                value={shot.startDistance || ''}
+                onChange={(e) => updateShot(shot.shotNumber, { startDistance: parseFloat(e.target.value) || 0 })}
+                className="w-full px-2 py-1 border rounded"
+                min="0"
+                inputMode="decimal"
+                aria-label={`Shot ${shot.shotNumber} distance to hole`}
+              />
+              {/* Putts are measured in feet, everything else in yards */}
+              <span className="text-xs text-gray-500">{shot.lie === 'green' ? 'ft' : 'yd'}</span>
+            </div>
+            <select
+              value={shot.result}
+              onChange={(e) => updateShot(shot.shotNumber, { result: e.target.value as ShotResult })}
+              className="col-span-3 px-2 py-1 border rounded capitalize"
+              aria-label={`Shot ${shot.shotNumber} result`}
+            >
+              {RESULTS.map(result => (
+                <option key={result} value={result}>{result}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => removeShot(shot.shotNumber)}
+              className="col-span-1 text-red-500 hover:text-red-700"
+              aria-label={`Remove shot ${shot.shotNumber}`}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={addShot}
+        className="mt-2 px-3 py-1 text-sm bg-blue-100 text-blue-700 rounded hover:bg-blue-200 flex items-center gap-1"
+      >
+        <Plus size={14} />
+        Add shot
+      </button>
+
+      {holeGained && (
+        <div className="mt-2 text-xs text-gray-700">
+          Strokes gained: Tee {holeGained.offTee.toFixed(2)} · Approach {holeGained.approach.toFixed(2)} ·
+          Around green {holeGained.shortGame.toFixed(2)} · Putting {holeGained.putting.toFixed(2)}
+        </div>
+      )}
+      {ordered.length > 0 && !holeGained && (
+        <div className="mt-2 text-xs text-gray-500">
+          Finish with a "holed" shot and a distance on every shot to count this hole's strokes gained.
+        </div>
+      )}
+      {ordered.length > 0 && score !== null && recordedStrokes !== score && (
+        <div className="mt-1 text-xs text-orange-600">
+          {recordedStrokes} strokes recorded ({penaltyStrokes} penalty on the card) but the hole score is {score}.
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(ShotTracker);
@@ -0,0 +1,159 @@
+import React, { memo } from 'react';
+import { Filter, X } from 'lucide-react';
+
+// Import types from StatsCalculator
+interface Filters {
+  courseId?: string;
+  startDate?: string;
+  endDate?: string;
+  teeBox?: string;
+  holes?: 'all' | '9' | '18';
+  roundType?: string;
+  tags?: string[];
+}
+
+interface Course {
+  id: string;
+  name: string;
+}
+
+interface Round {
+  id: string;
+  courseId: string;
+  teeBox: string;
+  roundType?: string;
+  tags?: string[];
+}
+
+interface StatsFilterBarProps {
+  courses: Course[];
+  rounds: Round[];
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+}
+
+const ROUND_TYPES = ['casual', 'practice', 'league', 'tournament'];
+
+function StatsFilterBar({ courses, rounds, filters, onChange }: StatsFilterBarProps) {
+  // Only offer tees and tags that appear on saved rounds
+  const teeBoxes = rounds
+    .filter(r => !filters.courseId || r.courseId === filters.courseId)
+    .map(r => r.teeBox)
+    .filter((tee, i, all) => tee && all.indexOf(tee) === i)
+    .sort();
+  const tags = rounds
+    .reduce((all: string[], r) => all.concat(r.tags || []), [])
+    .filter((tag, i, all) => all.indexOf(tag) === i)
+    .sort();
+  const activeTags = filters.tags || [];
+  const hasFilters = !!(filters.courseId || filters.startDate || filters.endDate || filters.teeBox ||
+    (filters.holes && filters.holes !== 'all') || filters.roundType || activeTags.length > 0);
+
+  const update = (changes: Filters) => {
+    onChange({ ...filters, ...changes });
+  };
+
+  const toggleTag = (tag: string) => {
+    update({ tags: activeTags.includes(tag) ? activeTags.filter(t => t !== tag) : [...activeTags, tag] });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow space-y-3" role="search" aria-label="Stats filters">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <Filter size={16} />
+          Filters
+        </div>
+        {hasFilters && (
+          <button
+            onClick={() => onChange({})}
+            className="text-sm text-blue-600 hover:text-blue-800 flex items-center gap-1"
+            aria-label="Clear all filters"
+          >
+            <X size={14} />
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <select
+          value={filters.courseId || ''}
+          onChange={(e) => update({ courseId: e.target.value || undefined, teeBox: undefined })}
+          className="px-3 py-2 border rounded-lg text-sm"
+          aria-label="Filter by course"
+        >
+          <option value="">All courses</option>
+          {courses.map(course => (
+            <option key={course.id} value={course.id}>{course.name}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.startDate || ''}
+          onChange={(e) => update({ startDate: e.target.value || undefined })}
+          className="px-3 py-2 border rounded-lg text-sm"
+          aria-label="From date"
+        />
+        <input
+          type="date"
+          value={filters.endDate || ''}
+          onChange={(e) => update({ endDate: e.target.value || undefined })}
+          className="px-3 py-2 border rounded-lg text-sm"
+          aria-label="To date"
+        />
+        <select
+          value={filters.teeBox || ''}
+          onChange={(e) => update({ teeBox: e.target.value || undefined })}
+          className="px-3 py-2 border rounded-lg text-sm"
+          aria-label="Filter by tee box"
+        >
+          <option value="">All tees</option>
+          {teeBoxes.map(tee => (
+            <option key={tee} value={tee}>{tee}</option>
+          ))}
+        </select>
+        <select
+          value={filters.holes || 'all'}
+          onChange={(e) => update({ holes: e.target.value as Filters['holes'] })}
+          className="px-3 py-2 border rounded-lg text-sm"
+          aria-label="Filter by holes played"
+        >
+          <option value="all">9 & 18 holes</option>
+          <option value="18">18 holes</option>
+          <option value="9">9 holes</option>
+        </select>
+        <select
+          value={filters.roundType || ''}
+          onChange={(e) => update({ roundType: e.target.value || undefined })}
+          className="px-3 py-2 border rounded-lg text-sm capitalize"
+          aria-label="Filter by round type"
+        >
+          <option value="">All round types</option>
+          {ROUND_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={`px-2 py-1 text-xs rounded-full ${
+                activeTags.includes(tag) ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+              aria-pressed={activeTags.includes(tag)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default memo(StatsFilterBar);
@@ -1,6 +1,26 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import GolfDB from '../utils/GolfDB';
 import GolfCourseAPI from '../utils/GolfCourseAPI';
+import HandicapCalculator from '../utils/HandicapCalculator';
+import StatsCalculator, { type Filters, type RoundAggregate } from '../utils/StatsCalculator';
+import { type Shot } from '../utils/StrokesGained';
+import RoundChangeLog, { type Editor, type RoundHistoryEntry } from '../utils/RoundChangeLog';
+import TrashBin, { type TrashEntry, type TrashItem, type TrashRecords } from '../utils/TrashBin';
+import HttpSyncAdapter, { type SyncAdapter, type SyncConfig } from '../utils/SyncAdapter';
+import SyncEngine, { SYNC_STORES, type SyncResult, type SyncQueueItem } from '../utils/SyncEngine';
+import RecordId from '../utils/RecordId';
+import PlayerProfiles, { DEFAULT_PLAYER_ID, type Player } from '../utils/PlayerProfiles';
+import { type SideGameResult } from '../utils/SideGames';
+import IntegrityChecker, { type IntegrityIssue } from '../utils/IntegrityChecker';
+import BackupImport, { type BackupData, type ImportMode, type ImportPlan } from '../utils/BackupImport';
+import BackupSchema from '../utils/BackupSchema';
+import BackupCrypto, { ENCRYPTED_EXTENSION } from '../utils/BackupCrypto';
+import SnapshotPolicy, {
+  type SnapshotReason,
+  type SnapshotSummary,
+  type SnapshotPreview,
+  type StoreRecords
+} from '../utils/SnapshotPolicy';
 
 // Type definitions
 interface Location {
@@ -41,30 +61,81 @@ interface Course {
 interface Round {
   id: string;
   courseId: string;
+  playerId: string;
+  groupId?: string; // Shared by the rounds of a group recorded on one scorecard
   date: string;
   teeBox: string;
+  teeKey?: string;
+  courseRating?: number;
+  slopeRating?: number;
+  par?: number;
   totalScore: number;
+  adjustedGrossScore?: number | null;
+  handicapIndex?: number | null;
+  courseHandicap?: number | null;
+  playingHandicap?: number | null;
+  netScore?: number | null;
+  holesPlayed?: number;
+  holeNumbers?: number[];
+  startingHole?: number;
+  roundType?: string;
+  tags?: string[];
   scoreToPar: number;
-  differential: number;
+  differential: number | null;
   completed: boolean;
   imported: boolean;
   importDate?: string;
+  lastModified?: number;
+  lastEditedAt?: number;
+  synced?: boolean; // Set on records last taken from the sync server
+  sideGame?: SideGameResult; // Settlement of the group's game, the same on each round in the group
 }
 
 interface HoleScore {
   id: string;
   roundId: string;
+  playerId: string;
   holeNumber: number;
   score: number;
   putts: number;
   fairwayHit: string;
   greenInRegulation: boolean;
   penaltyStrokes: number;
+  adjustedScore?: number | null;
+  greensideBunker?: boolean | null;
+  upAndDownAttempt?: boolean | null;
+  chipCount?: number | null;
+}
+
+interface RecordCounts {
+  rounds: number;
+  holeScores: number;
+  shots: number;
+}
+
+// Where a page of rounds ended, passed back to read the one after it
+interface RoundCursor {
+  key: IDBValidKey;
+  primaryKey: IDBValidKey;
 }
 
+interface RoundPage {
+  rounds: Round[];
+  next: RoundCursor | null;
+}
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+const SNAPSHOT_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const ROUND_PAGE_SIZE = 100;
+// Stores that describe this device's own state, which a rollback leaves alone
+const KEPT_ON_RESTORE = ['syncQueue', 'trash'];
+
 export function useGolfData() {
   const [db, setDb] = useState<GolfDB | null>(null);
   const [courses, setCourses] = useState<Course[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [activePlayerId, setActivePlayerId] = useState<string>(DEFAULT_PLAYER_ID);
+  // Every player's rounds; the rounds returned to views are only the active player's
   const [rounds, setRounds] = useState<Round[]>([]);
   const [holeScores, setHoleScores] = useState<HoleScore[]>([]);
   const [api] = useState(() => new GolfCourseAPI());
@@ -73,6 +144,21 @@ export function useGolfData() {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'error'>('idle');
   const [pendingConflicts, setPendingConflicts] = useState<any[]>([]);
+  const [statsFilters, setStatsFilters] = useState<Filters>({});
+  const [roundStats, setRoundStats] = useState<RoundAggregate[]>([]);
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [recordCounts, setRecordCounts] = useState<RecordCounts>({ rounds: 0, holeScores: 0, shots: 0 });
+  const [editorName, setEditorName] = useState('');
+  const [trashItems, setTrashItems] = useState<TrashItem[]>([]);
+  const [syncConfig, setSyncConfig] = useState<SyncConfig | null>(null);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncQueueItems, setSyncQueueItems] = useState<SyncQueueItem[]>([]);
+  const [restorePoints, setRestorePoints] = useState<SnapshotSummary[]>([]);
+  const syncAdapter = useRef<SyncAdapter | null>(null);
+  const syncInProgress = useRef(false);
+  // Rounds whose hole scores and shots are already in state
+  const loadedRoundIds = useRef<Set<string>>(new Set());
 
   // Initialize IndexedDB
   useEffect(() => {
@@ -84,29 +170,45 @@ export function useGolfData() {
         await database.init();
         setDb(database);
 
-        const loadedCourses = await database.getAll('courses') as Course[];
-        const loadedRounds = await database.getAll('rounds') as Round[];
-        const loadedHoles = await database.getAll('holeScores') as HoleScore[];
+        await purgeExpiredTrash(database);
+        await database.compactSyncQueue().catch((err: any) => console.error('Failed to compact sync queue:', err));
+        await refreshTrash(database);
+        const { loadedCourses, loadedRounds } = await loadData(database);
+
+        const savedEditor = await database.get('settings', 'editorName');
+        if (savedEditor?.value) {
+          setEditorName(savedEditor.value);
+        }
 
-        setCourses(loadedCourses);
-        setRounds(loadedRounds);
-        setHoleScores(loadedHoles);
+        const savedFilters = await database.get('settings', 'statsFilters');
+        if (savedFilters?.value) {
+          setStatsFilters(savedFilters.value);
+        }
+
+        const savedSync = await database.get('settings', 'syncConfig');
+        if (savedSync?.value) {
+          setSyncConfig(savedSync.value);
+          syncAdapter.current = new HttpSyncAdapter(savedSync.value);
+        }
+        const savedLastSync = await database.get('settings', 'lastSyncedAt');
+        if (savedLastSync?.value) {
+          setLastSyncedAt(savedLastSync.value);
+        }
 
         // Only load sample data for fresh installs when using mock data
         // Real API users should import their own courses
         const apiInstance = new GolfCourseAPI();
         if (loadedCourses.length === 0 && loadedRounds.length === 0 && apiInstance.useMockData) {
           await addSampleData(database);
-          const newCourses = await database.getAll('courses') as Course[];
-          const newRounds = await database.getAll('rounds') as Round[];
-          const newHoles = await database.getAll('holeScores') as HoleScore[];
-          setCourses(newCourses);
-          setRounds(newRounds);
-          setHoleScores(newHoles);
+          await loadData(database);
         }
       } catch (err) {
         console.error('Failed to initialize database:', err);
-        setError('Failed to load data. Please refresh the page.');
+        if ((err as any)?.name === 'MigrationError' && (err as any).recovery !== 'none') {
+          setError('Updating your saved data failed, so it was left as it was. Please refresh the page to try again.');
+        } else {
+          setError('Failed to load data. Please refresh the page.');
+        }
       } finally {
         setIsLoading(false);
       }
@@ -145,9 +247,177 @@ export function useGolfData() {
     }
   }, [db]);
 
+  // A snapshot a day, checked hourly while the app is open
+  useEffect(() => {
+    if (!db) return;
+    takeScheduledSnapshot(db);
+    const interval = setInterval(() => takeScheduledSnapshot(db), SNAPSHOT_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [db]);
+
+  // Sync on load and then periodically while a server is set up
+  useEffect(() => {
+    if (!db || !syncConfig) return;
+    performSync();
+    const interval = setInterval(performSync, SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [db, syncConfig]);
+
+  // Loads courses and cached stats, and reads the rounds a page at a time along the date index. The
+  // handicap index needs every round, so every page is read, but hole scores and shots are only read
+  // for rounds whose cached aggregate is out of date, a page of rounds at a time. Views that need them
+  // for other rounds ask through loadRoundDetails, and round lists page through loadRoundPage.
+  const loadData = async (database: GolfDB) => {
+    const loadedCourses = await database.getAll('courses') as Course[];
+    const cached = await database.getAll('roundStats') as RoundAggregate[];
+
+    const coursesById = new Map<string, Course>();
+    loadedCourses.forEach(c => coursesById.set(c.id, c));
+    const cachedById = new Map<string, RoundAggregate>();
+    cached.forEach(a => cachedById.set(a.roundId, a));
+
+    let loadedRounds: Round[] = [];
+    let staleHoles: HoleScore[] = [];
+    let staleShots: Shot[] = [];
+    const staleRoundIds: string[] = [];
+    let after: RoundCursor | null = null;
+    do {
+      const page = await database.query('rounds', { indexName: 'date', limit: ROUND_PAGE_SIZE, after });
+      const pageRounds = page.items as Round[];
+      const stale = pageRounds
+        .filter(r => !StatsCalculator.isAggregateCurrent(cachedById.get(r.id), r, coursesById.get(r.courseId)))
+        .map(r => r.id);
+      if (stale.length > 0) {
+        staleHoles = staleHoles.concat(await database.getHoleScoresForRounds(stale) as HoleScore[]);
+        staleShots = staleShots.concat(await database.getShotsForRounds(stale) as Shot[]);
+        staleRoundIds.push(...stale);
+      }
+      loadedRounds = loadedRounds.concat(pageRounds);
+      after = page.next;
+    } while (after);
+    loadedRoundIds.current = new Set(staleRoundIds);
+
+    await loadPlayers(database);
+    setCourses(loadedCourses);
+    setRounds(loadedRounds);
+    setHoleScores(staleHoles);
+    setShots(staleShots);
+    await refreshRoundStats(database, loadedRounds, staleHoles, loadedCourses, staleShots);
+    await refreshCounts(database);
+    return { loadedCourses, loadedRounds };
+  };
+
+  // There is always at least one player, and the active one is remembered per device
+  const loadPlayers = async (database: GolfDB) => {
+    let loadedPlayers = await database.getAll('players') as Player[];
+    if (loadedPlayers.length === 0) {
+      const player = PlayerProfiles.createDefault((await database.get('settings', 'editorName'))?.value);
+      await database.put('players', player);
+      loadedPlayers = [player];
+    }
+    const sorted = PlayerProfiles.sort(loadedPlayers);
+    const savedActive = (await database.get('settings', 'activePlayerId'))?.value;
+    setPlayers(sorted);
+    setActivePlayerId(sorted.some(p => p.id === savedActive) ? savedActive : sorted[0].id);
+    return sorted;
+  };
+
+  const refreshCounts = async (database: GolfDB) => {
+    try {
+      setRecordCounts({
+        rounds: await database.count('rounds'),
+        holeScores: await database.count('holeScores'),
+        shots: await database.count('shots')
+      });
+    } catch (error) {
+      console.error('Failed to count records:', error);
+    }
+  };
+
+  // Hole scores and shots for the given rounds, read from the database the first time a view needs them
+  const loadRoundDetails = useCallback(async (roundIds: string[]) => {
+    if (!db) return;
+    const missing = roundIds.filter(id => !loadedRoundIds.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach(id => loadedRoundIds.current.add(id));
+
+    try {
+      const newHoles = await db.getHoleScoresForRounds(missing) as HoleScore[];
+      const newShots = await db.getShotsForRounds(missing) as Shot[];
+      setHoleScores(prev => prev.concat(newHoles));
+      setShots(prev => prev.concat(newShots));
+    } catch (error) {
+      missing.forEach(id => loadedRoundIds.current.delete(id));
+      console.error('Failed to load round details:', error);
+    }
+  }, [db]);
+
+  // One page of the active player's rounds within the stats filters, newest first, for views that list
+  // rounds. The date window is read through the date index and the other filters are applied to each page.
+  const loadRoundPage = useCallback(async (after: RoundCursor | null = null, limit = 10): Promise<RoundPage> => {
+    if (!db) return { rounds: [], next: null };
+    const range = db.dateRange(statsFilters.startDate, statsFilters.endDate);
+    let found: Round[] = [];
+    let next = after;
+    do {
+      const page = await db.query('rounds', { indexName: 'date', range, direction: 'prev', limit, after: next });
+      const own = (page.items as Round[]).filter(r => r.playerId === activePlayerId);
+      found = found.concat(StatsCalculator.applyFilters(own, [], statsFilters).rounds as Round[]);
+      next = page.next;
+    } while (next && found.length < limit);
+    return { rounds: found, next };
+  }, [db, statsFilters, activePlayerId]);
+
+  // Rebuilds cached aggregates for rounds that are new or changed, and drops ones for deleted rounds
+  const refreshRoundStats = async (
+    database: GolfDB,
+    allRounds: Round[],
+    allHoles: HoleScore[],
+    allCourses: Course[],
+    allShots: Shot[] = []
+  ) => {
+    try {
+      const cached = await database.getAll('roundStats') as RoundAggregate[];
+      const current = StatsCalculator.getRoundAggregates(
+        allRounds,
+        allHoles,
+        allCourses,
+        cached,
+        StatsCalculator.buildIndex(allRounds, allCourses),
+        allShots
+      );
+      const cachedById = new Map<string, RoundAggregate>();
+      cached.forEach(a => cachedById.set(a.roundId, a));
+      const roundIds = new Set(allRounds.map(r => r.id));
+
+      await database.batch([
+        ...current
+          .filter(aggregate => cachedById.get(aggregate.roundId) !== aggregate)
+          .map(aggregate => ({ type: 'put', storeName: 'roundStats', value: aggregate })),
+        ...cached
+          .filter(aggregate => !roundIds.has(aggregate.roundId))
+          .map(aggregate => ({ type: 'delete', storeName: 'roundStats', key: aggregate.roundId }))
+      ]);
+
+      setRoundStats(current);
+    } catch (error) {
+      console.error('Failed to refresh round stats:', error);
+    }
+  };
+
+  // Incremental update after a single round is saved; the aggregate is written in the round's own transaction
+  const setRoundAggregate = (aggregate: RoundAggregate) => {
+    setRoundStats(prev => [...prev.filter(a => a.roundId !== aggregate.roundId), aggregate]);
+  };
+
+  // Sync queue entries for changed records, committed alongside the records themselves. They're queued
+  // online too, since the sync server only hears about changes through the queue.
+  const syncOperations = (storeName: string, operation: string, records: any[]) =>
+    records.map(record => db!.syncOperation(storeName, operation, record));
+
   const addSampleData = async (database: GolfDB) => {
     const sampleCourse: Course = {
-      id: 'sample-course-1',
+      id: RecordId.create('course'),
       name: 'Sample Golf Club',
       location: { city: 'Sample City', state: 'CA', country: 'USA' },
       isHomeCourse: true,
@@ -158,10 +428,12 @@ export function useGolfData() {
         handicap: ((i * 7) % 18) + 1,
         yardages: { championship: i % 3 === 0 ? 180 : i % 3 === 1 ? 380 : 520 }
       })),
-      par: 72
+      par: 72,
+      courseRating: 71.8,
+      slopeRating: 128
     };
 
-    await database.put('courses', sampleCourse);
+    const operations: any[] = [{ type: 'put', storeName: 'courses', value: sampleCourse }];
 
     const today = new Date();
     for (let i = 0; i < 15; i++) {
@@ -169,29 +441,34 @@ export function useGolfData() {
       date.setDate(date.getDate() - i * 7);
 
       const totalScore = 72 + Math.floor(Math.random() * 20) - 5;
-      const roundId = `round-${Date.now()}-${i}`;
+      const roundId = RecordId.create('round');
 
       const round: Round = {
         id: roundId,
-        courseId: 'sample-course-1',
+        courseId: sampleCourse.id,
+        playerId: DEFAULT_PLAYER_ID,
         date: date.toISOString(),
         teeBox: 'Regular',
+        courseRating: sampleCourse.courseRating,
+        slopeRating: sampleCourse.slopeRating,
+        par: sampleCourse.par,
         totalScore,
         scoreToPar: totalScore - 72,
-        differential: totalScore - 72,
+        differential: HandicapCalculator.calculateScoreDifferential(totalScore, sampleCourse.courseRating, sampleCourse.slopeRating),
         completed: true,
         imported: false
       };
 
-      await database.put('rounds', round);
+      operations.push({ type: 'put', storeName: 'rounds', value: round });
 
       for (let h = 1; h <= 18; h++) {
         const par = h % 3 === 0 ? 3 : h % 3 === 1 ? 4 : 5;
         const score = par + Math.floor(Math.random() * 3) - 1;
 
         const holeScore: HoleScore = {
-          id: `hole-${roundId}-${h}`,
+          id: RecordId.create('hole'),
           roundId,
+          playerId: DEFAULT_PLAYER_ID,
           holeNumber: h,
           score,
           putts: Math.floor(Math.random() * 3) + 1,
@@ -200,9 +477,11 @@ export function useGolfData() {
           penaltyStrokes: Math.random() > 0.9 ? 1 : 0
         };
 
-        await database.put('holeScores', holeScore);
+        operations.push({ type: 'put', storeName: 'holeScores', value: holeScore });
       }
     }
+
+    await database.batch(operations);
   };
 
   const handleImportCourse = async (apiCourse: any): Promise<Course> => {
@@ -214,7 +493,7 @@ export function useGolfData() {
       }
 
       const course: Course = {
-        id: `course-${Date.now()}`,
+        id: RecordId.create('course'),
         apiId: details.id,
         name: details.name || apiCourse.name,
         location: {
@@ -239,12 +518,11 @@ export function useGolfData() {
         lastModified: Date.now()
       };
 
-      await db!.put('courses', course);
-
-      // Add to sync queue if offline
-      if (!isOnline) {
-        await addToSyncQueue('courses', 'put', course);
-      }
+      await db!.batch([
+        { type: 'put', storeName: 'courses', value: course },
+        ...syncOperations('courses', 'put', [course])
+      ]);
+      if (!isOnline) registerBackgroundSync();
 
       setCourses([...courses, course]);
       return course;
@@ -253,31 +531,6 @@ export function useGolfData() {
     }
   };
 
-  const importCourseFromScorecard = async (course: Course) => {
-    try {
-      const courseId = course.id || `course-${Date.now()}`;
-      const importedCourse: Course = {
-        ...course,
-        id: courseId,
-        imported: true,
-        importDate: new Date().toISOString(),
-        isHomeCourse: courses.length === 0
-      };
-
-      await db!.put('courses', importedCourse);
-
-      // Add to sync queue if offline
-      if (!isOnline) {
-        await addToSyncQueue('courses', 'put', importedCourse);
-      }
-
-      setCourses([...courses, importedCourse]);
-      return importedCourse;
-    } catch (error) {
-      throw error;
-    }
-  };
-
   const setHomeCourse = async (courseId: string) => {
     const updatedCourses = courses.map(c => ({
       ...c,
@@ -291,257 +544,685 @@ export function useGolfData() {
     setCourses(updatedCourses);
   };
 
-  const saveRoundFromScorecard = async (round: Round, courseId: string) => {
-    try {
-      const roundId = round.id || `round-${Date.now()}`;
-      const importedRound: Round = {
-        ...round,
+  // Records for the rounds from one scorecard, one per player in the group, with the operations that write them
+  const buildRounds = (roundsData: any[], selectedCourse: Course) => {
+    const now = Date.now();
+    const groupId = roundsData.length > 1 ? RecordId.create('group') : undefined;
+    const saved = roundsData.map(roundData => {
+      const roundId = RecordId.create('round');
+      // Hole scores and shots live in their own stores rather than on the round record
+      const { shots: roundShots = [], holeScores: _holes, ...roundFields } = roundData;
+      const round: Round = {
         id: roundId,
-        courseId,
-        imported: true,
-        importDate: new Date().toISOString(),
-        completed: true
+        courseId: selectedCourse.id,
+        ...roundFields,
+        playerId: roundFields.playerId || activePlayerId,
+        ...(groupId ? { groupId } : {}),
+        completed: true,
+        // Set for rounds read from a scorecard photo
+        imported: roundFields.imported === true,
+        lastModified: now
       };
 
-      await db!.put('rounds', importedRound);
+      const savedHoles: HoleScore[] = roundData.holeScores.map((hole: any) => ({
+        id: RecordId.create('hole'),
+        roundId,
+        playerId: round.playerId,
+        ...hole
+      }));
+      const savedShots: Shot[] = roundShots.map((shot: any) => ({
+        ...shot,
+        id: RecordId.create('shot'),
+        roundId
+      }));
+      const aggregate = StatsCalculator.buildRoundAggregate(round, savedHoles, selectedCourse, savedShots);
+      return { round, savedHoles, savedShots, aggregate };
+    });
+
+    const operations = saved.reduce((ops: any[], { round, savedHoles, savedShots, aggregate }) => ops.concat([
+      { type: 'put', storeName: 'rounds', value: round },
+      ...savedHoles.map(hole => ({ type: 'put', storeName: 'holeScores', value: hole })),
+      ...savedShots.map(shot => ({ type: 'put', storeName: 'shots', value: shot })),
+      { type: 'put', storeName: 'roundStats', value: aggregate },
+      ...syncOperations('rounds', 'put', [round]),
+      ...syncOperations('holeScores', 'put', savedHoles),
+      ...syncOperations('shots', 'put', savedShots)
+    ]), []);
+    return { saved, operations };
+  };
 
-      // Add to sync queue if offline
-      if (!isOnline) {
-        await addToSyncQueue('rounds', 'put', importedRound);
-      }
+  // Puts rounds written by buildRounds into state
+  const addSavedRounds = async (saved: ReturnType<typeof buildRounds>['saved']) => {
+    saved.forEach(({ aggregate }) => setRoundAggregate(aggregate));
+    saved.forEach(({ round }) => loadedRoundIds.current.add(round.id));
+    setRounds(prev => prev.concat(saved.map(({ round }) => round)));
+    setHoleScores(prev => prev.concat(...saved.map(({ savedHoles }) => savedHoles)));
+    setShots(prev => prev.concat(...saved.map(({ savedShots }) => savedShots)));
+    await refreshCounts(db!);
+  };
 
-      const newRounds = await db!.getAll('rounds') as Round[];
-      setRounds(newRounds);
-      return importedRound;
+  // Saves the rounds from one scorecard, one per player in the group, together or not at all
+  const saveRounds = async (roundsData: any[], selectedCourse: Course) => {
+    try {
+      const { saved, operations } = buildRounds(roundsData, selectedCourse);
+      // The rounds, their holes, shots, cached stats and sync entries are written in one transaction
+      await db!.batch(operations);
+      if (!isOnline) registerBackgroundSync();
+      await addSavedRounds(saved);
     } catch (error) {
       throw error;
     }
   };
 
-  const saveRound = async (roundData: any, selectedCourse: Course) => {
+  // A course read from a scorecard photo, with the round on the card if there was one. Both are written
+  // in one transaction, so a failed round doesn't leave the course behind.
+  const importCourseFromScorecard = async (course: Course, roundData?: any) => {
     try {
-      const roundId = `round-${Date.now()}`;
-      const round: Round = {
-        id: roundId,
-        courseId: selectedCourse.id,
-        ...roundData,
-        completed: true,
-        imported: false,
+      const importedCourse: Course = {
+        ...course,
+        id: course.id || RecordId.create('course'),
+        imported: true,
+        importDate: new Date().toISOString(),
+        isHomeCourse: courses.length === 0,
         lastModified: Date.now()
       };
+      const { saved, operations } = buildRounds(roundData ? [roundData] : [], importedCourse);
 
-      await db!.put('rounds', round);
+      await db!.batch([
+        { type: 'put', storeName: 'courses', value: importedCourse },
+        ...syncOperations('courses', 'put', [importedCourse]),
+        ...operations
+      ]);
+      if (!isOnline) registerBackgroundSync();
 
-      for (const hole of roundData.holeScores) {
-        const holeScore: HoleScore = {
-          id: `hole-${roundId}-${hole.holeNumber}`,
-          roundId,
-          ...hole
-        };
-        await db!.put('holeScores', holeScore);
-      }
+      setCourses(prev => [...prev, importedCourse]);
+      await addSavedRounds(saved);
+      return importedCourse;
+    } catch (error) {
+      throw error;
+    }
+  };
 
-      // Add to sync queue if offline
-      if (!isOnline) {
-        await addToSyncQueue('rounds', 'put', round);
-        for (const hole of roundData.holeScores) {
-          const holeScore: HoleScore = {
-            id: `hole-${roundId}-${hole.holeNumber}`,
-            roundId,
-            ...hole
-          };
-          await addToSyncQueue('holeScores', 'put', holeScore);
-        }
+  // Hole scores, shots and edit history for the given rounds, read from the database
+  const getRoundRecords = async (roundIds: string[]): Promise<TrashRecords> => ({
+    holeScores: await db!.getHoleScoresForRounds(roundIds),
+    shots: await db!.getShotsForRounds(roundIds),
+    roundHistory: await db!.getByRoundIds('roundHistory', roundIds)
+  });
+
+  // Moves the entry's records out of the live stores, so trashed rounds drop out of every stat
+  const moveToTrash = async (entry: TrashEntry) => {
+    const trashedRounds = entry.records.rounds || [];
+    await db!.batch([
+      ...TrashBin.trashOperations(entry),
+      ...trashedRounds.map(round => ({ type: 'delete', storeName: 'roundStats', key: round.id })),
+      ...SYNC_STORES.reduce((ops: any[], storeName) =>
+        ops.concat(syncOperations(storeName, 'delete', entry.records[storeName] || [])), [])
+    ]);
+    if (!isOnline) registerBackgroundSync();
+
+    await loadData(db!);
+    await refreshTrash(db!);
+    return entry.id;
+  };
+
+  // Returns the trash entry id so the delete can be undone
+  const deleteRound = async (roundId: string): Promise<string> => {
+    const round = await db!.get('rounds', roundId) as Round | undefined;
+    if (!round) throw new Error('Round not found');
+
+    const course = courses.find(c => c.id === round.courseId);
+    const label = `${course?.name || 'Unknown course'} · ${new Date(round.date).toLocaleDateString()}`;
+    const records = { rounds: [round], ...(await getRoundRecords([roundId])) };
+    return moveToTrash(TrashBin.createEntry('round', roundId, label, records));
+  };
+
+  // A course goes to the trash together with every round played on it
+  const deleteCourse = async (courseId: string): Promise<string> => {
+    const course = await db!.get('courses', courseId) as Course | undefined;
+    if (!course) throw new Error('Course not found');
+
+    const courseRounds = await db!.getRoundsByCourse(courseId) as Round[];
+    const records = {
+      courses: [course],
+      rounds: courseRounds,
+      ...(await getRoundRecords(courseRounds.map(r => r.id)))
+    };
+    return moveToTrash(TrashBin.createEntry('course', courseId, course.name, records));
+  };
+
+  const restoreFromTrash = async (trashId: string) => {
+    const entry = await db!.get('trash', trashId) as TrashEntry | undefined;
+    if (!entry) throw new Error('This item is no longer in the trash');
+
+    // A round can't come back without its course
+    if (entry.type === 'round') {
+      const round = (entry.records.rounds || [])[0];
+      if (round && !(await db!.get('courses', round.courseId))) {
+        throw new Error('Restore the course for this round first');
       }
+    }
+
+    await db!.batch([
+      ...TrashBin.restoreOperations(entry),
+      ...SYNC_STORES.reduce((ops: any[], storeName) =>
+        ops.concat(syncOperations(storeName, 'put', entry.records[storeName] || [])), [])
+    ]);
+    if (!isOnline) registerBackgroundSync();
+
+    await loadData(db!);
+    await refreshTrash(db!);
+  };
 
-      const newRounds = await db!.getAll('rounds') as Round[];
-      const newHoles = await db!.getAll('holeScores') as HoleScore[];
-      setRounds(newRounds);
-      setHoleScores(newHoles);
+  const deleteFromTrash = async (trashId: string) => {
+    await db!.delete('trash', trashId);
+    await refreshTrash(db!);
+  };
+
+  const emptyTrash = async () => {
+    await db!.batch([{ type: 'clear', storeName: 'trash' }]);
+    setTrashItems([]);
+  };
+
+  const refreshTrash = async (database: GolfDB) => {
+    try {
+      const entries = await database.getAll('trash') as TrashEntry[];
+      setTrashItems(entries.map(entry => TrashBin.summarize(entry)).sort((a, b) => b.deletedAt - a.deletedAt));
     } catch (error) {
-      throw error;
+      console.error('Failed to load trash:', error);
+    }
+  };
+
+  // Entries past their retention period are deleted for good
+  const purgeExpiredTrash = async (database: GolfDB) => {
+    try {
+      await database.batch([{
+        type: 'deleteByIndex',
+        storeName: 'trash',
+        indexName: 'expiresAt',
+        range: IDBKeyRange.upperBound(Date.now())
+      }]);
+    } catch (error) {
+      console.error('Failed to purge expired trash:', error);
     }
   };
 
-  const deleteRound = async (roundId: string) => {
+  // Who made an edit: a stable id for this device plus the name set in Settings
+  const getEditor = async (): Promise<Editor> => {
+    let deviceId = (await db!.get('settings', 'deviceId'))?.value;
+    if (!deviceId) {
+      deviceId = RecordId.create('device');
+      await db!.put('settings', { key: 'deviceId', value: deviceId });
+    }
+    const name = (await db!.get('settings', 'editorName'))?.value;
+    return name ? { deviceId, name } : { deviceId };
+  };
+
+  const updateEditorName = async (name: string) => {
+    setEditorName(name);
+    await db!.put('settings', { key: 'editorName', value: name.trim() });
+  };
+
+  const setActivePlayer = async (playerId: string) => {
+    setActivePlayerId(playerId);
+    await db!.put('settings', { key: 'activePlayerId', value: playerId });
+  };
+
+  const savePlayer = async (player: Player) => {
+    await db!.batch([
+      { type: 'put', storeName: 'players', value: player },
+      ...syncOperations('players', 'put', [player])
+    ]);
+    if (!isOnline) registerBackgroundSync();
+    setPlayers(prev => PlayerProfiles.sort(prev.filter(p => p.id !== player.id).concat(player)));
+  };
+
+  const addPlayer = async (name: string): Promise<Player> => {
+    const problem = PlayerProfiles.checkName(name, players);
+    if (problem) throw new Error(problem);
+    const player = PlayerProfiles.create(name);
+    await savePlayer(player);
+    return player;
+  };
+
+  const renamePlayer = async (playerId: string, name: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) throw new Error('Player not found');
+    const problem = PlayerProfiles.checkName(name, players, playerId);
+    if (problem) throw new Error(problem);
+    await savePlayer({ ...player, name: name.trim(), lastModified: Date.now(), synced: false });
+  };
+
+  // Only a player with no rounds can be removed, so nobody's history is lost with them
+  const deletePlayer = async (playerId: string) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) throw new Error('Player not found');
+    const playerRounds = await db!.getRoundsByPlayer(playerId) as Round[];
+    const trashedRounds = (await db!.getAll('trash') as TrashEntry[])
+      .reduce((list: any[], entry) => list.concat(entry.records.rounds || []), []);
+    const problem = PlayerProfiles.checkDelete(player, players, playerRounds, trashedRounds);
+    if (problem) throw new Error(problem);
+
+    await db!.batch([
+      { type: 'delete', storeName: 'players', key: playerId },
+      ...syncOperations('players', 'delete', [player])
+    ]);
+    if (!isOnline) registerBackgroundSync();
+    const remaining = players.filter(p => p.id !== playerId);
+    setPlayers(remaining);
+    if (activePlayerId === playerId) await setActivePlayer(remaining[0].id);
+  };
+
+  // Hole scores and shots for one round straight from the database, for reopening it in the scorecard
+  const getRoundDetails = async (roundId: string) => {
+    const roundHoles = await db!.getHoleScoresForRound(roundId) as HoleScore[];
+    const roundShots = await db!.getShotsForRounds([roundId]) as Shot[];
+    return { holeScores: roundHoles, shots: roundShots };
+  };
+
+  const getRoundHistory = async (roundId: string): Promise<RoundHistoryEntry[]> => {
+    const entries = await db!.getByIndex('roundHistory', 'roundId', roundId) as RoundHistoryEntry[];
+    return entries.sort((a, b) => b.editedAt - a.editedAt);
+  };
+
+  // Saves an edited round from the scorecard: replaces its holes and shots, rebuilds its cached stats
+  // and records which fields changed, all in one transaction
+  const updateRound = async (roundId: string, roundData: any, selectedCourse: Course) => {
     try {
-      await db!.delete('rounds', roundId);
-      const roundHoles = holeScores.filter(h => h.roundId === roundId);
-      for (const hole of roundHoles) {
-        await db!.delete('holeScores', hole.id);
+      const existing = rounds.find(r => r.id === roundId);
+      if (!existing) {
+        throw new Error('Round not found');
       }
 
-      setRounds(rounds.filter(r => r.id !== roundId));
-      setHoleScores(holeScores.filter(h => h.roundId !== roundId));
+      const before = await getRoundDetails(roundId);
+      const { shots: roundShots = [], holeScores: roundHoles = [], ...roundFields } = roundData;
+      const { holeScores: _staleHoles, ...existingFields } = existing as any;
+      const now = Date.now();
+      const round: Round = {
+        ...existingFields,
+        ...roundFields,
+        id: roundId,
+        courseId: selectedCourse.id,
+        // Keep the original timestamp when only the form's day-only format differs
+        date: (existing.date || '').slice(0, 10) === roundFields.date ? existing.date : roundFields.date,
+        completed: true,
+        lastModified: now,
+        lastEditedAt: now,
+        // A local edit to a record last taken from the server has to go up again
+        synced: false
+      };
+
+      // Holes and shots that are still there keep their ids, so other devices see an update, not a new record
+      const holeIds = new Map(before.holeScores.map(h => [h.holeNumber, h.id] as [number, string]));
+      const shotIds = new Map(before.shots.map(s => [`${s.holeNumber}-${s.shotNumber}`, s.id] as [string, string]));
+      const savedHoles: HoleScore[] = roundHoles.map((hole: any) => ({
+        ...hole,
+        id: holeIds.get(hole.holeNumber) || RecordId.create('hole'),
+        roundId,
+        playerId: round.playerId,
+        synced: false
+      }));
+      const savedShots: Shot[] = roundShots.map((shot: any) => ({
+        ...shot,
+        id: shotIds.get(`${shot.holeNumber}-${shot.shotNumber}`) || RecordId.create('shot'),
+        roundId,
+        synced: false
+      }));
+
+      const changes = RoundChangeLog.diff(existing, before.holeScores, round, savedHoles, before.shots, savedShots);
+      if (changes.length === 0) return existing;
+
+      const entry = RoundChangeLog.createEntry(roundId, changes, await getEditor());
+      const aggregate = StatsCalculator.buildRoundAggregate(round, savedHoles, selectedCourse, savedShots);
+      const savedHoleIds = new Set(savedHoles.map(h => h.id));
+      const savedShotIds = new Set(savedShots.map(s => s.id));
+      const removedHoles = before.holeScores.filter(h => !savedHoleIds.has(h.id));
+      const removedShots = before.shots.filter(s => !savedShotIds.has(s.id));
+
+      await db!.batch([
+        { type: 'put', storeName: 'rounds', value: round },
+        ...removedHoles.map(hole => ({ type: 'delete', storeName: 'holeScores', key: hole.id })),
+        ...removedShots.map(shot => ({ type: 'delete', storeName: 'shots', key: shot.id })),
+        ...savedHoles.map(hole => ({ type: 'put', storeName: 'holeScores', value: hole })),
+        ...savedShots.map(shot => ({ type: 'put', storeName: 'shots', value: shot })),
+        { type: 'put', storeName: 'roundStats', value: aggregate },
+        { type: 'put', storeName: 'roundHistory', value: entry },
+        // Edits are always queued so other devices pick them up, even when made online
+        db!.syncOperation('rounds', 'put', round),
+        ...removedHoles.map(hole => db!.syncOperation('holeScores', 'delete', hole)),
+        ...removedShots.map(shot => db!.syncOperation('shots', 'delete', shot)),
+        ...savedHoles.map(hole => db!.syncOperation('holeScores', 'put', hole)),
+        ...savedShots.map(shot => db!.syncOperation('shots', 'put', shot)),
+        db!.syncOperation('roundHistory', 'put', entry)
+      ]);
+      setRoundAggregate(aggregate);
+      registerBackgroundSync();
+
+      loadedRoundIds.current.add(roundId);
+      setRounds(prev => prev.map(r => (r.id === roundId ? round : r)));
+      setHoleScores(prev => [...prev.filter(h => h.roundId !== roundId), ...savedHoles]);
+      setShots(prev => [...prev.filter(s => s.roundId !== roundId), ...savedShots]);
+      await refreshCounts(db!);
+      return round;
     } catch (error) {
       throw error;
     }
   };
 
-  const exportData = () => {
-    const data = {
-      courses,
-      rounds,
-      holeScores,
-      exportDate: new Date().toISOString()
-    };
+  const updateStatsFilters = async (filters: Filters) => {
+    setStatsFilters(filters);
+    try {
+      await db?.put('settings', { key: 'statsFilters', value: filters });
+    } catch (error) {
+      console.error('Failed to save stats filters:', error);
+    }
+  };
 
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  // Reads everything from the database, since state only holds what the current views needed
+  // With a passphrase the backup is encrypted and saved as its own file type
+  const exportData = async (passphrase?: string) => {
+    const data = BackupSchema.create(await db!.getAllStores() as { [storeName: string]: any[] }, db!.version);
+    const date = new Date().toISOString().split('T')[0];
+
+    const blob = passphrase
+      ? new Blob([JSON.stringify(await BackupCrypto.encrypt(JSON.stringify(data), passphrase))], { type: 'application/octet-stream' })
+      : new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `golf-stats-backup-${new Date().toISOString().split('T')[0]}.json`;
+    a.download = `golf-stats-backup-${date}${passphrase ? ENCRYPTED_EXTENSION : '.json'}`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
-  const importData = async (file: File) => {
+  // Encrypted backups need their passphrase; without one this throws a PassphraseRequiredError
+  const readBackup = async (file: File, passphrase?: string): Promise<BackupData> => {
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
-
-      // Validate data structure
-      if (!data || typeof data !== 'object') {
-        throw new Error('Invalid data format. Expected a JSON object.');
+      let data = JSON.parse(await file.text());
+      if (BackupCrypto.isEncrypted(data)) {
+        if (!passphrase) {
+          const error = new Error('This backup is encrypted. Enter its passphrase to import it.');
+          error.name = 'PassphraseRequiredError';
+          throw error;
+        }
+        data = JSON.parse(await BackupCrypto.decrypt(data, passphrase));
       }
-
-      if (!Array.isArray(data.courses)) {
-        throw new Error('Invalid courses data. Expected an array.');
+      return BackupImport.parse(data);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error('Invalid JSON format. Please check your backup file.');
       }
+      throw error;
+    }
+  };
 
-      if (!Array.isArray(data.rounds)) {
-        throw new Error('Invalid rounds data. Expected an array.');
-      }
+  // Every course and round record on this device, in the same shape as a backup
+  const readAllRecords = async () => ({
+    courses: await db!.getAll('courses'),
+    rounds: await db!.getAll('rounds'),
+    holeScores: await db!.getAll('holeScores'),
+    shots: await db!.getAll('shots'),
+    roundHistory: await db!.getAll('roundHistory')
+  });
+
+  const previewImport = async (backup: BackupData, mode: ImportMode, skipDuplicates: boolean): Promise<ImportPlan> => {
+    // Stores in the backup that this device doesn't have are left out
+    const extraStores = Object.keys(backup.extras).filter(storeName => db!.getStoreNames().indexOf(storeName) !== -1);
+    const existing = { ...(await readAllRecords()), extras: await db!.getAllStores(extraStores) as { [storeName: string]: any[] } };
+    return BackupImport.plan(backup, existing, mode, skipDuplicates);
+  };
 
-      if (!Array.isArray(data.holeScores)) {
-        throw new Error('Invalid hole scores data. Expected an array.');
+  // Applies a previewed import in one transaction. A replace moves the current data to the trash first,
+  // and its trash entry id is returned so it can be undone.
+  const importData = async (plan: ImportPlan): Promise<{ repaired: number; trashId: string | null }> => {
+    await takeSnapshot('before_import');
+    let entry: TrashEntry | null = null;
+    if (plan.mode === 'replace') {
+      const current = await readAllRecords();
+      if (current.courses.length > 0 || current.rounds.length > 0) {
+        entry = TrashBin.createEntry('all', null, 'Replaced by an imported backup', current);
       }
+    }
 
-      // Basic validation for each course
-      for (const course of data.courses) {
-        if (!course.id || !course.name) {
-          throw new Error('Invalid course data. Each course must have an id and name.');
-        }
-      }
+    // Records the backup puts straight back aren't sent to other devices as deletes
+    const putKeys = new Set(plan.puts.map(({ storeName, record }) => `${storeName}:${record.id}`));
+    const removed = entry
+      ? SYNC_STORES.reduce((list: { storeName: string; record: any }[], storeName) =>
+          list.concat((entry!.records[storeName] || []).map(record => ({ storeName, record }))), [])
+      : [];
+
+    await db!.batch([
+      ...(entry ? TrashBin.trashOperations(entry) : []),
+      ...(entry ? (entry.records.rounds || []).map(round => ({ type: 'delete', storeName: 'roundStats', key: round.id })) : []),
+      ...plan.deletes.map(({ storeName, record }) => ({ type: 'delete', storeName, key: record.id })),
+      ...plan.changedRoundIds.map(roundId => ({ type: 'delete', storeName: 'roundStats', key: roundId })),
+      ...plan.puts.map(({ storeName, record }) => ({ type: 'put', storeName, value: record })),
+      ...removed.concat(plan.deletes)
+        .filter(({ storeName, record }) => !putKeys.has(`${storeName}:${record.id}`))
+        .map(({ storeName, record }) => db!.syncOperation(storeName, 'delete', record)),
+      ...plan.puts
+        .filter(({ storeName }) => SYNC_STORES.indexOf(storeName) !== -1)
+        .map(({ storeName, record }) => db!.syncOperation(storeName, 'put', record))
+    ]);
+    if (!isOnline) registerBackgroundSync();
+
+    // Backups can carry the same problems the checker looks for; they're fixed straight away
+    const issues = await checkIntegrity();
+    if (issues.length > 0) {
+      await repairIntegrity(issues);
+    } else {
+      await loadData(db!);
+    }
+    if (entry) await refreshTrash(db!);
+    return { repaired: issues.length, trashId: entry ? entry.id : null };
+  };
 
-      // Basic validation for each round
-      for (const round of data.rounds) {
-        if (!round.id || !round.courseId || typeof round.totalScore !== 'number') {
-          throw new Error('Invalid round data. Each round must have id, courseId, and totalScore.');
-        }
-      }
+  const readIntegrityData = async () => ({ ...(await readAllRecords()), players: await db!.getAll('players') as Player[] });
 
-      // Basic validation for each hole score
-      for (const hole of data.holeScores) {
-        if (!hole.id || !hole.roundId || typeof hole.score !== 'number') {
-          throw new Error('Invalid hole score data. Each hole must have id, roundId, and score.');
-        }
-      }
+  const checkIntegrity = async (): Promise<IntegrityIssue[]> => {
+    return IntegrityChecker.check(await readIntegrityData());
+  };
 
-      for (const course of data.courses) {
-        await db!.put('courses', course);
-      }
-      for (const round of data.rounds) {
-        await db!.put('rounds', round);
-      }
-      for (const hole of data.holeScores) {
-        await db!.put('holeScores', hole);
-      }
+  // Fixes the given issues in one transaction. Rounds whose holes or total changed get their stats rebuilt.
+  const repairIntegrity = async (issues: IntegrityIssue[]) => {
+    const { puts, deletes, changedRoundIds } = IntegrityChecker.repair(await readIntegrityData(), issues);
+    await db!.batch([
+      ...puts.map(({ storeName, record }) => ({ type: 'put', storeName, value: record })),
+      ...deletes.map(({ storeName, record }) => ({ type: 'delete', storeName, key: record.id })),
+      ...changedRoundIds.map(roundId => ({ type: 'delete', storeName: 'roundStats', key: roundId })),
+      ...puts.map(({ storeName, record }) => db!.syncOperation(storeName, 'put', record)),
+      ...deletes.map(({ storeName, record }) => db!.syncOperation(storeName, 'delete', record))
+    ]);
+    if (!isOnline) registerBackgroundSync();
+
+    await loadData(db!);
+  };
+
+  // Everything goes to the trash as one entry, so clearing can be undone too
+  const clearAllData = async (): Promise<string | null> => {
+    const records = await readAllRecords();
+    if (records.courses.length === 0 && records.rounds.length === 0) return null;
 
-      setCourses(data.courses);
-      setRounds(data.rounds);
-      setHoleScores(data.holeScores);
+    await takeSnapshot('before_clear');
+
+    return moveToTrash(TrashBin.createEntry('all', null, 'All courses and rounds', records));
+  };
+
+  const refreshRestorePoints = async (database: GolfDB) => {
+    try {
+      setRestorePoints(await database.listBackups());
     } catch (error) {
-      if (error instanceof SyntaxError) {
-        throw new Error('Invalid JSON format. Please check your backup file.');
-      }
-      throw error;
+      console.error('Failed to load restore points:', error);
     }
   };
 
-  const clearAllData = async () => {
+  // A failed snapshot is logged rather than stopping whatever it was taken before
+  const takeSnapshot = async (reason: SnapshotReason, database: GolfDB = db!) => {
     try {
-      // Clear all data from IndexedDB
-      const allCourses = await db!.getAll('courses');
-      const allRounds = await db!.getAll('rounds');
-      const allHoles = await db!.getAll('holeScores');
+      await database.createSnapshot(reason);
+    } catch (error) {
+      console.error('Failed to take snapshot:', error);
+    }
+    await refreshRestorePoints(database);
+  };
 
-      for (const course of allCourses) {
-        await db!.delete('courses', course.id);
-      }
-      for (const round of allRounds) {
-        await db!.delete('rounds', round.id);
-      }
-      for (const hole of allHoles) {
-        await db!.delete('holeScores', hole.id);
+  const takeScheduledSnapshot = async (database: GolfDB) => {
+    try {
+      if (SnapshotPolicy.isDue(await database.listBackups())) {
+        await takeSnapshot('scheduled', database);
+      } else {
+        await refreshRestorePoints(database);
       }
-
-      setCourses([]);
-      setRounds([]);
-      setHoleScores([]);
     } catch (error) {
-      throw error;
+      console.error('Failed to check snapshots:', error);
     }
   };
 
+  const previewSnapshot = async (snapshotId: string): Promise<SnapshotPreview> => {
+    const snapshot = await db!.getBackup(snapshotId);
+    if (!snapshot) throw new Error('This restore point is no longer available');
+    return SnapshotPolicy.compare(snapshot.data, await readAllRecords());
+  };
+
+  // Rolls every store back to a snapshot. The trash, the sync queue and this device's own settings stay
+  // as they are, and records the rollback changes are queued so it reaches other devices too.
+  const restoreSnapshot = async (snapshotId: string) => {
+    const snapshot = await db!.getBackup(snapshotId);
+    if (!snapshot) throw new Error('This restore point is no longer available');
+
+    await takeSnapshot('before_restore');
+    const current = await db!.getAllStores() as StoreRecords;
+    let data: StoreRecords = snapshot.data;
+    // Snapshots from an older version are rebuilt at that version and brought up to date by the migrations
+    if (snapshot.fromVersion !== db!.version) {
+      await db!.restoreBackup(snapshotId);
+      await db!.init();
+      data = await db!.getAllStores() as StoreRecords;
+    }
+
+    const now = Date.now();
+    const syncOps: any[] = [];
+    const restored: StoreRecords = {};
+    db!.getStoreNames().forEach(storeName => {
+      if (KEPT_ON_RESTORE.indexOf(storeName) !== -1) {
+        restored[storeName] = current[storeName];
+        return;
+      }
+      restored[storeName] = data[storeName] || [];
+      if (SYNC_STORES.indexOf(storeName) === -1) return;
+
+      const currentById = new Map<string, any>();
+      current[storeName].forEach(record => currentById.set(record.id, record));
+      const restoredIds = new Set<string>();
+      restored[storeName] = restored[storeName].map(record => {
+        restoredIds.add(record.id);
+        const existing = currentById.get(record.id);
+        if (existing && JSON.stringify(existing) === JSON.stringify(record)) return record;
+        // Stamped as new so other devices take the rolled-back copy over theirs
+        const changed = { ...record, lastModified: now, synced: false };
+        syncOps.push(db!.syncOperation(storeName, 'put', changed));
+        return changed;
+      });
+      current[storeName]
+        .filter(record => !restoredIds.has(record.id))
+        .forEach(record => syncOps.push(db!.syncOperation(storeName, 'delete', record)));
+    });
+    restored.settings = restored.settings
+      .filter(setting => !BackupSchema.isDeviceSetting(setting.key))
+      .concat(current.settings.filter(setting => BackupSchema.isDeviceSetting(setting.key)));
+
+    await db!.batch([
+      ...Object.keys(restored).map(storeName => ({ type: 'clear', storeName })),
+      ...Object.keys(restored).reduce((ops: any[], storeName) =>
+        ops.concat(restored[storeName].map(record => ({ type: 'put', storeName, value: record }))), []),
+      ...syncOps
+    ]);
+    if (!isOnline) registerBackgroundSync();
+
+    const settingValue = (key: string) => restored.settings.find(setting => setting.key === key)?.value;
+    setEditorName(settingValue('editorName') || '');
+    setStatsFilters(settingValue('statsFilters') || {});
+    await loadData(db!);
+    await refreshTrash(db!);
+    await loadPendingConflicts();
+    await loadSyncQueue();
+    await refreshRestorePoints(db!);
+  };
+
   // Offline sync functions
-  const performSync = async () => {
-    if (!db || !isOnline) return;
+  const performSync = async (): Promise<SyncResult | null> => {
+    if (!db || !navigator.onLine || !syncAdapter.current || syncInProgress.current) return null;
 
+    syncInProgress.current = true;
     try {
       setSyncStatus('syncing');
+      const { deviceId } = await getEditor();
+      const result = await SyncEngine.run(db, syncAdapter.current, deviceId);
 
-      // Get sync queue
-      const syncQueue = await db.getSyncQueue();
-
-      for (const item of syncQueue) {
-        try {
-          await processSyncItem(item);
-          await db.markSyncItemComplete(item.id);
-        } catch (error) {
-          console.error('Failed to sync item:', item.id, error);
-          await db.retrySyncItem(item.id);
-        }
+      if (result.pulled > 0) {
+        await loadData(db);
       }
+      await loadPendingConflicts();
+      await loadSyncQueue();
 
-      // Check for conflicts
-      await checkForConflicts();
-
+      const now = Date.now();
+      await db.put('settings', { key: 'lastSyncedAt', value: now });
+      setLastSyncedAt(now);
+      setSyncError(null);
       setSyncStatus('idle');
+      return result;
     } catch (error) {
       console.error('Sync failed:', error);
+      setSyncError(error instanceof Error ? error.message : 'Sync failed');
       setSyncStatus('error');
+      await loadSyncQueue();
+      return null;
+    } finally {
+      syncInProgress.current = false;
     }
   };
 
-  const processSyncItem = async (item: any) => {
-    // Process different types of sync operations
-    switch (item.operation) {
-      case 'add':
-        // Sync add operation
-        break;
-      case 'put':
-        // Sync put operation
-        break;
-      case 'delete':
-        // Sync delete operation
-        break;
-    }
-  };
-
-  const checkForConflicts = async () => {
+  // Unsent changes for the diagnostics panel, oldest first
+  const loadSyncQueue = async () => {
     if (!db) return;
-
     try {
-      // Fetch remote data and check for conflicts
-      // This would typically involve API calls to get server data
-      const conflicts = await db.getPendingConflicts();
-      setPendingConflicts(conflicts);
+      const queue = await db.getSyncQueue() as SyncQueueItem[];
+      setSyncQueueItems(queue.sort((a, b) => a.timestamp - b.timestamp));
     } catch (error) {
-      console.error('Failed to check conflicts:', error);
+      console.error('Failed to load sync queue:', error);
     }
   };
 
+  // Manual retry: clears the backoff and the retry count, then syncs straight away
+  const retrySyncItem = async (syncId: string) => {
+    await db!.resetSyncItem(syncId);
+    await loadSyncQueue();
+    await performSync();
+  };
+
+  const discardSyncItem = async (syncId: string) => {
+    await db!.removeFromSyncQueue(syncId);
+    await loadSyncQueue();
+  };
+
+  // Pass null to stop syncing. A different server starts from scratch, so the cursor is reset.
+  const updateSyncConfig = async (config: SyncConfig | null) => {
+    const serverChanged = config?.serverUrl !== syncConfig?.serverUrl;
+    await db!.batch([
+      config
+        ? { type: 'put', storeName: 'settings', value: { key: 'syncConfig', value: config } }
+        : { type: 'delete', storeName: 'settings', key: 'syncConfig' },
+      ...(serverChanged
+        ? ['syncCursor', 'syncSnapshotSent'].map(key => ({ type: 'delete', storeName: 'settings', key }))
+        : [])
+    ]);
+
+    syncAdapter.current = config ? new HttpSyncAdapter(config) : null;
+    setSyncConfig(config);
+    setSyncError(null);
+    setSyncStatus('idle');
+  };
+
   const loadPendingConflicts = async () => {
     if (!db) return;
 
@@ -557,10 +1238,25 @@ export function useGolfData() {
     if (!db) return;
 
     try {
+      const stored = await db.get('conflicts', conflictId);
       await db.resolveStoredConflict(conflictId, resolution);
+
+      // The unsent local change is replaced by whatever the resolution kept
+      if (stored?.recordId) {
+        const stale = (await db.getSyncQueue()).filter((item: any) =>
+          item.storeName === stored.storeName && item.data?.id === stored.recordId);
+        const kept = resolution.strategy === 'use_remote' ? null : await db.get(stored.storeName, stored.recordId);
+        await db.batch([
+          ...stale.map((item: any) => ({ type: 'delete', storeName: 'syncQueue', key: item.id })),
+          ...(kept ? [db.syncOperation(stored.storeName, 'put', kept)] : [])
+        ]);
+      }
+
       await loadPendingConflicts();
+      await loadData(db);
     } catch (error) {
       console.error('Failed to resolve conflict:', error);
+      throw error;
     }
   };
 
@@ -572,39 +1268,102 @@ export function useGolfData() {
 
       // If offline, register background sync
       if (!isOnline) {
-        if ('serviceWorker' in navigator) {
-          const registration = await navigator.serviceWorker.ready;
-          if ('sync' in (registration as any)) {
-            await (registration as any).sync.register('sync-golf-data');
-          }
-        }
+        await registerBackgroundSync();
       }
     } catch (error) {
       console.error('Failed to add to sync queue:', error);
     }
   };
 
+  const registerBackgroundSync = async () => {
+    try {
+      if ('serviceWorker' in navigator) {
+        const registration = await navigator.serviceWorker.ready;
+        if ('sync' in (registration as any)) {
+          await (registration as any).sync.register('sync-golf-data');
+        }
+      }
+    } catch (error) {
+      console.error('Failed to register background sync:', error);
+    }
+  };
+
+  // Views only see the active player's rounds, and the holes, shots and cached stats that go with them
+  const playerRounds = useMemo(() => rounds.filter(r => r.playerId === activePlayerId), [rounds, activePlayerId]);
+  const playerRoundIds = useMemo(() => new Set(playerRounds.map(r => r.id)), [playerRounds]);
+  const playerHoleScores = useMemo(() => holeScores.filter(h => playerRoundIds.has(h.roundId)), [holeScores, playerRoundIds]);
+  const playerShots = useMemo(() => shots.filter(s => playerRoundIds.has(s.roundId)), [shots, playerRoundIds]);
+  const playerRoundStats = useMemo(() => roundStats.filter(a => playerRoundIds.has(a.roundId)), [roundStats, playerRoundIds]);
+
+  // Each player's Handicap Index from their own scoring record, for scoring a group
+  const playerHandicaps = useMemo(() => {
+    const indexes: { [playerId: string]: number | null } = {};
+    players.forEach(player => {
+      indexes[player.id] = StatsCalculator.calculateHandicap(rounds.filter(r => r.playerId === player.id), courses);
+    });
+    return indexes;
+  }, [players, rounds, courses]);
+
   return {
     db,
     courses,
-    rounds,
-    holeScores,
+    rounds: playerRounds,
+    holeScores: playerHoleScores,
+    players,
+    activePlayerId,
+    setActivePlayer,
+    addPlayer,
+    renamePlayer,
+    deletePlayer,
+    playerHandicaps,
     api,
     isLoading,
     error,
     isOnline,
     syncStatus,
     pendingConflicts,
+    statsFilters,
+    updateStatsFilters,
+    roundStats: playerRoundStats,
+    shots: playerShots,
+    recordCounts,
+    loadRoundDetails,
+    loadRoundPage,
     handleImportCourse,
     importCourseFromScorecard,
     setHomeCourse,
-    saveRound,
-    saveRoundFromScorecard,
+    saveRounds,
+    updateRound,
+    getRoundDetails,
+    getRoundHistory,
+    editorName,
+    updateEditorName,
     deleteRound,
+    deleteCourse,
+    trashItems,
+    restoreFromTrash,
+    deleteFromTrash,
+    emptyTrash,
     exportData,
+    readBackup,
+    previewImport,
     importData,
+    checkIntegrity,
+    repairIntegrity,
     clearAllData,
+    restorePoints,
+    takeSnapshot,
+    previewSnapshot,
+    restoreSnapshot,
     performSync,
+    syncConfig,
+    updateSyncConfig,
+    lastSyncedAt,
+    syncError,
+    syncQueueItems,
+    loadSyncQueue,
+    retrySyncItem,
+    discardSyncItem,
     resolveConflict,
     addToSyncQueue
   };
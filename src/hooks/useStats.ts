@@ -1,5 +1,7 @@
-import { useMemo } from 'react';
-import StatsCalculator, { type GolfStats } from '../utils/StatsCalculator';
+import { useMemo, useState, useEffect, useRef } from 'react';
+import StatsCalculator, { type GolfStats, type Filters, type RoundAggregate } from '../utils/StatsCalculator';
+import StatsWorkerClient from '../utils/StatsWorkerClient';
+import { type Shot } from '../utils/StrokesGained';
 
 // Type definitions (should be shared, but for now duplicated)
 interface Location {
@@ -43,8 +45,12 @@ interface Round {
   teeBox: string;
   totalScore: number;
   scoreToPar: number;
-  differential: number;
+  differential: number | null;
   completed: boolean;
+  holesPlayed?: number;
+  roundType?: string;
+  tags?: string[];
+  lastModified?: number;
 }
 
 interface HoleScore {
@@ -56,13 +62,59 @@ interface HoleScore {
   fairwayHit: string;
   greenInRegulation: boolean;
   penaltyStrokes: number;
-  sandSave?: boolean;
+  greensideBunker?: boolean | null;
+  upAndDownAttempt?: boolean | null;
+  chipCount?: number | null;
 }
 
-export function useStats(rounds: Round[], holeScores: HoleScore[], courses: Course[]) {
-  const stats: GolfStats = useMemo(() => {
-    return StatsCalculator.calculateAllStats(rounds, holeScores, courses);
-  }, [rounds, holeScores, courses]);
+export function useStats(
+  allRounds: Round[],
+  allHoleScores: HoleScore[],
+  courses: Course[],
+  filters: Filters = {},
+  roundStats: RoundAggregate[] = [],
+  shots: Shot[] = []
+) {
+  // Charts and home course figures use the same filtered data as the stats
+  const { rounds, holeScores } = useMemo(() => {
+    return StatsCalculator.applyFilters(allRounds, allHoleScores, filters);
+  }, [allRounds, allHoleScores, filters]);
+
+  // The index used for course handicaps always comes from the full scoring record
+  const currentHandicapIndex = useMemo(() => {
+    return StatsCalculator.calculateHandicap(allRounds, courses);
+  }, [allRounds, courses]);
+
+  // Heavy stats run in a Web Worker; the last result stays on screen until the next one arrives
+  const workerRef = useRef<StatsWorkerClient | null>(null);
+  const [stats, setStats] = useState<GolfStats>(() => StatsCalculator.getEmptyStats());
+  const [isCalculating, setIsCalculating] = useState(false);
+
+  useEffect(() => {
+    workerRef.current = new StatsWorkerClient();
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const client = workerRef.current;
+    if (!client) {
+      setStats(StatsCalculator.calculateAllStats(rounds, holeScores, courses, {}, roundStats, shots));
+      return;
+    }
+    setIsCalculating(true);
+    client.calculate(rounds, holeScores, courses, {}, roundStats, shots).then(result => {
+      if (cancelled) return;
+      setStats(result);
+      setIsCalculating(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [rounds, holeScores, courses, roundStats, shots]);
 
   // Home course stats
   const homeCourse = courses.find(c => c.isHomeCourse);
@@ -70,21 +122,17 @@ export function useStats(rounds: Round[], holeScores: HoleScore[], courses: Cour
     if (!homeCourse) return null;
 
     const homeRounds = rounds.filter(r => r.courseId === homeCourse.id);
-    const homeHoles = holeScores.filter(h => {
-      const round = rounds.find(r => r.id === h.roundId);
-      return round && round.courseId === homeCourse.id;
-    });
-
-    const holeAverages = StatsCalculator.getHoleAverages(holeScores, rounds, courses, homeCourse.id);
-    const avgScore = StatsCalculator.calculateScoringAverage(homeRounds);
-    const bestScore = homeRounds.length > 0 ? Math.min(...homeRounds.map(r => r.totalScore)) : null;
+    const holeAverages = StatsCalculator.getHoleAverages(roundStats, homeRounds, courses, homeCourse.id);
+    const fullHomeRounds = StatsCalculator.getFullRounds(homeRounds);
+    const avgScore = StatsCalculator.calculateScoringAverage(fullHomeRounds);
+    const bestScore = fullHomeRounds.length > 0 ? Math.min(...fullHomeRounds.map(r => r.totalScore)) : null;
 
-    return { homeRounds, homeHoles, holeAverages, avgScore, bestScore };
-  }, [homeCourse, rounds, holeScores, courses]);
+    return { homeRounds, holeAverages, avgScore, bestScore };
+  }, [homeCourse, rounds, roundStats, courses]);
 
   // Prepare chart data
   const scoreTrendData = useMemo(() => {
-    return rounds
+    return StatsCalculator.getFullRounds(rounds)
       .slice(-15)
       .map((r, i) => ({
         round: i + 1,
@@ -95,60 +143,27 @@ export function useStats(rounds: Round[], holeScores: HoleScore[], courses: Cour
 
   const scoreDistributionData = useMemo(() => {
     return [
-      { name: 'Birdies+', value: stats.distribution.birdiesOrBetter, fill: '#10b981' },
+      { name: 'Eagles+', value: stats.distribution.eagles, fill: '#8b5cf6' },
+      { name: 'Birdies', value: stats.distribution.birdies, fill: '#10b981' },
       { name: 'Pars', value: stats.distribution.pars, fill: '#3b82f6' },
       { name: 'Bogeys', value: stats.distribution.bogeys, fill: '#f59e0b' },
       { name: 'Doubles', value: stats.distribution.doubles, fill: '#ef4444' },
-      { name: 'Others', value: stats.distribution.others, fill: '#6b7280' }
-    ];
+      { name: 'Triples+', value: stats.distribution.triplesPlus, fill: '#6b7280' }
+    ].filter(d => d.value > 0);
   }, [stats.distribution]);
 
   const parTypeData = useMemo(() => {
-    const par3Holes = holeScores.filter(h => {
-      const round = rounds.find(r => r.id === h.roundId);
-      if (!round) return false;
-      const course = courses.find(c => c.id === round.courseId);
-      if (!course) return false;
-      const hole = course.holes?.find(ch => ch.number === h.holeNumber);
-      return hole && hole.par === 3;
-    });
-
-    const par4Holes = holeScores.filter(h => {
-      const round = rounds.find(r => r.id === h.roundId);
-      if (!round) return false;
-      const course = courses.find(c => c.id === round.courseId);
-      if (!course) return false;
-      const hole = course.holes?.find(ch => ch.number === h.holeNumber);
-      return hole && hole.par === 4;
-    });
-
-    const par5Holes = holeScores.filter(h => {
-      const round = rounds.find(r => r.id === h.roundId);
-      if (!round) return false;
-      const course = courses.find(c => c.id === round.courseId);
-      if (!course) return false;
-      const hole = course.holes?.find(ch => ch.number === h.holeNumber);
-      return hole && hole.par === 5;
-    });
-
-    return [
-      {
-        parType: 'Par 3',
-        avgScore: par3Holes.length ? parseFloat((par3Holes.reduce((s, h) => s + h.score, 0) / par3Holes.length).toFixed(2)) : 0,
-        par: 3
-      },
-      {
-        parType: 'Par 4',
-        avgScore: par4Holes.length ? parseFloat((par4Holes.reduce((s, h) => s + h.score, 0) / par4Holes.length).toFixed(2)) : 0,
-        par: 4
-      },
-      {
-        parType: 'Par 5',
-        avgScore: par5Holes.length ? parseFloat((par5Holes.reduce((s, h) => s + h.score, 0) / par5Holes.length).toFixed(2)) : 0,
-        par: 5
-      }
-    ];
-  }, [holeScores, rounds, courses]);
+    return stats.parTypeStats.map(p => ({
+      parType: `Par ${p.par}`,
+      avgScore: parseFloat(p.avgScore.toFixed(2)),
+      par: p.par,
+      holes: p.holes,
+      birdiePct: p.holes ? parseFloat((((p.distribution.eagles + p.distribution.birdies) / p.holes) * 100).toFixed(1)) : 0,
+      parPct: p.holes ? parseFloat(((p.distribution.pars / p.holes) * 100).toFixed(1)) : 0,
+      bogeyPct: p.holes ? parseFloat(((p.distribution.bogeys / p.holes) * 100).toFixed(1)) : 0,
+      doublePlusPct: p.holes ? parseFloat((((p.distribution.doubles + p.distribution.triplesPlus) / p.holes) * 100).toFixed(1)) : 0
+    }));
+  }, [stats.parTypeStats]);
 
   const gameProfileData = useMemo(() => {
     return [
@@ -171,6 +186,10 @@ export function useStats(rounds: Round[], holeScores: HoleScore[], courses: Cour
 
   return {
     stats,
+    isCalculating,
+    currentHandicapIndex,
+    filteredRounds: rounds,
+    filteredHoleScores: holeScores,
     homeCourse,
     homeCourseStats,
     scoreTrendData,
@@ -181,6 +200,7 @@ export function useStats(rounds: Round[], holeScores: HoleScore[], courses: Cour
     // New metrics
     scramblingPct: stats.scramblingPct,
     sandSavePct: stats.sandSavePct,
+    upAndDownPct: stats.upAndDownPct,
     onePuttPct: stats.onePuttPct,
     birdieAvg: stats.birdieAvg,
     bogeyAvoidancePct: stats.bogeyAvoidancePct
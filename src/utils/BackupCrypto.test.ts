@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import BackupCrypto from './BackupCrypto';
+
+const backup = JSON.stringify({ format: 'compu-caddy-backup', version: 3, stores: { rounds: [{ id: 'round-1', totalScore: 82 }] } });
+const passphrase = 'correct horse battery';
+
+describe('BackupCrypto', () => {
+  it('decrypts its own backups with the same passphrase', async () => {
+    const envelope = await BackupCrypto.encrypt(backup, passphrase);
+
+    expect(BackupCrypto.isEncrypted(envelope)).toBe(true);
+    expect(envelope.data).not.toContain('round-1');
+    expect(await BackupCrypto.decrypt(JSON.parse(JSON.stringify(envelope)), passphrase)).toBe(backup);
+  });
+
+  it('refuses a wrong passphrase or a changed header', async () => {
+    const envelope = await BackupCrypto.encrypt(backup, passphrase);
+
+    await expect(BackupCrypto.decrypt(envelope, 'wrong passphrase')).rejects.toThrow('Wrong passphrase');
+    // The iteration count is authenticated along with the ciphertext
+    const changed = { ...envelope, kdf: { ...envelope.kdf, iterations: envelope.kdf.iterations - 1 } };
+    await expect(BackupCrypto.decrypt(changed, passphrase)).rejects.toThrow('Wrong passphrase');
+  });
+
+  it('rejects damaged envelopes before deriving a key', async () => {
+    const envelope = await BackupCrypto.encrypt(backup, passphrase);
+
+    await expect(BackupCrypto.decrypt({ ...envelope, kdf: { ...envelope.kdf, iterations: 1e9 } }, passphrase))
+      .rejects.toThrow('damaged');
+    await expect(BackupCrypto.decrypt({ ...envelope, version: 2 }, passphrase)).rejects.toThrow('newer version');
+  });
+
+  it('needs a passphrase of at least eight characters', async () => {
+    expect(BackupCrypto.checkPassphrase('short')).toBe('Use a passphrase of at least 8 characters');
+    await expect(BackupCrypto.encrypt(backup, 'short')).rejects.toThrow('at least 8 characters');
+  });
+});
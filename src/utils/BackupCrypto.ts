@@ -0,0 +1,127 @@
+// Passphrase-encrypted backups: the backup JSON sealed with AES-GCM under a key derived by PBKDF2.
+// The envelope is itself JSON so importData can tell it apart from a plain backup.
+const ENCRYPTED_FORMAT = 'compu-caddy-encrypted-backup';
+const ENCRYPTED_VERSION = 1;
+const ENCRYPTED_EXTENSION = '.ccbackup';
+const PBKDF2_ITERATIONS = 310000;
+const MAX_PBKDF2_ITERATIONS = 10000000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface EncryptedBackup {
+  format: string;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string; // Base64 ciphertext, including the GCM tag
+}
+
+const namedError = (name: string, message: string) => {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so large backups don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+// Everything but the ciphertext is authenticated too, so a changed salt or iteration count is caught
+const headerBytes = (envelope: EncryptedBackup) =>
+  new TextEncoder().encode(JSON.stringify([envelope.format, envelope.version, envelope.kdf, envelope.cipher]));
+
+const deriveKey = async (passphrase: string, salt: BufferSource, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+class BackupCrypto {
+  static isAvailable(): boolean {
+    return typeof crypto !== 'undefined' && !!crypto.subtle;
+  }
+
+  static isEncrypted(data: any): boolean {
+    return !!data && typeof data === 'object' && data.format === ENCRYPTED_FORMAT;
+  }
+
+  static checkPassphrase(passphrase: string): string | null {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  static async encrypt(plaintext: string, passphrase: string): Promise<EncryptedBackup> {
+    const problem = this.checkPassphrase(passphrase);
+    if (problem) throw new Error(problem);
+
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const envelope: EncryptedBackup = {
+      format: ENCRYPTED_FORMAT,
+      version: ENCRYPTED_VERSION,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+      cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+      data: ''
+    };
+
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: headerBytes(envelope) },
+      key,
+      new TextEncoder().encode(plaintext)
+    );
+    return { ...envelope, data: toBase64(new Uint8Array(ciphertext)) };
+  }
+
+  static async decrypt(envelope: EncryptedBackup, passphrase: string): Promise<string> {
+    if (envelope.version > ENCRYPTED_VERSION) {
+      throw namedError('BackupDecryptError', 'This encrypted backup was made by a newer version of the app. Update the app to import it.');
+    }
+
+    let parts;
+    try {
+      parts = { salt: fromBase64(envelope.kdf.salt), iv: fromBase64(envelope.cipher.iv), data: fromBase64(envelope.data) };
+    } catch (error) {
+      parts = null;
+    }
+    // The iteration count is checked before it's authenticated, so an absurd one can't stall the import
+    const iterations = envelope.kdf?.iterations;
+    if (!parts || envelope.version !== ENCRYPTED_VERSION || !(iterations >= 1 && iterations <= MAX_PBKDF2_ITERATIONS)) {
+      throw namedError('BackupDecryptError', 'This encrypted backup is damaged and cannot be read.');
+    }
+    const { salt, iv, data } = parts;
+
+    const key = await deriveKey(passphrase, salt, iterations);
+    try {
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData: headerBytes(envelope) }, key, data);
+      return new TextDecoder().decode(plaintext);
+    } catch (error) {
+      // GCM can't tell a wrong key from altered data; both fail the same authentication check
+      throw namedError('BackupDecryptError', 'Wrong passphrase, or the file has been changed since it was exported.');
+    }
+  }
+}
+
+export default BackupCrypto;
+export { ENCRYPTED_EXTENSION };
+export type { EncryptedBackup };
@@ -0,0 +1,191 @@
+// Reads backup files and works out what importing one would change, so it can be previewed first
+import BackupSchema from './BackupSchema';
+
+interface StoredRecord {
+  id: string;
+  lastModified?: number;
+  [field: string]: any;
+}
+
+interface Round extends StoredRecord {
+  courseId: string;
+  date: string;
+  totalScore: number;
+}
+
+interface RoundChild extends StoredRecord {
+  roundId: string;
+}
+
+interface BackupData {
+  courses: StoredRecord[];
+  rounds: Round[];
+  holeScores: RoundChild[];
+  shots: RoundChild[];
+  roundHistory: RoundChild[];
+  // Settings, conflicts and any other store, merged by key
+  extras: { [storeName: string]: any[] };
+}
+
+// replace: the backup takes the place of everything on this device (which goes to the trash)
+// merge_skip: only records this device doesn't have are added
+// merge_newest: records on both sides keep whichever copy has the later lastModified
+type ImportMode = 'replace' | 'merge_skip' | 'merge_newest';
+
+interface ImportCounts {
+  added: number;
+  updated: number;
+  skipped: number;
+  removed: number; // Moved to the trash by a replace
+}
+
+// A backup round with its own id that looks like one already saved: same course, same day
+interface DuplicateRound {
+  round: Round;
+  existing: Round;
+}
+
+interface ImportPlan {
+  mode: ImportMode;
+  skipDuplicates: boolean;
+  counts: { courses: ImportCounts; rounds: ImportCounts; other: ImportCounts };
+  duplicates: DuplicateRound[];
+  puts: { storeName: string; record: any }[];
+  deletes: { storeName: string; record: StoredRecord }[];
+  changedRoundIds: string[]; // Rounds whose cached stats need rebuilding
+}
+
+const CHILD_STORES: (keyof BackupData)[] = ['holeScores', 'shots', 'roundHistory'];
+
+const emptyCounts = (): ImportCounts => ({ added: 0, updated: 0, skipped: 0, removed: 0 });
+
+const indexById = <T extends StoredRecord>(records: T[]) => {
+  const byId = new Map<string, T>();
+  records.forEach(record => byId.set(record.id, record));
+  return byId;
+};
+
+const roundKey = (round: Round) => `${round.courseId}|${(round.date || '').slice(0, 10)}`;
+
+class BackupImport {
+  // Reads a parsed backup of any supported version. Every invalid record is reported, not just the first.
+  static parse(data: any): BackupData {
+    const backup = BackupSchema.upgrade(data);
+    const errors = BackupSchema.validate(backup);
+    if (errors.length > 0) {
+      const error = new Error(`The backup has ${errors.length === 1 ? 'an invalid record' : 'invalid records'}`);
+      error.name = 'BackupValidationError';
+      throw Object.assign(error, { recordErrors: errors });
+    }
+
+    const { courses = [], rounds = [], holeScores = [], shots = [], roundHistory = [], ...others } = backup.stores;
+    const extras: { [storeName: string]: any[] } = {};
+    Object.keys(others).forEach(storeName => {
+      extras[storeName] = storeName === 'settings'
+        ? others[storeName].filter(setting => !BackupSchema.isDeviceSetting(setting.key))
+        : others[storeName];
+    });
+    return { courses, rounds, holeScores, shots, roundHistory, extras };
+  }
+
+  static plan(backup: BackupData, existing: BackupData, mode: ImportMode, skipDuplicates: boolean = true): ImportPlan {
+    const plan: ImportPlan = {
+      mode,
+      skipDuplicates,
+      counts: { courses: emptyCounts(), rounds: emptyCounts(), other: emptyCounts() },
+      duplicates: [],
+      puts: [],
+      deletes: [],
+      changedRoundIds: []
+    };
+
+    // After a replace only the backup's own rounds are there to duplicate
+    const local: BackupData = mode === 'replace'
+      ? { courses: [], rounds: [], holeScores: [], shots: [], roundHistory: [], extras: {} }
+      : existing;
+    if (mode === 'replace') {
+      plan.counts.courses.removed = existing.courses.length;
+      plan.counts.rounds.removed = existing.rounds.length;
+    }
+
+    const decide = (record: StoredRecord, current: StoredRecord | undefined): 'add' | 'update' | 'skip' => {
+      if (!current) return 'add';
+      if (mode === 'merge_newest' && (record.lastModified || 0) > (current.lastModified || 0)) return 'update';
+      return 'skip';
+    };
+
+    const localCourses = indexById(local.courses);
+    backup.courses.forEach(course => {
+      const action = decide(course, localCourses.get(course.id));
+      if (action === 'skip') {
+        plan.counts.courses.skipped++;
+        return;
+      }
+      plan.counts.courses[action === 'add' ? 'added' : 'updated']++;
+      plan.puts.push({ storeName: 'courses', record: course });
+    });
+
+    const localRounds = indexById(local.rounds);
+    const roundsByKey = new Map<string, Round>();
+    local.rounds.forEach(round => roundsByKey.set(roundKey(round), round));
+    const importedRoundIds = new Set<string>();
+
+    backup.rounds.forEach(round => {
+      const current = localRounds.get(round.id);
+      const action = decide(round, current);
+      if (action === 'skip') {
+        plan.counts.rounds.skipped++;
+        return;
+      }
+
+      if (action === 'add') {
+        const existingRound = roundsByKey.get(roundKey(round));
+        if (existingRound) {
+          plan.duplicates.push({ round, existing: existingRound });
+          if (skipDuplicates) {
+            plan.counts.rounds.skipped++;
+            return;
+          }
+        }
+        roundsByKey.set(roundKey(round), round);
+      }
+
+      plan.counts.rounds[action === 'add' ? 'added' : 'updated']++;
+      plan.puts.push({ storeName: 'rounds', record: round });
+      importedRoundIds.add(round.id);
+      if (action === 'update') plan.changedRoundIds.push(round.id);
+    });
+
+    // Holes, shots and edit history come along with their round
+    CHILD_STORES.forEach(storeName => {
+      const incoming = (backup[storeName] as RoundChild[]).filter(record => importedRoundIds.has(record.roundId));
+      incoming.forEach(record => plan.puts.push({ storeName, record }));
+
+      // An updated round's holes and shots are the backup's; edit history is only ever added to
+      if (storeName === 'roundHistory') return;
+      const incomingIds = new Set(incoming.map(record => record.id));
+      (local[storeName] as RoundChild[])
+        .filter(record => plan.changedRoundIds.indexOf(record.roundId) !== -1 && !incomingIds.has(record.id))
+        .forEach(record => plan.deletes.push({ storeName, record }));
+    });
+
+    // Only stores this device has are imported. Records it already has are kept, even by a replace.
+    Object.keys(existing.extras).forEach(storeName => {
+      const keyPath = BackupSchema.keyPath(storeName);
+      const localKeys = new Set(existing.extras[storeName].map(record => record[keyPath]));
+      (backup.extras[storeName] || []).forEach(record => {
+        if (localKeys.has(record[keyPath])) {
+          plan.counts.other.skipped++;
+          return;
+        }
+        plan.counts.other.added++;
+        plan.puts.push({ storeName, record });
+      });
+    });
+
+    return plan;
+  }
+}
+
+export default BackupImport;
+export type { BackupData, ImportMode, ImportPlan, ImportCounts, DuplicateRound };
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import BackupSchema, { BACKUP_FORMAT, BACKUP_VERSION } from './BackupSchema';
+import RecordId from './RecordId';
+import { DEFAULT_PLAYER_ID } from './PlayerProfiles';
+
+const playerId = RecordId.create('player');
+const courseId = RecordId.create('course');
+const roundId = RecordId.create('round');
+
+// Records as the scorecard saves them, with the last hole left blank
+const savedStores = () => ({
+  players: [{ id: playerId, name: 'Sam', createdAt: 1, lastModified: 1 }],
+  courses: [{
+    id: courseId,
+    name: 'Test Links',
+    par: 72,
+    courseRating: 71.2,
+    slopeRating: 125,
+    holes: [{ number: 1, par: 4, handicap: 1 }, { number: 2, par: 3, handicap: 2 }],
+    isHomeCourse: false,
+    lastModified: 1
+  }],
+  rounds: [{
+    id: roundId,
+    courseId,
+    playerId,
+    date: '2026-05-01',
+    totalScore: 5,
+    scoreToPar: 1,
+    differential: null,
+    completed: true,
+    roundType: 'casual',
+    tags: [],
+    lastModified: 2
+  }],
+  holeScores: [
+    { id: RecordId.create('hole'), roundId, playerId, holeNumber: 1, score: 5, putts: 2, fairwayHit: 'yes', greenInRegulation: false, penaltyStrokes: 0 },
+    { id: RecordId.create('hole'), roundId, playerId, holeNumber: 2, score: null, putts: null, fairwayHit: 'n/a', greenInRegulation: false, penaltyStrokes: 0 }
+  ],
+  shots: [],
+  roundHistory: [],
+  settings: [{ key: 'editorName', value: 'Sam' }, { key: 'deviceId', value: 'device-1' }],
+  roundStats: [{ roundId }],
+  syncQueue: [],
+  trash: []
+});
+
+describe('BackupSchema', () => {
+  it('validates its own export of a partly scored round', () => {
+    const exported = BackupSchema.create(savedStores(), 8);
+    const reimported = BackupSchema.upgrade(JSON.parse(JSON.stringify(exported)));
+
+    expect(BackupSchema.validate(reimported)).toEqual([]);
+    expect(reimported.stores.holeScores[1].score).toBeNull();
+  });
+
+  it('leaves caches and device settings out of the export', () => {
+    const exported = BackupSchema.create(savedStores(), 8);
+
+    expect(exported.format).toBe(BACKUP_FORMAT);
+    expect(exported.version).toBe(BACKUP_VERSION);
+    expect(Object.keys(exported.stores)).not.toContain('roundStats');
+    expect(Object.keys(exported.stores)).not.toContain('syncQueue');
+    expect(exported.stores.settings).toEqual([{ key: 'editorName', value: 'Sam' }]);
+  });
+
+  it('upgrades a version 1 file to the default player', () => {
+    const legacy = {
+      exportDate: '2024-01-01T00:00:00.000Z',
+      courses: [{ id: 'course-1', name: 'Old Course', par: 72 }],
+      rounds: [{ id: 'round-1', courseId: 'course-1', date: '2024-01-01', totalScore: 80 }],
+      holeScores: [{ id: 'hole-1', roundId: 'round-1', holeNumber: 1, score: 4 }]
+    };
+    const upgraded = BackupSchema.upgrade(legacy);
+    const [round] = upgraded.stores.rounds;
+
+    expect(upgraded.version).toBe(BACKUP_VERSION);
+    expect(RecordId.isCurrent(round.id)).toBe(true);
+    expect(round.courseId).toBe(upgraded.stores.courses[0].id);
+    expect(round.playerId).toBe(DEFAULT_PLAYER_ID);
+    expect(round.roundType).toBe('casual');
+    expect(upgraded.stores.holeScores[0].roundId).toBe(round.id);
+    expect(upgraded.stores.players.map((p: any) => p.id)).toEqual([DEFAULT_PLAYER_ID]);
+    expect(BackupSchema.validate(upgraded)).toEqual([]);
+  });
+
+  it('refuses files it does not understand or from a newer version', () => {
+    expect(() => BackupSchema.upgrade([])).toThrow('Expected a JSON object');
+    expect(() => BackupSchema.upgrade({ hello: 'world' })).toThrow("isn't a Compu-Caddy backup");
+    expect(() => BackupSchema.upgrade({ format: BACKUP_FORMAT, version: BACKUP_VERSION + 1, stores: {} }))
+      .toThrow('newer version');
+  });
+
+  it('reports each bad record', () => {
+    const stores = savedStores();
+    stores.holeScores[0] = { ...stores.holeScores[0], score: 'five' as any };
+    stores.rounds.push({ ...stores.rounds[0] });
+    delete (stores.rounds[1] as any).playerId;
+    const errors = BackupSchema.validate(BackupSchema.create(stores, 8));
+
+    expect(errors.map(BackupSchema.describeError)).toEqual([
+      `rounds #2 (${roundId}): id appears more than once`,
+      `rounds #2 (${roundId}): playerId is missing`,
+      `holeScores #1 (${stores.holeScores[0].id}): score must be a number`
+    ]);
+  });
+});
@@ -0,0 +1,305 @@
+// Versioned backup files: what goes in them, how each record is checked, and how files
+// written by older versions of the app are brought up to the current format.
+// When the data model changes, bump BACKUP_VERSION and add an upgrade step; never edit a released step.
+import RecordId from './RecordId';
+import PlayerProfiles, { DEFAULT_PLAYER_ID } from './PlayerProfiles';
+
+const BACKUP_FORMAT = 'compu-caddy-backup';
+const BACKUP_VERSION = 3;
+
+// Caches rebuilt on load, and this device's own sync queue and trash, stay out of backups
+const EXCLUDED_STORES = ['roundStats', 'syncQueue', 'trash'];
+// Settings that describe this device or its sync connection rather than the player
+const DEVICE_SETTINGS = ['deviceId', 'syncConfig', 'syncCursor', 'syncSnapshotSent', 'lastSyncedAt', 'activePlayerId'];
+// Stores keyed by something other than `id`
+const KEY_PATHS: { [storeName: string]: string } = { settings: 'key' };
+const MAX_REPORTED_ERRORS = 50;
+
+interface BackupFile {
+  format: string;
+  version: number;
+  exportDate: string;
+  databaseVersion?: number;
+  stores: { [storeName: string]: any[] };
+}
+
+interface BackupRecordError {
+  storeName: string;
+  index: number;
+  recordId: string | null;
+  message: string;
+}
+
+type FieldType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
+interface FieldRule {
+  type: FieldType;
+  required?: boolean;
+  nullable?: boolean;
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  oneOf?: any[];
+  date?: boolean;
+  // Extra check for nested values; returns a problem or null
+  check?: (value: any) => string | null;
+}
+
+const checkHoles = (holes: any[]) => {
+  const bad = holes.find(hole =>
+    !hole || typeof hole.number !== 'number' || typeof hole.par !== 'number' || hole.par < 3 || hole.par > 6);
+  return bad ? `hole ${bad?.number ?? '?'} needs a number and a par from 3 to 6` : null;
+};
+
+// Only the fields the app relies on are checked; anything else on a record is carried through untouched
+const RECORD_RULES: { [storeName: string]: { [field: string]: FieldRule } } = {
+  courses: {
+    id: { type: 'string', required: true },
+    name: { type: 'string', required: true },
+    par: { type: 'number', integer: true, min: 18, max: 90 },
+    courseRating: { type: 'number', nullable: true, min: 20, max: 90 },
+    slopeRating: { type: 'number', nullable: true, min: 55, max: 155 },
+    holes: { type: 'array', check: checkHoles },
+    isHomeCourse: { type: 'boolean' },
+    lastModified: { type: 'number', min: 0 }
+  },
+  rounds: {
+    id: { type: 'string', required: true },
+    courseId: { type: 'string', required: true },
+    playerId: { type: 'string', required: true },
+    date: { type: 'string', required: true, date: true },
+    totalScore: { type: 'number', required: true, integer: true, min: 1, max: 300 },
+    scoreToPar: { type: 'number', integer: true, min: -100, max: 300 },
+    differential: { type: 'number', nullable: true, min: -20, max: 100 },
+    completed: { type: 'boolean' },
+    roundType: { type: 'string' },
+    tags: { type: 'array' },
+    sideGame: { type: 'object' },
+    lastModified: { type: 'number', min: 0 }
+  },
+  holeScores: {
+    id: { type: 'string', required: true },
+    roundId: { type: 'string', required: true },
+    playerId: { type: 'string', required: true },
+    holeNumber: { type: 'number', required: true, integer: true, min: 1, max: 36 },
+    // Null for a hole left blank on the scorecard
+    score: { type: 'number', required: true, nullable: true, integer: true, min: 1, max: 30 },
+    putts: { type: 'number', nullable: true, integer: true, min: 0, max: 20 },
+    fairwayHit: { type: 'string', oneOf: ['yes', 'no', 'n/a'] },
+    greenInRegulation: { type: 'boolean' },
+    penaltyStrokes: { type: 'number', nullable: true, integer: true, min: 0, max: 20 }
+  },
+  shots: {
+    id: { type: 'string', required: true },
+    roundId: { type: 'string', required: true },
+    holeNumber: { type: 'number', required: true, integer: true, min: 1, max: 36 },
+    shotNumber: { type: 'number', required: true, integer: true, min: 1, max: 30 },
+    startDistance: { type: 'number', required: true, min: 0, max: 1000 },
+    lie: { type: 'string', required: true, oneOf: ['tee', 'fairway', 'rough', 'sand', 'recovery', 'green'] },
+    result: { type: 'string', required: true, oneOf: ['fairway', 'rough', 'sand', 'recovery', 'green', 'holed', 'penalty'] }
+  },
+  roundHistory: {
+    id: { type: 'string', required: true },
+    roundId: { type: 'string', required: true },
+    editedAt: { type: 'number', required: true, min: 0 },
+    changes: { type: 'array', required: true }
+  },
+  players: {
+    id: { type: 'string', required: true },
+    name: { type: 'string', required: true },
+    createdAt: { type: 'number', min: 0 },
+    lastModified: { type: 'number', min: 0 }
+  },
+  settings: {
+    key: { type: 'string', required: true }
+  },
+  conflicts: {
+    id: { type: 'string', required: true },
+    storeName: { type: 'string', required: true },
+    recordId: { type: 'string' },
+    status: { type: 'string' }
+  }
+};
+
+const typeOf = (value: any): string => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+const checkField = (field: string, rule: FieldRule, value: any): string | null => {
+  if (value === undefined) return rule.required ? `${field} is missing` : null;
+  if (value === null && rule.nullable) return null;
+  if (typeOf(value) !== rule.type || (rule.type === 'number' && !isFinite(value))) {
+    return `${field} must be ${rule.type === 'array' || rule.type === 'object' ? 'an' : 'a'} ${rule.type}`;
+  }
+  if (rule.integer && Math.floor(value) !== value) return `${field} must be a whole number`;
+  if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+    return `${field} must be between ${rule.min} and ${rule.max}, not ${value}`;
+  }
+  if (rule.oneOf && rule.oneOf.indexOf(value) === -1) return `${field} must be one of ${rule.oneOf.join(', ')}`;
+  if (rule.date && isNaN(Date.parse(value))) return `${field} is not a valid date`;
+  if (rule.check) {
+    const problem = rule.check(value);
+    if (problem) return `${field}: ${problem}`;
+  }
+  return null;
+};
+
+// Steps that bring a backup from the version before it up to `version`
+const BACKUP_UPGRADES: { version: number; description: string; upgrade: (backup: any) => any }[] = [
+  {
+    version: 2,
+    description: 'Stores grouped under `stores`, UUID record ids, lastModified and round types',
+    upgrade: (legacy) => {
+      const now = Date.now();
+      const normalizeAll = (storeName: string, records: any) =>
+        (Array.isArray(records) ? records : []).map((record: any) => RecordId.normalize(storeName, record));
+      const rounds = normalizeAll('rounds', legacy.rounds).map((round: any) => ({
+        ...round,
+        lastModified: round.lastModified || Date.parse(round.date) || now,
+        roundType: round.roundType || 'casual',
+        tags: Array.isArray(round.tags) ? round.tags : []
+      }));
+
+      return {
+        format: BACKUP_FORMAT,
+        version: 2,
+        exportDate: legacy.exportDate || new Date(now).toISOString(),
+        stores: {
+          courses: normalizeAll('courses', legacy.courses),
+          rounds,
+          holeScores: normalizeAll('holeScores', legacy.holeScores),
+          // Older backups have no shot data or edit history
+          shots: normalizeAll('shots', legacy.shots),
+          roundHistory: normalizeAll('roundHistory', legacy.roundHistory)
+        }
+      };
+    }
+  },
+  {
+    version: 3,
+    description: 'Rounds and hole scores belong to a player',
+    upgrade: (backup) => {
+      // The same default player the database migration assigns older rounds to
+      const assign = (records: any) =>
+        (Array.isArray(records) ? records : []).map((record: any) =>
+          record && typeof record === 'object' && !record.playerId ? { ...record, playerId: DEFAULT_PLAYER_ID } : record);
+      const players = Array.isArray(backup.stores.players) ? backup.stores.players : [];
+      return {
+        ...backup,
+        version: 3,
+        stores: {
+          ...backup.stores,
+          rounds: assign(backup.stores.rounds),
+          holeScores: assign(backup.stores.holeScores),
+          players: players.some((p: any) => p && p.id === DEFAULT_PLAYER_ID)
+            ? players
+            : players.concat(PlayerProfiles.createDefault())
+        }
+      };
+    }
+  }
+];
+
+class BackupSchema {
+  static keyPath(storeName: string): string {
+    return KEY_PATHS[storeName] || 'id';
+  }
+
+  // Builds the backup file from every store's records
+  static create(stores: { [storeName: string]: any[] }, databaseVersion: number): BackupFile {
+    const included: { [storeName: string]: any[] } = {};
+    Object.keys(stores)
+      .filter(storeName => EXCLUDED_STORES.indexOf(storeName) === -1)
+      .forEach(storeName => {
+        included[storeName] = storeName === 'settings'
+          ? stores[storeName].filter(setting => DEVICE_SETTINGS.indexOf(setting.key) === -1)
+          : stores[storeName];
+      });
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportDate: new Date().toISOString(),
+      databaseVersion,
+      stores: included
+    };
+  }
+
+  // Brings a parsed file of any supported version up to the current format
+  static upgrade(data: any): BackupFile {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('Invalid data format. Expected a JSON object.');
+    }
+
+    let version: number;
+    if (data.format === BACKUP_FORMAT) {
+      version = data.version;
+      if (typeof version !== 'number' || !data.stores || typeof data.stores !== 'object') {
+        throw new Error('This backup file is damaged: its version or stores are missing.');
+      }
+    } else if (Array.isArray(data.courses) && Array.isArray(data.rounds) && Array.isArray(data.holeScores)) {
+      // Files from before backups carried a format name
+      version = 1;
+    } else {
+      throw new Error("This file isn't a Compu-Caddy backup.");
+    }
+
+    if (version > BACKUP_VERSION) {
+      throw new Error('This backup was made by a newer version of the app. Update the app to import it.');
+    }
+
+    return BACKUP_UPGRADES
+      .filter(step => step.version > version)
+      .reduce((backup, step) => step.upgrade(backup), data);
+  }
+
+  // Every problem found, per record, up to a limit
+  static validate(backup: BackupFile): BackupRecordError[] {
+    const errors: BackupRecordError[] = [];
+
+    Object.keys(backup.stores).forEach(storeName => {
+      const records = backup.stores[storeName];
+      if (!Array.isArray(records)) {
+        errors.push({ storeName, index: -1, recordId: null, message: `${storeName} must be a list of records` });
+        return;
+      }
+
+      const rules = RECORD_RULES[storeName] || {};
+      const keyPath = this.keyPath(storeName);
+      const seen = new Set<any>();
+      records.forEach((record, index) => {
+        const recordId = record && typeof record === 'object' && record[keyPath] !== undefined ? String(record[keyPath]) : null;
+        const add = (message: string) => errors.push({ storeName, index, recordId, message });
+
+        if (!record || typeof record !== 'object' || Array.isArray(record)) {
+          add('is not a record');
+          return;
+        }
+        if (record[keyPath] === undefined) {
+          if (!rules[keyPath]) add(`${keyPath} is missing`);
+        } else if (seen.has(record[keyPath])) {
+          add(`${keyPath} appears more than once`);
+        }
+        seen.add(record[keyPath]);
+
+        Object.keys(rules).forEach(field => {
+          const problem = checkField(field, rules[field], record[field]);
+          if (problem) add(problem);
+        });
+      });
+    });
+
+    return errors.slice(0, MAX_REPORTED_ERRORS);
+  }
+
+  static describeError(error: BackupRecordError): string {
+    const where = error.index < 0 ? error.storeName : `${error.storeName} #${error.index + 1}`;
+    return `${where}${error.recordId ? ` (${error.recordId})` : ''}: ${error.message}`;
+  }
+
+  static isDeviceSetting(key: string): boolean {
+    return DEVICE_SETTINGS.indexOf(key) !== -1;
+  }
+}
+
+export default BackupSchema;
+export { BACKUP_FORMAT, BACKUP_VERSION, EXCLUDED_STORES };
+export type { BackupFile, BackupRecordError };
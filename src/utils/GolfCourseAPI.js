@@ -79,7 +79,8 @@ class GolfCourseAPI {
         yardages: {
           championship: i % 3 === 0 ? 180 + i * 5 : i % 3 === 1 ? 380 + i * 10 : 520 + i * 8,
           regular: i % 3 === 0 ? 160 + i * 5 : i % 3 === 1 ? 350 + i * 10 : 480 + i * 8,
-          forward: i % 3 === 0 ? 140 + i * 5 : i % 3 === 1 ? 320 + i * 10 : 440 + i * 8
+          forward: i % 3 === 0 ? 140 + i * 5 : i % 3 === 1 ? 320 + i * 10 : 440 + i * 8,
+          'forward-women': i % 3 === 0 ? 140 + i * 5 : i % 3 === 1 ? 320 + i * 10 : 440 + i * 8
         }
       }));
 
@@ -87,9 +88,10 @@ class GolfCourseAPI {
         id: courseId,
         holes: mockHoles,
         teeBoxes: [
-          { name: 'Championship', rating: 75.5, slope: 145, totalYards: 6828, color: 'black' },
-          { name: 'Regular', rating: 72.0, slope: 130, totalYards: 6200, color: 'blue' },
-          { name: 'Forward', rating: 69.0, slope: 118, totalYards: 5500, color: 'red' }
+          { key: 'championship', name: 'Championship', gender: 'male', rating: 75.5, slope: 145, totalYards: 6828, color: 'black' },
+          { key: 'regular', name: 'Regular', gender: 'male', rating: 72.0, slope: 130, totalYards: 6200, color: 'blue' },
+          { key: 'forward', name: 'Forward', gender: 'male', rating: 69.0, slope: 118, totalYards: 5500, color: 'red' },
+          { key: 'forward-women', name: 'Forward (Women)', gender: 'female', rating: 72.4, slope: 126, totalYards: 5500, color: 'red' }
         ],
         par: mockHoles.reduce((sum, h) => sum + h.par, 0)
       };
@@ -124,52 +126,34 @@ class GolfCourseAPI {
       // Handle different API response structures
       const courseData = data.course || data;
 
-      // Use male tees as primary, fallback to female if not available
-      const primaryTees = courseData.tees?.male || courseData.tees?.female || [];
+      // Import every male and female tee, each with its own holes, yardages and ratings
+      const allTees = [
+        ...(courseData.tees?.male || []).map(tee => ({ ...tee, gender: 'male' })),
+        ...(courseData.tees?.female || []).map(tee => ({ ...tee, gender: 'female' }))
+      ];
 
-      if (primaryTees.length === 0) {
+      if (allTees.length === 0) {
         // No tee information available - return null instead of creating defaults
         console.warn('No tee information available for course');
         return null;
       }
 
-      // Use the first tee as the primary one
-      const primaryTee = primaryTees[0];
-
-      // Transform holes data
-      const holes = primaryTee.holes && primaryTee.holes.length > 0
-        ? primaryTee.holes.map((hole, index) => ({
-            number: index + 1,
-            par: hole.par || 4,
-            handicap: hole.handicap || index + 1,
-            yardages: {
-              championship: hole.yardage || Math.floor((primaryTee.total_yards || 6500) / 18),
-              regular: hole.yardage || Math.floor((primaryTee.total_yards || 6500) / 18),
-              forward: hole.yardage || Math.floor((primaryTee.total_yards || 6500) / 18)
-            }
-          }))
-        : Array.from({ length: 18 }, (_, index) => ({
-            number: index + 1,
-            par: 4, // Default par
-            handicap: index + 1,
-            yardages: {
-              championship: Math.floor((primaryTee.total_yards || 6500) / 18),
-              regular: Math.floor((primaryTee.total_yards || 6500) / 18),
-              forward: Math.floor((primaryTee.total_yards || 6500) / 18)
-            }
-          }));
-
-      // Create tee boxes from available tees
-      const teeBoxes = primaryTees.map(tee => ({
-        name: tee.tee_name,
-        rating: tee.course_rating,
-        slope: tee.slope_rating,
-        totalYards: tee.total_yards,
-        color: this.getTeeColor(tee.tee_name),
-        frontRating: tee.front_course_rating,
-        backRating: tee.back_course_rating,
-        frontSlope: tee.front_slope_rating,
-        backSlope: tee.back_slope_rating
+      const teeBoxes = this.buildTeeBoxes(allTees);
+
+      // Male tees stay primary for the course-level par, stroke index and ratings
+      const primaryTee = allTees[0];
+      const primaryTeeBox = teeBoxes[0];
+
+      // Course holes carry the primary tee's par and stroke index, with a yardage for every tee
+      const holes = primaryTeeBox.holes.map(hole => ({
+        number: hole.number,
+        par: hole.par,
+        handicap: hole.handicap,
+        yardages: teeBoxes.reduce((yardages, tee) => {
+          const teeHole = tee.holes.find(h => h.number === hole.number);
+          if (teeHole) yardages[tee.key] = teeHole.yardage;
+          return yardages;
+        }, {})
       }));
 
       return {
@@ -185,7 +169,7 @@ class GolfCourseAPI {
         },
         holes,
         teeBoxes,
-        par: primaryTee.par_total,
+        par: primaryTee.par_total || primaryTeeBox.par,
         courseRating: primaryTee.course_rating,
         slopeRating: primaryTee.slope_rating,
         bogeyRating: primaryTee.bogey_rating,
@@ -201,6 +185,52 @@ class GolfCourseAPI {
     }
   }
 
+  // Helper method to turn API tees into tee boxes with a unique key per tee
+  buildTeeBoxes(tees) {
+    const usedKeys = {};
+    return tees.map(tee => {
+      const baseKey = `${tee.gender}-${(tee.tee_name || 'tee').toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+      usedKeys[baseKey] = (usedKeys[baseKey] || 0) + 1;
+      const key = usedKeys[baseKey] > 1 ? `${baseKey}-${usedKeys[baseKey]}` : baseKey;
+
+      // The same tee name can exist for men and women with different ratings
+      const sharedName = tees.some(other => other !== tee && other.tee_name === tee.tee_name && other.gender !== tee.gender);
+      const name = sharedName && tee.gender === 'female' ? `${tee.tee_name} (Women)` : tee.tee_name;
+
+      const holeCount = tee.holes && tee.holes.length > 0 ? tee.holes.length : (tee.number_of_holes || 18);
+      const averageYardage = Math.floor((tee.total_yards || 6500) / holeCount);
+      const holes = tee.holes && tee.holes.length > 0
+        ? tee.holes.map((hole, index) => ({
+            number: index + 1,
+            par: hole.par || 4,
+            handicap: hole.handicap || index + 1,
+            yardage: hole.yardage || averageYardage
+          }))
+        : Array.from({ length: holeCount }, (_, index) => ({
+            number: index + 1,
+            par: 4, // Default par
+            handicap: index + 1,
+            yardage: averageYardage
+          }));
+
+      return {
+        key,
+        name,
+        gender: tee.gender,
+        rating: tee.course_rating,
+        slope: tee.slope_rating,
+        par: tee.par_total || holes.reduce((sum, h) => sum + h.par, 0),
+        totalYards: tee.total_yards,
+        color: this.getTeeColor(tee.tee_name),
+        frontRating: tee.front_course_rating,
+        backRating: tee.back_course_rating,
+        frontSlope: tee.front_slope_rating,
+        backSlope: tee.back_slope_rating,
+        holes
+      };
+    });
+  }
+
   // Helper method to map tee names to colors
   getTeeColor(teeName) {
     const colorMap = {
@@ -1,62 +1,324 @@
 // IndexedDB wrapper for offline storage
+import { MIGRATIONS, LATEST_VERSION } from './GolfDBMigrations';
+import RecordId from './RecordId';
+import SnapshotPolicy from './SnapshotPolicy';
+
+const BACKUP_DB_NAME = 'GolfStatsDB-backups';
+const MAX_SYNC_RETRIES = 8;
+const SYNC_BACKOFF_BASE_MS = 30 * 1000;
+const SYNC_BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// 30s, 1m, 2m, 4m... capped at an hour, then scaled down by up to half at random
+const syncBackoff = (retries) => {
+  const delay = Math.min(SYNC_BACKOFF_BASE_MS * Math.pow(2, retries - 1), SYNC_BACKOFF_MAX_MS);
+  return Math.round(delay * (0.5 + Math.random() * 0.5));
+};
+
+// Opens a database, resolving with null instead of creating it when it doesn't exist yet
+const openIfExists = (name) => {
+  return new Promise((resolve, reject) => {
+    let created = false;
+    const request = indexedDB.open(name);
+    request.onupgradeneeded = () => {
+      created = true;
+      request.transaction.abort();
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => (created ? resolve(null) : reject(request.error));
+  });
+};
+
+const requestToPromise = (request) => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx) => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+};
+
+const countRecords = (data) => {
+  const counts = {};
+  Object.keys(data).forEach(storeName => {
+    counts[storeName] = data[storeName].length;
+  });
+  return counts;
+};
+
+const migrationError = (message, details) => {
+  const error = new Error(message);
+  error.name = 'MigrationError';
+  Object.assign(error, details);
+  return error;
+};
+
 class GolfDB {
   constructor() {
     this.dbName = 'GolfStatsDB';
-    this.version = 1;
+    this.version = LATEST_VERSION;
     this.db = null;
   }
 
+  // Backs up the existing data, then opens the latest version and runs any pending migrations
   async init() {
+    const installedVersion = await this.getInstalledVersion();
+    let backupId = null;
+
+    if (installedVersion > 0 && installedVersion < this.version) {
+      try {
+        backupId = await this.backupBeforeUpgrade(installedVersion);
+      } catch (error) {
+        // The upgrade itself is still atomic, so a missing backup doesn't block it
+        console.error('Error backing up before upgrade:', error);
+      }
+    }
+
+    try {
+      this.db = await this.open(this.version);
+      return this.db;
+    } catch (error) {
+      throw await this.recoverFromFailedUpgrade(installedVersion, backupId, error);
+    }
+  }
+
+  // Runs the migrations for versions newer than oldVersion, up to targetVersion, inside the upgrade transaction
+  open(targetVersion) {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, this.version);
+      let migrationFailure = null;
+      const request = indexedDB.open(this.dbName, targetVersion);
 
-      request.onerror = () => reject(request.error);
+      request.onerror = () => reject(migrationFailure || request.error);
+      request.onblocked = () => console.warn('Database upgrade is waiting for other open tabs to close');
       request.onsuccess = () => {
-        this.db = request.result;
-        resolve(this.db);
+        const db = request.result;
+        // Let a newer version open in another tab upgrade instead of blocking it
+        db.onversionchange = () => db.close();
+        resolve(db);
       };
 
       request.onupgradeneeded = (event) => {
-        const db = event.target.result;
-
-        if (!db.objectStoreNames.contains('courses')) {
-          const courseStore = db.createObjectStore('courses', { keyPath: 'id' });
-          courseStore.createIndex('name', 'name', { unique: false });
-          courseStore.createIndex('isHomeCourse', 'isHomeCourse', { unique: false });
-        }
+        const db = request.result;
+        const tx = request.transaction;
+        const steps = MIGRATIONS.filter(m => m.version > event.oldVersion && m.version <= targetVersion);
+
+        // Steps run one after another so each transform sees the previous step's records
+        const runStep = (i) => {
+          if (i >= steps.length) return Promise.resolve();
+          const step = steps[i];
+          try {
+            if (step.upgrade) step.upgrade(db, tx);
+            const transformed = step.transform ? step.transform(tx) : null;
+            return Promise.resolve(transformed)
+              .then(() => runStep(i + 1))
+              .catch(error => Promise.reject(error.migrationVersion ? error : Object.assign(error, { migrationVersion: step.version })));
+          } catch (error) {
+            return Promise.reject(Object.assign(error, { migrationVersion: step.version }));
+          }
+        };
+
+        runStep(0).catch(error => {
+          console.error(`Migration to version ${error.migrationVersion} failed:`, error);
+          migrationFailure = error;
+          // Aborting rolls back every step of this upgrade, leaving the previous version untouched
+          try {
+            tx.abort();
+          } catch (abortError) {
+            // Transaction already finished
+          }
+        });
+      };
+    });
+  }
 
-        if (!db.objectStoreNames.contains('rounds')) {
-          const roundStore = db.createObjectStore('rounds', { keyPath: 'id' });
-          roundStore.createIndex('courseId', 'courseId', { unique: false });
-          roundStore.createIndex('date', 'date', { unique: false });
-        }
+  // Version currently on disk, or 0 when the database hasn't been created
+  async getInstalledVersion() {
+    try {
+      const db = await openIfExists(this.dbName);
+      if (!db) return 0;
+      const version = db.version;
+      db.close();
+      return version;
+    } catch (error) {
+      console.error('Error reading database version:', error);
+      return 0;
+    }
+  }
 
-        if (!db.objectStoreNames.contains('holeScores')) {
-          const holeStore = db.createObjectStore('holeScores', { keyPath: 'id' });
-          holeStore.createIndex('roundId', 'roundId', { unique: false });
+  // Version 2 keeps each backup's records in backupData, so listing backups doesn't read them all
+  async openBackupDB() {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(BACKUP_DB_NAME, 2);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore('backups', { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt', { unique: false });
         }
-
-        if (!db.objectStoreNames.contains('settings')) {
-          db.createObjectStore('settings', { keyPath: 'key' });
+        if (event.oldVersion < 2) {
+          const dataStore = db.createObjectStore('backupData', { keyPath: 'id' });
+          const cursorRequest = request.transaction.objectStore('backups').openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const { data, ...summary } = cursor.value;
+            if (data) {
+              dataStore.put({ id: summary.id, data });
+              cursor.update({ ...summary, counts: summary.counts || countRecords(data) });
+            }
+            cursor.continue();
+          };
         }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
 
-        // New stores for offline features
-        if (!db.objectStoreNames.contains('conflicts')) {
-          const conflictStore = db.createObjectStore('conflicts', { keyPath: 'id' });
-          conflictStore.createIndex('storeName', 'storeName', { unique: false });
-          conflictStore.createIndex('timestamp', 'timestamp', { unique: false });
-        }
+  // Copies every store at the installed version into the backup database
+  async backupBeforeUpgrade(fromVersion) {
+    const source = await this.open(fromVersion);
+    const data = {};
+    try {
+      const storeNames = Array.from(source.objectStoreNames);
+      const tx = source.transaction(storeNames, 'readonly');
+      const records = await Promise.all(storeNames.map(storeName => requestToPromise(tx.objectStore(storeName).getAll())));
+      storeNames.forEach((storeName, i) => {
+        data[storeName] = records[i];
+      });
+    } finally {
+      source.close();
+    }
 
-        if (!db.objectStoreNames.contains('syncQueue')) {
-          const syncStore = db.createObjectStore('syncQueue', { keyPath: 'id' });
-          syncStore.createIndex('storeName', 'storeName', { unique: false });
-          syncStore.createIndex('status', 'status', { unique: false });
-          syncStore.createIndex('timestamp', 'timestamp', { unique: false });
-        }
-      };
+    return this.saveSnapshot({
+      id: `upgrade-${fromVersion}-${this.version}-${Date.now()}`,
+      reason: 'upgrade',
+      fromVersion,
+      toVersion: this.version,
+      createdAt: Date.now(),
+      counts: countRecords(data),
+      data
     });
   }
 
+  // A restore point of every store at the current version, kept by the snapshot retention policy
+  async createSnapshot(reason) {
+    const data = await this.getAllStores();
+    const summary = {
+      id: RecordId.create('snapshot'),
+      reason,
+      fromVersion: this.version,
+      toVersion: this.version,
+      createdAt: Date.now(),
+      counts: countRecords(data)
+    };
+    await this.saveSnapshot({ ...summary, data });
+    return summary;
+  }
+
+  // Stores a snapshot and drops the ones the retention policy no longer keeps, in one transaction
+  async saveSnapshot({ data, ...summary }) {
+    const backupDB = await this.openBackupDB();
+    try {
+      const tx = backupDB.transaction(['backups', 'backupData'], 'readwrite');
+      const store = tx.objectStore('backups');
+      const dataStore = tx.objectStore('backupData');
+      const existing = await requestToPromise(store.getAll());
+      store.put(summary);
+      dataStore.put({ id: summary.id, data });
+      SnapshotPolicy.expired(existing.concat(summary)).forEach(id => {
+        store.delete(id);
+        dataStore.delete(id);
+      });
+      await transactionDone(tx);
+    } finally {
+      backupDB.close();
+    }
+    return summary.id;
+  }
+
+  // A backup with its records, or undefined if it's gone
+  async getBackup(backupId) {
+    const backupDB = await this.openBackupDB();
+    try {
+      const tx = backupDB.transaction(['backups', 'backupData'], 'readonly');
+      const [summary, stored] = await Promise.all([
+        requestToPromise(tx.objectStore('backups').get(backupId)),
+        requestToPromise(tx.objectStore('backupData').get(backupId))
+      ]);
+      return summary && stored ? { ...summary, data: stored.data } : undefined;
+    } finally {
+      backupDB.close();
+    }
+  }
+
+  async listBackups() {
+    const backupDB = await this.openBackupDB();
+    try {
+      const backups = await requestToPromise(backupDB.transaction('backups', 'readonly').objectStore('backups').getAll());
+      return backups.sort((a, b) => b.createdAt - a.createdAt);
+    } finally {
+      backupDB.close();
+    }
+  }
+
+  // Rebuilds the database at the backup's version from its contents. Call init() afterwards to upgrade again.
+  async restoreBackup(backupId) {
+    const backup = await this.getBackup(backupId);
+    if (!backup) throw new Error(`Backup ${backupId} not found`);
+
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+    await requestToPromise(indexedDB.deleteDatabase(this.dbName));
+
+    const db = await this.open(backup.fromVersion);
+    try {
+      const storeNames = Object.keys(backup.data).filter(name => db.objectStoreNames.contains(name));
+      const tx = db.transaction(storeNames, 'readwrite');
+      storeNames.forEach(storeName => {
+        const store = tx.objectStore(storeName);
+        backup.data[storeName].forEach(record => store.put(record));
+      });
+      await transactionDone(tx);
+    } finally {
+      db.close();
+    }
+    return backup;
+  }
+
+  // A failed upgrade normally rolls back on its own. If the database didn't survive at its old
+  // version, it's restored from the backup taken just before the upgrade.
+  async recoverFromFailedUpgrade(fromVersion, backupId, cause) {
+    const details = { fromVersion, toVersion: this.version, backupId, cause, recovery: 'none' };
+    if (fromVersion === 0) {
+      return migrationError(`Could not create the database: ${cause?.message || cause}`, details);
+    }
+
+    try {
+      const currentVersion = await this.getInstalledVersion();
+      if (currentVersion === fromVersion) {
+        details.recovery = 'rolled_back';
+      } else if (backupId) {
+        await this.restoreBackup(backupId);
+        details.recovery = 'restored';
+      }
+    } catch (error) {
+      console.error('Error recovering from failed upgrade:', error);
+    }
+
+    return migrationError(
+      `Database upgrade from version ${fromVersion} to ${this.version} failed: ${cause?.message || cause}`,
+      details
+    );
+  }
+
   async add(storeName, data) {
     const tx = this.db.transaction(storeName, 'readwrite');
     const store = tx.objectStore(storeName);
@@ -97,6 +359,29 @@ class GolfDB {
     });
   }
 
+  getStoreNames() {
+    return Array.from(this.db.objectStoreNames);
+  }
+
+  // Every record of the given stores (all of them by default), read in one transaction so they agree
+  async getAllStores(storeNames = this.getStoreNames()) {
+    const tx = this.db.transaction(storeNames, 'readonly');
+    const records = await Promise.all(storeNames.map(storeName => requestToPromise(tx.objectStore(storeName).getAll())));
+    const data = {};
+    storeNames.forEach((storeName, i) => {
+      data[storeName] = records[i];
+    });
+    return data;
+  }
+
+  // Records for the given keys, in one transaction; missing keys are left out
+  async getMany(storeName, keys) {
+    if (!keys || keys.length === 0) return [];
+    const store = this.db.transaction(storeName, 'readonly').objectStore(storeName);
+    const results = await Promise.all(keys.map(key => requestToPromise(store.get(key))));
+    return results.filter(record => record !== undefined);
+  }
+
   async getByIndex(storeName, indexName, value) {
     const tx = this.db.transaction(storeName, 'readonly');
     const store = tx.objectStore(storeName);
@@ -108,6 +393,122 @@ class GolfDB {
     });
   }
 
+  // Key range covering whole calendar days; dates are stored as ISO strings or YYYY-MM-DD
+  dateRange(startDate, endDate) {
+    const lower = startDate ? startDate.slice(0, 10) : null;
+    const upper = endDate ? `${endDate.slice(0, 10)}\uffff` : null;
+    if (lower && upper) return IDBKeyRange.bound(lower, upper);
+    if (lower) return IDBKeyRange.lowerBound(lower);
+    if (upper) return IDBKeyRange.upperBound(upper);
+    return null;
+  }
+
+  // One page of records in index (or key) order. Pass the returned `next` cursor back as `after`
+  // to continue where the page ended; it's null once there are no more records.
+  async query(storeName, options = {}) {
+    const { indexName = null, range = null, direction = 'next', limit = 50, after = null } = options;
+    const tx = this.db.transaction(storeName, 'readonly');
+    const store = tx.objectStore(storeName);
+    const source = indexName ? store.index(indexName) : store;
+
+    // Where a record sits relative to `after` in the cursor's direction: <0 before, 0 at, >0 past it
+    const sign = direction.startsWith('prev') ? -1 : 1;
+    const position = (cursor) => {
+      const byKey = indexedDB.cmp(cursor.key, after.key);
+      return sign * (byKey !== 0 || !indexName ? byKey : indexedDB.cmp(cursor.primaryKey, after.primaryKey));
+    };
+
+    return new Promise((resolve, reject) => {
+      const items = [];
+      let next = null;
+      let positioned = !after;
+      const request = source.openCursor(range, direction);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve({ items, next: null });
+          return;
+        }
+
+        if (!positioned) {
+          const pos = position(cursor);
+          if (pos < 0) {
+            // Jump straight to where the previous page ended
+            if (indexName) cursor.continuePrimaryKey(after.key, after.primaryKey);
+            else cursor.continue(after.key);
+            return;
+          }
+          positioned = true;
+          if (pos === 0) {
+            cursor.continue();
+            return;
+          }
+        }
+
+        if (items.length === limit) {
+          resolve({ items, next });
+          return;
+        }
+        items.push(cursor.value);
+        next = { key: cursor.key, primaryKey: cursor.primaryKey };
+        cursor.continue();
+      };
+    });
+  }
+
+  async count(storeName, options = {}) {
+    const { indexName = null, range = null } = options;
+    const tx = this.db.transaction(storeName, 'readonly');
+    const store = tx.objectStore(storeName);
+    const source = indexName ? store.index(indexName) : store;
+    return new Promise((resolve, reject) => {
+      const request = range ? source.count(range) : source.count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getRoundsByCourse(courseId) {
+    return this.getByIndex('rounds', 'courseId', courseId);
+  }
+
+  async getRoundsByPlayer(playerId) {
+    return this.getByIndex('rounds', 'playerId', playerId);
+  }
+
+  async getRoundsInRange(startDate, endDate) {
+    const range = this.dateRange(startDate, endDate);
+    return range ? this.getByIndex('rounds', 'date', range) : this.getAll('rounds');
+  }
+
+  async getHoleScoresForRound(roundId) {
+    return this.getByIndex('holeScores', 'roundId', roundId);
+  }
+
+  // Records for several rounds through the roundId index, in one transaction
+  async getByRoundIds(storeName, roundIds) {
+    if (!roundIds || roundIds.length === 0) return [];
+    const index = this.db.transaction(storeName, 'readonly').objectStore(storeName).index('roundId');
+    const results = await Promise.all(roundIds.map(roundId => {
+      return new Promise((resolve, reject) => {
+        const request = index.getAll(roundId);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }));
+    return results.reduce((all, records) => all.concat(records), []);
+  }
+
+  async getHoleScoresForRounds(roundIds) {
+    return this.getByRoundIds('holeScores', roundIds);
+  }
+
+  async getShotsForRounds(roundIds) {
+    return this.getByRoundIds('shots', roundIds);
+  }
+
   async delete(storeName, key) {
     const tx = this.db.transaction(storeName, 'readwrite');
     const store = tx.objectStore(storeName);
@@ -118,9 +519,61 @@ class GolfDB {
     });
   }
 
-  // Conflict resolution methods for multi-device sync
-  async detectConflicts(storeName, remoteData) {
-    const localData = await this.getAll(storeName);
+  // Applies operations across several stores in one transaction, so either all of them land or none do.
+  // Operations: { type: 'put', storeName, value }, { type: 'delete', storeName, key },
+  // { type: 'deleteByIndex', storeName, indexName, value | range } or { type: 'clear', storeName }
+  async batch(operations) {
+    const storeNames = operations
+      .map(op => op.storeName)
+      .filter((name, i, all) => all.indexOf(name) === i);
+    if (storeNames.length === 0) return;
+
+    const tx = this.db.transaction(storeNames, 'readwrite');
+    const done = transactionDone(tx);
+
+    try {
+      operations.forEach(op => {
+        const store = tx.objectStore(op.storeName);
+        switch (op.type) {
+          case 'put':
+            store.put(op.value);
+            break;
+          case 'delete':
+            store.delete(op.key);
+            break;
+          case 'deleteByIndex': {
+            const request = store.index(op.indexName).openKeyCursor(op.range || IDBKeyRange.only(op.value));
+            request.onsuccess = () => {
+              const cursor = request.result;
+              if (!cursor) return;
+              store.delete(cursor.primaryKey);
+              cursor.continue();
+            };
+            break;
+          }
+          case 'clear':
+            store.clear();
+            break;
+          default:
+            throw new Error(`Unknown batch operation: ${op.type}`);
+        }
+      });
+    } catch (error) {
+      tx.abort();
+      done.catch(() => {});
+      throw error;
+    }
+
+    return done;
+  }
+
+  // Conflict resolution methods for multi-device sync.
+  // Compares remote records with their local copies. Incremental pulls only carry changed records, so
+  // local records missing from remoteData are only reported when it's a full snapshot.
+  async detectConflicts(storeName, remoteData, { fullSnapshot = false } = {}) {
+    const localData = fullSnapshot
+      ? await this.getAll(storeName)
+      : await this.getMany(storeName, remoteData.map(item => item.id));
     const conflicts = [];
 
     for (const remoteItem of remoteData) {
@@ -172,7 +625,7 @@ class GolfDB {
     }
 
     // Check for local-only items
-    for (const localItem of localData) {
+    for (const localItem of fullSnapshot ? localData : []) {
       const remoteItem = remoteData.find(item => item.id === localItem.id);
       if (!remoteItem) {
         conflicts.push({
@@ -191,7 +644,8 @@ class GolfDB {
 
     switch (resolution.strategy) {
       case 'use_local':
-        // Keep local version, update timestamp
+        // Keep local version, update timestamp. A local delete stays deleted.
+        if (!local) break;
         await this.put(storeName, {
           ...local,
           lastModified: Date.now(),
@@ -200,7 +654,11 @@ class GolfDB {
         break;
 
       case 'use_remote':
-        // Use remote version
+        // Use remote version; a remote delete removes the local copy
+        if (!remote) {
+          if (local) await this.delete(storeName, local.id);
+          break;
+        }
         await this.put(storeName, {
           ...remote,
           synced: true
@@ -254,16 +712,19 @@ class GolfDB {
 
   async storeConflict(storeName, conflict) {
     // Store unresolved conflicts for manual resolution
+    // One conflict per record: a newer remote change replaces the one waiting for review
+    const record = conflict.local || conflict.remote;
     const conflictData = {
-      id: `conflict-${Date.now()}`,
+      id: `conflict-${storeName}-${record.id}`,
       storeName,
+      recordId: record.id,
       conflict,
       timestamp: Date.now()
     };
 
     // Use a conflicts store if it exists, otherwise create one
     try {
-      await this.add('conflicts', conflictData);
+      await this.put('conflicts', conflictData);
     } catch (error) {
       // Conflicts store doesn't exist, create it
       console.log('Conflicts store not available, conflict stored locally');
@@ -286,17 +747,30 @@ class GolfDB {
     }
   }
 
-  // Data synchronization queue methods
-  async addToSyncQueue(storeName, operation, data) {
-    const syncItem = {
-      id: `sync-${Date.now()}-${Math.random()}`,
+  // Data synchronization queue methods.
+  // Items are 'pending' until pushed, 'failed' while waiting out a backoff after an error, and 'dead'
+  // once they've used up their retries; dead items wait in Settings for a manual retry or discard.
+  createSyncItem(storeName, operation, data) {
+    return {
+      id: RecordId.create('sync'),
       storeName,
       operation, // 'add', 'put', 'delete'
       data,
       timestamp: Date.now(),
       retries: 0,
-      status: 'pending'
+      status: 'pending',
+      nextAttemptAt: 0,
+      lastError: null
     };
+  }
+
+  // Batch operation that queues a change for sync in the same transaction as the change itself
+  syncOperation(storeName, operation, data) {
+    return { type: 'put', storeName: 'syncQueue', value: this.createSyncItem(storeName, operation, data) };
+  }
+
+  async addToSyncQueue(storeName, operation, data) {
+    const syncItem = this.createSyncItem(storeName, operation, data);
 
     try {
       await this.add('syncQueue', syncItem);
@@ -314,26 +788,75 @@ class GolfDB {
     }
   }
 
+  // Items ready to push: pending ones, and failed ones whose backoff has passed
+  async getDueSyncItems(now = Date.now()) {
+    const queue = await this.getSyncQueue();
+    return queue
+      .filter(item => (item.status === 'pending' || item.status === 'failed') && (item.nextAttemptAt || 0) <= now)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  // Pushed items are removed rather than kept around as 'completed'
   async markSyncItemComplete(syncId) {
-    const item = await this.get('syncQueue', syncId);
-    if (item) {
-      item.status = 'completed';
-      await this.put('syncQueue', item);
-    }
+    await this.delete('syncQueue', syncId);
+  }
+
+  async markSyncItemsComplete(syncIds) {
+    await this.batch(syncIds.map(key => ({ type: 'delete', storeName: 'syncQueue', key })));
   }
 
   async removeFromSyncQueue(syncId) {
     await this.delete('syncQueue', syncId);
   }
 
-  async retrySyncItem(syncId) {
+  // Records a failed push: waits exponentially longer between attempts, with jitter so devices that
+  // failed together don't retry together, and gives up after MAX_SYNC_RETRIES
+  async retrySyncItem(syncId, error = null) {
     const item = await this.get('syncQueue', syncId);
     if (item) {
-      item.retries += 1;
-      item.status = 'pending';
+      item.retries = (item.retries || 0) + 1;
+      item.lastError = error ? String(error.message || error) : null;
+      if (item.retries >= MAX_SYNC_RETRIES) {
+        item.status = 'dead';
+        item.nextAttemptAt = null;
+      } else {
+        item.status = 'failed';
+        item.nextAttemptAt = Date.now() + syncBackoff(item.retries);
+      }
       await this.put('syncQueue', item);
     }
   }
+
+  // Manual retry from Settings: back to pending with a fresh set of retries
+  async resetSyncItem(syncId) {
+    const item = await this.get('syncQueue', syncId);
+    if (item) {
+      await this.put('syncQueue', { ...item, status: 'pending', retries: 0, nextAttemptAt: 0, lastError: null });
+    }
+  }
+
+  // Drops completed items left by older versions and collapses several queued changes to one record into
+  // the latest, since only the final state needs to reach the server. Resolves with the number removed.
+  async compactSyncQueue() {
+    const queue = await this.getSyncQueue();
+    const latest = new Map();
+    queue
+      .filter(item => item.status !== 'completed' && item.data && item.data.id !== undefined)
+      .forEach(item => {
+        const key = `${item.storeName}:${item.data.id}`;
+        const current = latest.get(key);
+        if (!current || item.timestamp >= current.timestamp) latest.set(key, item);
+      });
+
+    const removed = queue.filter(item => {
+      if (item.status === 'completed') return true;
+      if (!item.data || item.data.id === undefined) return false;
+      return latest.get(`${item.storeName}:${item.data.id}`) !== item;
+    });
+    await this.batch(removed.map(item => ({ type: 'delete', storeName: 'syncQueue', key: item.id })));
+    return removed.length;
+  }
 }
 
-export default GolfDB;
\ No newline at end of file
+export default GolfDB;
+export { MAX_SYNC_RETRIES };
\ No newline at end of file
@@ -0,0 +1,73 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach } from 'vitest';
+import GolfDB from './GolfDB';
+
+const round = (id: string, date: string, courseId = 'course-1') => ({ id, courseId, date, totalScore: 80 });
+
+// Two rounds share a date, so paging by date has to fall back to the id to know where it stopped
+const rounds = [
+  round('round-a', '2026-01-01'),
+  round('round-b', '2026-01-02T15:30:00.000Z', 'course-2'),
+  round('round-c', '2026-01-03'),
+  round('round-d', '2026-01-03', 'course-2'),
+  round('round-e', '2026-01-04')
+];
+
+let db: GolfDB;
+
+beforeEach(async () => {
+  globalThis.indexedDB = new IDBFactory();
+  db = new GolfDB();
+  await db.init();
+  await db.batch(rounds.map(value => ({ type: 'put', storeName: 'rounds', value })));
+});
+
+const readAllPages = async (options: any) => {
+  const pages: string[][] = [];
+  let after = null;
+  do {
+    const page: any = await db.query('rounds', { ...options, after });
+    pages.push(page.items.map((r: any) => r.id));
+    after = page.next;
+  } while (after);
+  return pages;
+};
+
+describe('GolfDB.query', () => {
+  it('pages through an index in order, continuing after the cursor', async () => {
+    expect(await readAllPages({ indexName: 'date', limit: 2 }))
+      .toEqual([['round-a', 'round-b'], ['round-c', 'round-d'], ['round-e']]);
+  });
+
+  it('pages newest first and within a date range', async () => {
+    expect(await readAllPages({ indexName: 'date', direction: 'prev', limit: 3 }))
+      .toEqual([['round-e', 'round-d', 'round-c'], ['round-b', 'round-a']]);
+    expect(await readAllPages({ indexName: 'date', range: db.dateRange('2026-01-02', '2026-01-03'), limit: 2 }))
+      .toEqual([['round-b', 'round-c'], ['round-d']]);
+  });
+
+  it('carries on past a record deleted since the last page', async () => {
+    const first: any = await db.query('rounds', { indexName: 'date', limit: 3 });
+    await db.delete('rounds', 'round-c');
+
+    const second: any = await db.query('rounds', { indexName: 'date', limit: 3, after: first.next });
+    expect(second.items.map((r: any) => r.id)).toEqual(['round-d', 'round-e']);
+    expect(second.next).toBeNull();
+  });
+});
+
+describe('GolfDB ranges and counts', () => {
+  it('reads rounds in a date range covering whole days', async () => {
+    const inRange = await db.getRoundsInRange('2026-01-02', '2026-01-02T00:00:00.000Z') as any[];
+    expect(inRange.map(r => r.id)).toEqual(['round-b']);
+    expect(await db.getRoundsInRange('2026-01-04', null)).toHaveLength(1);
+    expect(await db.getRoundsInRange(null, null)).toHaveLength(5);
+  });
+
+  it('counts records in an index range', async () => {
+    expect(await db.count('rounds')).toBe(5);
+    expect(await db.count('rounds', { indexName: 'courseId', range: IDBKeyRange.only('course-2') })).toBe(2);
+    expect(await db.count('rounds', { indexName: 'date', range: db.dateRange(null, '2026-01-02') })).toBe(2);
+  });
+});
@@ -0,0 +1,277 @@
+// Ordered schema migrations for GolfDB. Each step runs inside the upgrade transaction:
+// `upgrade` creates or changes stores and indexes, `transform` rewrites existing records.
+// Never edit a released step; add a new one with the next version number instead.
+import RecordId, { RECORD_ID_PREFIXES } from './RecordId';
+import PlayerProfiles, { DEFAULT_PLAYER_ID } from './PlayerProfiles';
+
+// Rewrites every record in a store. The callback returns the new record, null to delete it,
+// or undefined to leave it unchanged. Resolves with the number of records changed.
+export const updateRecords = (transaction, storeName, transform) => {
+  return new Promise((resolve, reject) => {
+    if (!transaction.db.objectStoreNames.contains(storeName)) {
+      resolve(0);
+      return;
+    }
+
+    let changed = 0;
+    const request = transaction.objectStore(storeName).openCursor();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(changed);
+        return;
+      }
+
+      try {
+        const next = transform(cursor.value);
+        if (next === null) {
+          cursor.delete();
+          changed++;
+        } else if (next !== undefined) {
+          cursor.update(next);
+          changed++;
+        }
+        cursor.continue();
+      } catch (error) {
+        reject(error);
+      }
+    };
+  });
+};
+
+// Like updateRecords, for a change that moves records to new keys: the store is read, cleared
+// and written back, since a cursor can't change a record's key. Resolves with the number of records.
+export const rekeyRecords = (transaction, storeName, transform) => {
+  return new Promise((resolve, reject) => {
+    if (!transaction.db.objectStoreNames.contains(storeName)) {
+      resolve(0);
+      return;
+    }
+
+    const store = transaction.objectStore(storeName);
+    const request = store.getAll();
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      try {
+        const records = request.result.map(transform);
+        store.clear();
+        records.forEach(record => store.put(record));
+        resolve(records.length);
+      } catch (error) {
+        reject(error);
+      }
+    };
+  });
+};
+
+const readRecord = (transaction, storeName, key) => {
+  return new Promise((resolve, reject) => {
+    const request = transaction.objectStore(storeName).get(key);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const parseTime = (value) => {
+  const time = Date.parse(value || '');
+  return isNaN(time) ? null : time;
+};
+
+export const MIGRATIONS = [
+  {
+    version: 1,
+    description: 'Core stores',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains('courses')) {
+        const courseStore = db.createObjectStore('courses', { keyPath: 'id' });
+        courseStore.createIndex('name', 'name', { unique: false });
+        courseStore.createIndex('isHomeCourse', 'isHomeCourse', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('rounds')) {
+        const roundStore = db.createObjectStore('rounds', { keyPath: 'id' });
+        roundStore.createIndex('courseId', 'courseId', { unique: false });
+        roundStore.createIndex('date', 'date', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('holeScores')) {
+        const holeStore = db.createObjectStore('holeScores', { keyPath: 'id' });
+        holeStore.createIndex('roundId', 'roundId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('settings')) {
+        db.createObjectStore('settings', { keyPath: 'key' });
+      }
+
+      // Stores for offline features
+      if (!db.objectStoreNames.contains('conflicts')) {
+        const conflictStore = db.createObjectStore('conflicts', { keyPath: 'id' });
+        conflictStore.createIndex('storeName', 'storeName', { unique: false });
+        conflictStore.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('syncQueue')) {
+        const syncStore = db.createObjectStore('syncQueue', { keyPath: 'id' });
+        syncStore.createIndex('storeName', 'storeName', { unique: false });
+        syncStore.createIndex('status', 'status', { unique: false });
+        syncStore.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Cached per-round stat aggregates',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains('roundStats')) {
+        const roundStatsStore = db.createObjectStore('roundStats', { keyPath: 'roundId' });
+        roundStatsStore.createIndex('courseId', 'courseId', { unique: false });
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Optional shot-by-shot data',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains('shots')) {
+        const shotStore = db.createObjectStore('shots', { keyPath: 'id' });
+        shotStore.createIndex('roundId', 'roundId', { unique: false });
+      }
+    }
+  },
+  {
+    version: 4,
+    description: 'Backfill lastModified and round type on existing records',
+    transform: async (transaction) => {
+      const now = Date.now();
+
+      await updateRecords(transaction, 'courses', (course) => {
+        if (course.lastModified) return undefined;
+        return { ...course, lastModified: parseTime(course.importDate) || now };
+      });
+
+      // Rounds saved before round types existed were casual rounds with no tags
+      await updateRecords(transaction, 'rounds', (round) => {
+        if (round.lastModified && round.roundType && Array.isArray(round.tags)) return undefined;
+        return {
+          ...round,
+          lastModified: round.lastModified || parseTime(round.date) || now,
+          roundType: round.roundType || 'casual',
+          tags: Array.isArray(round.tags) ? round.tags : []
+        };
+      });
+    }
+  },
+  {
+    version: 5,
+    description: 'Change history for edited rounds',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains('roundHistory')) {
+        const historyStore = db.createObjectStore('roundHistory', { keyPath: 'id' });
+        historyStore.createIndex('roundId', 'roundId', { unique: false });
+        historyStore.createIndex('editedAt', 'editedAt', { unique: false });
+      }
+    }
+  },
+  {
+    version: 6,
+    description: 'Trash for deleted rounds and courses',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains('trash')) {
+        const trashStore = db.createObjectStore('trash', { keyPath: 'id' });
+        trashStore.createIndex('type', 'type', { unique: false });
+        trashStore.createIndex('deletedAt', 'deletedAt', { unique: false });
+        trashStore.createIndex('expiresAt', 'expiresAt', { unique: false });
+      }
+    }
+  },
+  {
+    version: 7,
+    description: 'UUID record ids in place of timestamp ids',
+    transform: async (transaction) => {
+      const normalizeAll = (records) => {
+        const next = {};
+        Object.keys(records || {}).forEach(storeName => {
+          next[storeName] = (records[storeName] || []).map(record => RecordId.normalize(storeName, record));
+        });
+        return next;
+      };
+
+      for (const storeName of Object.keys(RECORD_ID_PREFIXES).concat('roundStats')) {
+        await rekeyRecords(transaction, storeName, record => RecordId.normalize(storeName, record));
+      }
+
+      await updateRecords(transaction, 'trash', (entry) => ({
+        ...entry,
+        itemId: entry.type === 'all' ? entry.itemId : RecordId.fromLegacy(entry.type, entry.itemId),
+        records: normalizeAll(entry.records)
+      }));
+
+      await updateRecords(transaction, 'syncQueue', (item) => {
+        if (!RecordId.needsMigration(item.storeName, item.data)) return undefined;
+        return { ...item, data: RecordId.normalize(item.storeName, item.data) };
+      });
+
+      await rekeyRecords(transaction, 'conflicts', (conflict) => {
+        const recordId = RecordId.fromLegacy(RECORD_ID_PREFIXES[conflict.storeName] || '', conflict.recordId);
+        return {
+          ...conflict,
+          id: `conflict-${conflict.storeName}-${recordId}`,
+          recordId,
+          local: conflict.local ? RecordId.normalize(conflict.storeName, conflict.local) : conflict.local,
+          remote: conflict.remote ? RecordId.normalize(conflict.storeName, conflict.remote) : conflict.remote
+        };
+      });
+
+      // The saved stats filter can point at a course by id
+      await updateRecords(transaction, 'settings', (setting) => {
+        if (setting.key !== 'statsFilters' || !setting.value?.courseId) return undefined;
+        return { ...setting, value: { ...setting.value, courseId: RecordId.fromLegacy('course', setting.value.courseId) } };
+      });
+    }
+  },
+  {
+    version: 8,
+    description: 'Player profiles; existing rounds and hole scores belong to a default player',
+    upgrade: (db, transaction) => {
+      if (!db.objectStoreNames.contains('players')) {
+        const playerStore = db.createObjectStore('players', { keyPath: 'id' });
+        playerStore.createIndex('name', 'name', { unique: false });
+      }
+      ['rounds', 'holeScores'].forEach(storeName => {
+        const store = transaction.objectStore(storeName);
+        if (!store.indexNames.contains('playerId')) {
+          store.createIndex('playerId', 'playerId', { unique: false });
+        }
+      });
+    },
+    transform: async (transaction) => {
+      // The name set for edit history is the best guess at who has been using the app
+      const editorName = (await readRecord(transaction, 'settings', 'editorName'))?.value;
+      if (!(await readRecord(transaction, 'players', DEFAULT_PLAYER_ID))) {
+        transaction.objectStore('players').put(PlayerProfiles.createDefault(editorName));
+      }
+
+      const assign = (record) => (record.playerId ? undefined : { ...record, playerId: DEFAULT_PLAYER_ID });
+      const assignAll = (records) => (records || []).map(record => assign(record) || record);
+      await updateRecords(transaction, 'rounds', assign);
+      await updateRecords(transaction, 'holeScores', assign);
+
+      await updateRecords(transaction, 'trash', (entry) => ({
+        ...entry,
+        records: {
+          ...entry.records,
+          rounds: assignAll(entry.records?.rounds),
+          holeScores: assignAll(entry.records?.holeScores)
+        }
+      }));
+
+      await updateRecords(transaction, 'syncQueue', (item) => {
+        if ((item.storeName !== 'rounds' && item.storeName !== 'holeScores') || !item.data || item.data.playerId) return undefined;
+        return { ...item, data: { ...item.data, playerId: DEFAULT_PLAYER_ID } };
+      });
+    }
+  }
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
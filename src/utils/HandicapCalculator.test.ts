@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import HandicapCalculator from './HandicapCalculator';
+
+const record = (differentials: number[]) => differentials.map((differential, i) => ({
+  roundId: `round-${i}`,
+  roundIds: [`round-${i}`],
+  date: '2026-01-01',
+  differential,
+  exceptionalScoreReduction: 0
+}));
+
+// Rated 72.0 / 113, so each differential is the score minus 72
+const course = { id: 'course-1', par: 72, courseRating: 72, slopeRating: 113 };
+const round = (id: string, date: string, totalScore: number, fields: any = {}) => ({
+  id,
+  courseId: 'course-1',
+  date,
+  teeBox: 'White',
+  totalScore,
+  differential: null,
+  completed: true,
+  ...fields
+});
+
+describe('HandicapCalculator differentials and course handicaps', () => {
+  it('computes score differentials to the tenth', () => {
+    expect(HandicapCalculator.calculateScoreDifferential(90, 72.0, 130)).toBe(15.6);
+    expect(HandicapCalculator.calculateScoreDifferential(90, undefined, 130)).toBeNull();
+  });
+
+  it('rounds halves away from zero', () => {
+    expect(HandicapCalculator.roundToTenth(1.25)).toBe(1.3);
+    expect(HandicapCalculator.roundToTenth(-1.25)).toBe(-1.3);
+  });
+
+  it('works out course and playing handicaps', () => {
+    expect(HandicapCalculator.calculateCourseHandicap(10.4, 125, 71.3, 72)).toBe(11);
+    expect(HandicapCalculator.calculateNineHoleCourseHandicap(10.4, 125, 35.6, 36)).toBe(5);
+    expect(HandicapCalculator.calculatePlayingHandicap(11, 85)).toBe(9);
+    expect(HandicapCalculator.calculateCourseHandicap(null, 125, 71.3, 72)).toBeNull();
+  });
+
+  it('gives strokes on the hardest holes and plus strokes back on the easiest', () => {
+    const holes = [1, 2, 3].map(number => ({ number, par: 4, handicap: number }));
+    expect(HandicapCalculator.getStrokesReceived(4, holes)).toEqual({ 1: 2, 2: 1, 3: 1 });
+    expect(HandicapCalculator.getStrokesReceived(-1, holes)).toEqual({ 1: 0, 2: 0, 3: -1 });
+  });
+
+  it('formats plus handicaps with a leading plus', () => {
+    expect(HandicapCalculator.formatHandicapIndex(-1.2)).toBe('+1.2');
+    expect(HandicapCalculator.formatHandicapIndex(8)).toBe('8.0');
+    expect(HandicapCalculator.formatHandicapIndex(null)).toBe('N/A');
+  });
+});
+
+describe('HandicapCalculator.applyNetDoubleBogey', () => {
+  const holes = [1, 2, 3, 4].map(number => ({ number, par: 4, handicap: number }));
+  const scores = (values: (number | null)[]) =>
+    values.map((score, i): { holeNumber: number; score: number | null; adjustedScore?: number | null } => ({ holeNumber: i + 1, score }));
+
+  it('caps each hole at net double bogey', () => {
+    const result = HandicapCalculator.applyNetDoubleBogey(scores([9, 8, 4, 4]), holes, 1);
+
+    // Hole 1 gets the one stroke, so its cap is 7; hole 2's is 6
+    expect(result.cappedHoles).toEqual([1, 2]);
+    expect(result.adjustedGrossScore).toBe(7 + 6 + 4 + 4);
+  });
+
+  it('counts blank holes at net par instead of nothing', () => {
+    const result = HandicapCalculator.applyNetDoubleBogey(scores([5, null, 4, null]), holes, 2);
+
+    expect(result.unplayedHoles).toEqual([2, 4]);
+    expect(result.holeScores.map(h => h.adjustedScore)).toEqual([5, 5, 4, 4]);
+    expect(result.adjustedGrossScore).toBe(18);
+  });
+
+  it('counts blank holes at par without a handicap', () => {
+    expect(HandicapCalculator.applyNetDoubleBogey(scores([null, null, null, null]), holes, null).adjustedGrossScore).toBe(16);
+  });
+});
+
+describe('HandicapCalculator scoring record (Rule 5.2a)', () => {
+  it('needs three scores', () => {
+    expect(HandicapCalculator.calculateIndexFromRecord(record([10, 12]))).toBeNull();
+  });
+
+  it('uses the lowest differentials and adjustment for the size of the record', () => {
+    expect(HandicapCalculator.calculateIndexFromRecord(record([10, 12, 14]))).toBe(8.0);
+    expect(HandicapCalculator.calculateIndexFromRecord(record([10, 12, 14, 16]))).toBe(9.0);
+    expect(HandicapCalculator.calculateIndexFromRecord(record([10, 12, 14, 16, 18, 20]))).toBe(10.0);
+    expect(HandicapCalculator.calculateIndexFromRecord(record([10, 12, 14, 16, 18, 20, 22, 24, 26]))).toBe(12.0);
+    // Best 8 of 20: 1..8 averages 4.5
+    expect(HandicapCalculator.calculateIndexFromRecord(record(Array.from({ length: 20 }, (_, i) => 20 - i)))).toBe(4.5);
+  });
+
+  it('counts exceptional score reductions and never goes above 54.0', () => {
+    const reduced = record([10, 12, 14]);
+    reduced[0].exceptionalScoreReduction = -1;
+    expect(HandicapCalculator.calculateIndexFromRecord(reduced)).toBe(7.0);
+    expect(HandicapCalculator.calculateIndexFromRecord(record([60, 60, 60]))).toBe(54.0);
+  });
+});
+
+describe('HandicapCalculator caps and exceptional scores', () => {
+  it('soft caps increases over 3.0 and hard caps at 5.0 (Rule 5.8)', () => {
+    expect(HandicapCalculator.applyCaps(12.0, 10.0)).toEqual({ index: 12.0, cap: 'none' });
+    expect(HandicapCalculator.applyCaps(15.0, 10.0)).toEqual({ index: 14.0, cap: 'soft' });
+    expect(HandicapCalculator.applyCaps(20.0, 10.0)).toEqual({ index: 15.0, cap: 'hard' });
+    expect(HandicapCalculator.applyCaps(20.0, null)).toEqual({ index: 20.0, cap: 'none' });
+  });
+
+  it('reduces exceptional scores by one or two (Rule 5.9)', () => {
+    expect(HandicapCalculator.getExceptionalScoreReduction(13.1, 20.0)).toBe(0);
+    expect(HandicapCalculator.getExceptionalScoreReduction(13.0, 20.0)).toBe(-1);
+    expect(HandicapCalculator.getExceptionalScoreReduction(10.0, 20.0)).toBe(-2);
+    expect(HandicapCalculator.getExceptionalScoreReduction(0, null)).toBe(0);
+  });
+});
+
+describe('HandicapCalculator.calculateHandicapIndex', () => {
+  it('builds the index from rounds in date order', () => {
+    const result = HandicapCalculator.calculateHandicapIndex([
+      round('round-c', '2026-03-01', 86),
+      round('round-a', '2026-01-01', 82),
+      round('round-b', '2026-02-01', 84)
+    ], [course]);
+
+    expect(result.handicapIndex).toBe(8.0);
+    expect(result.history.map(h => h.roundId)).toEqual(['round-a', 'round-b', 'round-c']);
+    expect(result.history.map(h => h.handicapIndex)).toEqual([null, null, 8.0]);
+    expect(result.countingRoundIds).toEqual(['round-a']);
+  });
+
+  it('combines nine-hole rounds into one entry', () => {
+    const result = HandicapCalculator.calculateHandicapIndex([
+      round('round-a', '2026-01-01', 82),
+      round('round-b', '2026-02-01', 84),
+      round('nine-1', '2026-03-01', 41, { holesPlayed: 9, courseRating: 36, slopeRating: 113 }),
+      round('nine-2', '2026-03-08', 43, { holesPlayed: 9, courseRating: 36, slopeRating: 113 })
+    ], [course]);
+
+    expect(result.scoreRecord).toHaveLength(3);
+    expect(result.scoreRecord[2]).toMatchObject({ roundIds: ['nine-1', 'nine-2'], differential: 12 });
+    expect(result.handicapIndex).toBe(8.0);
+  });
+
+  it('needs 14 of 18 or 7 of 9 holes scored (Rule 5.1)', () => {
+    expect(HandicapCalculator.isAcceptableScore(14, 18)).toBe(true);
+    expect(HandicapCalculator.isAcceptableScore(13, 18)).toBe(false);
+    expect(HandicapCalculator.isAcceptableScore(7, 9)).toBe(true);
+    expect(HandicapCalculator.isAcceptableScore(6, 9)).toBe(false);
+    expect(HandicapCalculator.isAcceptableScore(0, 0)).toBe(false);
+  });
+
+  it('posts a partly blank card at net par, or leaves it out when too few holes were played', () => {
+    const holes = Array.from({ length: 18 }, (_, i) => ({ number: i + 1, par: 4, handicap: i + 1 }));
+    const card = (scored: number) => holes.map(h => ({ holeNumber: h.number, score: h.number <= scored ? 5 : null }));
+
+    // 14 bogeys, and four blanks at net par: a course handicap of 18 gives a stroke on every hole
+    const fourBlank = HandicapCalculator.applyNetDoubleBogey(card(14), holes, 18);
+    expect(HandicapCalculator.isAcceptableScore(18 - fourBlank.unplayedHoles.length, 18)).toBe(true);
+    expect(fourBlank.adjustedGrossScore).toBe(14 * 5 + 4 * 5);
+
+    const allBlank = HandicapCalculator.applyNetDoubleBogey(card(0), holes, 18);
+    expect(HandicapCalculator.isAcceptableScore(18 - allBlank.unplayedHoles.length, 18)).toBe(false);
+
+    // Saved without an adjusted gross score, the blank card stays out of the index and triggers no ESR
+    const result = HandicapCalculator.calculateHandicapIndex([
+      round('round-a', '2026-01-01', 82),
+      round('round-b', '2026-02-01', 84),
+      round('round-c', '2026-03-01', 86),
+      round('blank', '2026-04-01', 0, { adjustedGrossScore: null })
+    ], [course]);
+    expect(result.scoreRecord.map(e => e.roundId)).toEqual(['round-a', 'round-b', 'round-c']);
+    expect(result.history.every(h => h.exceptionalScoreReduction === 0)).toBe(true);
+    expect(result.handicapIndex).toBe(8.0);
+  });
+
+  it('skips rounds with no rating and incomplete rounds', () => {
+    const result = HandicapCalculator.calculateHandicapIndex([
+      round('round-a', '2026-01-01', 82),
+      round('round-b', '2026-02-01', 84),
+      round('round-c', '2026-03-01', 86, { completed: false }),
+      { ...round('round-d', '2026-04-01', 86), courseId: 'unrated' }
+    ], [course]);
+
+    expect(result.handicapIndex).toBeNull();
+    expect(result.scoreRecord).toHaveLength(2);
+  });
+});
@@ -0,0 +1,493 @@
+// World Handicap System (WHS) calculations
+interface TeeBox {
+  key?: string;
+  name: string;
+  rating?: number;
+  slope?: number;
+  frontRating?: number;
+  backRating?: number;
+  frontSlope?: number;
+  backSlope?: number;
+  holes?: Hole[]; // The tee's own par and stroke index, where they differ from the course's
+}
+
+interface Hole {
+  number: number;
+  par: number;
+  handicap: number;
+}
+
+interface Course {
+  id: string;
+  holes?: Hole[];
+  teeBoxes?: TeeBox[];
+  par?: number;
+  courseRating?: number;
+  slopeRating?: number;
+  frontNineRating?: number;
+  backNineRating?: number;
+}
+
+interface Round {
+  id: string;
+  courseId: string;
+  date: string;
+  teeBox: string;
+  teeKey?: string;
+  courseRating?: number;
+  slopeRating?: number;
+  totalScore: number;
+  adjustedGrossScore?: number | null; // Null when too few holes were played for the score to count
+  courseHandicap?: number | null;
+  differential: number | null;
+  completed: boolean;
+  holesPlayed?: number;
+  holeNumbers?: number[];
+}
+
+interface HoleScore {
+  holeNumber: number;
+  score: number | null;
+  adjustedScore?: number | null;
+}
+
+interface ScoreRecordEntry {
+  roundId: string;
+  roundIds: string[];
+  date: string;
+  differential: number;
+  exceptionalScoreReduction: number;
+}
+
+interface HandicapRevision {
+  roundId: string;
+  roundIds: string[];
+  date: string;
+  differential: number;
+  handicapIndex: number | null;
+  lowHandicapIndex: number | null;
+  cap: 'none' | 'soft' | 'hard';
+  exceptionalScoreReduction: number;
+}
+
+interface HandicapResult {
+  handicapIndex: number | null;
+  lowHandicapIndex: number | null;
+  scoreRecord: ScoreRecordEntry[];
+  countingRoundIds: string[];
+  history: HandicapRevision[];
+}
+
+// Rule 5.2a: differentials used and adjustment when fewer than 20 scores are on record
+const SCORES_TO_USE: { [scores: number]: { count: number; adjustment: number } } = {
+  3: { count: 1, adjustment: -2.0 },
+  4: { count: 1, adjustment: -1.0 },
+  5: { count: 1, adjustment: 0 },
+  6: { count: 2, adjustment: -1.0 },
+  7: { count: 2, adjustment: 0 },
+  8: { count: 2, adjustment: 0 },
+  9: { count: 3, adjustment: 0 },
+  10: { count: 3, adjustment: 0 },
+  11: { count: 3, adjustment: 0 },
+  12: { count: 4, adjustment: 0 },
+  13: { count: 4, adjustment: 0 },
+  14: { count: 4, adjustment: 0 },
+  15: { count: 5, adjustment: 0 },
+  16: { count: 5, adjustment: 0 },
+  17: { count: 6, adjustment: 0 },
+  18: { count: 6, adjustment: 0 },
+  19: { count: 7, adjustment: 0 },
+  20: { count: 8, adjustment: 0 }
+};
+
+const SCORING_RECORD_SIZE = 20;
+const NINE_HOLES = 9;
+const EIGHTEEN_HOLES = 18;
+const MINIMUM_SCORES = 3;
+const MAXIMUM_HANDICAP_INDEX = 54.0;
+const STANDARD_SLOPE = 113;
+const SOFT_CAP_THRESHOLD = 3.0;
+const HARD_CAP_THRESHOLD = 5.0;
+const LOW_INDEX_WINDOW_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rule 5.1: holes that must be played for an 18- or 9-hole score to be acceptable
+const MINIMUM_HOLES_PLAYED: { [holes: number]: number } = { 18: 14, 9: 7 };
+
+// Rule 3.1b: a player without a Handicap Index is capped at par plus five
+const NO_INDEX_MAXIMUM_OVER_PAR = 5;
+
+const EMPTY_RESULT: HandicapResult = {
+  handicapIndex: null,
+  lowHandicapIndex: null,
+  scoreRecord: [],
+  countingRoundIds: [],
+  history: []
+};
+
+class HandicapCalculator {
+  // WHS rounds to the nearest tenth, halves away from zero
+  static roundToTenth(value: number): number {
+    const rounded = Math.round(Math.abs(value) * 10 + 1e-9) / 10;
+    return value < 0 ? -rounded : rounded;
+  }
+
+  // Score Differential = (113 ÷ Slope Rating) × (Adjusted Gross Score − Course Rating − PCC)
+  static calculateScoreDifferential(
+    adjustedGrossScore: number,
+    courseRating: number | undefined,
+    slopeRating: number | undefined,
+    pcc: number = 0
+  ): number | null {
+    if (typeof adjustedGrossScore !== 'number' || !courseRating || !slopeRating) return null;
+    return this.roundToTenth((STANDARD_SLOPE / slopeRating) * (adjustedGrossScore - courseRating - pcc));
+  }
+
+  static getHolesPlayed(round: Round): number {
+    return round.holesPlayed ?? round.holeNumbers?.length ?? EIGHTEEN_HOLES;
+  }
+
+  // Rating and slope for the holes being played; nine-hole rounds use the front or back nine ratings
+  static getTeeRatings(
+    tee: TeeBox | undefined,
+    course: Course | undefined,
+    holeNumbers?: number[]
+  ): { courseRating?: number; slopeRating?: number } {
+    const hasTeeRatings = !!(tee?.rating && tee?.slope);
+    const courseRating = hasTeeRatings ? tee!.rating : course?.courseRating;
+    const slopeRating = hasTeeRatings ? tee!.slope : course?.slopeRating;
+    // A nine-hole course is already rated for nine holes
+    if (!holeNumbers || holeNumbers.length !== NINE_HOLES || course?.holes?.length === NINE_HOLES) {
+      return { courseRating, slopeRating };
+    }
+
+    const isFront = holeNumbers.every(n => n >= 1 && n <= 9);
+    const isBack = holeNumbers.every(n => n >= 10 && n <= 18);
+    let nineRating: number | undefined;
+    let nineSlope: number | undefined;
+    if (isFront) {
+      nineRating = tee ? tee.frontRating : course?.frontNineRating;
+      nineSlope = tee?.frontSlope;
+    } else if (isBack) {
+      nineRating = tee ? tee.backRating : course?.backNineRating;
+      nineSlope = tee?.backSlope;
+    }
+
+    return {
+      courseRating: nineRating || (courseRating ? courseRating / 2 : undefined),
+      slopeRating: nineSlope || slopeRating
+    };
+  }
+
+  static findTee(course: Course | undefined, teeKey?: string, teeName?: string): TeeBox | undefined {
+    return course?.teeBoxes?.find(t => t && !!teeKey && t.key === teeKey)
+      || course?.teeBoxes?.find(t => t && t.name === teeName);
+  }
+
+  // Ratings stored on the round at play time win, so later course edits don't change old differentials
+  static getRoundRatings(round: Round, course: Course | undefined): { courseRating?: number; slopeRating?: number } {
+    if (round.courseRating && round.slopeRating) {
+      return { courseRating: round.courseRating, slopeRating: round.slopeRating };
+    }
+    const tee = this.findTee(course, round.teeKey, round.teeBox);
+    return this.getTeeRatings(tee, course, round.holeNumbers);
+  }
+
+  static getRoundDifferential(round: Round, course: Course | undefined): number | null {
+    if (round.adjustedGrossScore === null) return null;
+    const { courseRating, slopeRating } = this.getRoundRatings(round, course);
+    return this.calculateScoreDifferential(round.adjustedGrossScore ?? round.totalScore, courseRating, slopeRating);
+  }
+
+  // Course Handicap = Handicap Index × (Slope Rating ÷ 113) + (Course Rating − Par)
+  static calculateCourseHandicap(
+    handicapIndex: number | null,
+    slopeRating: number | undefined,
+    courseRating: number | undefined,
+    par: number
+  ): number | null {
+    if (handicapIndex === null || handicapIndex === undefined || !slopeRating || !courseRating) return null;
+    return Math.round(handicapIndex * (slopeRating / STANDARD_SLOPE) + (courseRating - par));
+  }
+
+  // A nine-hole Course Handicap is based on half the Handicap Index
+  static calculateNineHoleCourseHandicap(
+    handicapIndex: number | null,
+    slopeRating: number | undefined,
+    courseRating: number | undefined,
+    par: number
+  ): number | null {
+    if (handicapIndex === null || handicapIndex === undefined) return null;
+    return this.calculateCourseHandicap(handicapIndex / 2, slopeRating, courseRating, par);
+  }
+
+  // Playing Handicap = Course Handicap × handicap allowance for the format of play
+  static calculatePlayingHandicap(courseHandicap: number | null, allowance: number = 100): number | null {
+    if (courseHandicap === null || courseHandicap === undefined) return null;
+    return Math.round(courseHandicap * (allowance / 100));
+  }
+
+  // Strokes given on each hole, allocated by stroke index across the holes being played
+  static getStrokesReceived(handicap: number | null, holes: Hole[]): { [holeNumber: number]: number } {
+    const strokes: { [holeNumber: number]: number } = {};
+    const ordered = holes
+      .filter(h => h && typeof h.number === 'number')
+      .sort((a, b) => (a.handicap || a.number) - (b.handicap || b.number));
+    ordered.forEach(h => { strokes[h.number] = 0; });
+    if (!handicap || ordered.length === 0) return strokes;
+
+    if (handicap > 0) {
+      const base = Math.floor(handicap / ordered.length);
+      const extra = handicap % ordered.length;
+      ordered.forEach((h, rank) => {
+        strokes[h.number] = base + (rank < extra ? 1 : 0);
+      });
+    } else {
+      // Plus handicaps give strokes back starting from the easiest hole
+      const given = Math.abs(handicap);
+      const base = Math.floor(given / ordered.length);
+      const extra = given % ordered.length;
+      [...ordered].reverse().forEach((h, rank) => {
+        strokes[h.number] = 0 - (base + (rank < extra ? 1 : 0));
+      });
+    }
+
+    return strokes;
+  }
+
+  // Rule 3.1b: cap each hole at net double bogey (par + 2 + strokes received).
+  // Rule 3.2: a hole left blank counts at net par (par + strokes received).
+  static applyNetDoubleBogey<T extends HoleScore>(
+    holeScores: T[],
+    holes: Hole[],
+    courseHandicap: number | null
+  ): { holeScores: T[]; adjustedGrossScore: number; cappedHoles: number[]; unplayedHoles: number[] } {
+    const strokes = this.getStrokesReceived(courseHandicap, holes.filter(h => holeScores.some(s => s.holeNumber === h.number)));
+    const cappedHoles: number[] = [];
+    const unplayedHoles: number[] = [];
+
+    const adjusted = holeScores.map(score => {
+      const hole = holes.find(h => h.number === score.holeNumber);
+      if (typeof score.score !== 'number') {
+        unplayedHoles.push(score.holeNumber);
+        return { ...score, adjustedScore: hole ? hole.par + (strokes[hole.number] || 0) : null };
+      }
+      if (!hole) {
+        return { ...score, adjustedScore: score.score };
+      }
+
+      const maximum = courseHandicap === null
+        ? hole.par + NO_INDEX_MAXIMUM_OVER_PAR
+        : hole.par + 2 + (strokes[hole.number] || 0);
+
+      if (score.score > maximum) {
+        cappedHoles.push(score.holeNumber);
+        return { ...score, adjustedScore: maximum };
+      }
+      return { ...score, adjustedScore: score.score };
+    });
+
+    return {
+      holeScores: adjusted,
+      adjustedGrossScore: adjusted.reduce((sum, h) => sum + (h.adjustedScore || 0), 0),
+      cappedHoles,
+      unplayedHoles
+    };
+  }
+
+  // Whether enough holes have a score for the round to go into the scoring record; the rest count at net par
+  static isAcceptableScore(holesScored: number, holesInRound: number): boolean {
+    if (holesInRound <= 0) return false;
+    return holesScored >= (MINIMUM_HOLES_PLAYED[holesInRound] ?? holesInRound);
+  }
+
+  // Adjusted gross score and differential of a round's hole scores, on the tee and ratings it was played off.
+  // Both are null when too few holes have a score.
+  static scoreRound(
+    round: Round,
+    holeScores: HoleScore[],
+    course: Course | undefined
+  ): { adjustedGrossScore: number | null; differential: number | null } {
+    const tee = this.findTee(course, round.teeKey, round.teeBox);
+    const holes = (course?.holes || []).map(hole => {
+      const teeHole = tee?.holes?.find(h => h.number === hole.number);
+      return teeHole ? { ...hole, par: teeHole.par || hole.par, handicap: teeHole.handicap || hole.handicap } : hole;
+    });
+    const holeNumbers = round.holeNumbers || holeScores.map(h => h.holeNumber);
+    const scores = holeNumbers.map(holeNumber => ({
+      holeNumber,
+      score: holeScores.find(h => h.holeNumber === holeNumber)?.score ?? null
+    }));
+
+    const { adjustedGrossScore, unplayedHoles } = this.applyNetDoubleBogey(scores, holes, round.courseHandicap ?? null);
+    if (!this.isAcceptableScore(scores.length - unplayedHoles.length, scores.length)) {
+      return { adjustedGrossScore: null, differential: null };
+    }
+    const { courseRating, slopeRating } = this.getRoundRatings(round, course);
+    return { adjustedGrossScore, differential: this.calculateScoreDifferential(adjustedGrossScore, courseRating, slopeRating) };
+  }
+
+  // Handicap Index from a scoring record of up to 20 entries (before caps)
+  static calculateIndexFromRecord(record: ScoreRecordEntry[]): number | null {
+    if (record.length < MINIMUM_SCORES) return null;
+
+    const rule = SCORES_TO_USE[Math.min(record.length, SCORING_RECORD_SIZE)];
+    const lowest = record
+      .map(entry => entry.differential + entry.exceptionalScoreReduction)
+      .sort((a, b) => a - b)
+      .slice(0, rule.count);
+
+    const average = lowest.reduce((sum, d) => sum + d, 0) / rule.count;
+    return Math.min(MAXIMUM_HANDICAP_INDEX, this.roundToTenth(average + rule.adjustment));
+  }
+
+  // Rule 5.8: limit upward movement against the Low Handicap Index
+  static applyCaps(index: number, lowHandicapIndex: number | null): { index: number; cap: HandicapRevision['cap'] } {
+    if (lowHandicapIndex === null) return { index, cap: 'none' };
+
+    const increase = index - lowHandicapIndex;
+    if (increase <= SOFT_CAP_THRESHOLD) return { index, cap: 'none' };
+
+    const softCapped = lowHandicapIndex + SOFT_CAP_THRESHOLD + (increase - SOFT_CAP_THRESHOLD) / 2;
+    if (softCapped - lowHandicapIndex > HARD_CAP_THRESHOLD) {
+      return { index: this.roundToTenth(lowHandicapIndex + HARD_CAP_THRESHOLD), cap: 'hard' };
+    }
+    return { index: this.roundToTenth(softCapped), cap: 'soft' };
+  }
+
+  // Rule 5.9: 7.0-9.9 below the current index earns -1, 10.0 or more earns -2
+  static getExceptionalScoreReduction(differential: number, handicapIndex: number | null): number {
+    if (handicapIndex === null) return 0;
+    const gap = this.roundToTenth(handicapIndex - differential);
+    if (gap >= 10.0) return -2;
+    if (gap >= 7.0) return -1;
+    return 0;
+  }
+
+  static calculateHandicapIndex(rounds: Round[], courses: Course[]): HandicapResult {
+    try {
+      if (!Array.isArray(rounds) || !Array.isArray(courses)) return EMPTY_RESULT;
+
+      const coursesById = new Map<string, Course>();
+      courses.forEach(c => {
+        if (c) coursesById.set(c.id, c);
+      });
+
+      const scored = rounds
+        .filter(r => r && r.completed !== false)
+        .map(round => ({
+          round,
+          holes: this.getHolesPlayed(round),
+          differential: this.getRoundDifferential(round, coursesById.get(round.courseId))
+        }))
+        .filter(s => s.differential !== null && !isNaN(s.differential))
+        .sort((a, b) => new Date(a.round.date).getTime() - new Date(b.round.date).getTime() || a.round.id.localeCompare(b.round.id));
+
+      // Nine-hole differentials are combined in the order they were played into one 18-hole entry
+      const entries: ScoreRecordEntry[] = [];
+      let pendingNine: typeof scored[number] | null = null;
+      scored.forEach(item => {
+        if (item.holes === EIGHTEEN_HOLES) {
+          entries.push({
+            roundId: item.round.id,
+            roundIds: [item.round.id],
+            date: item.round.date,
+            differential: item.differential as number,
+            exceptionalScoreReduction: 0
+          });
+        } else if (item.holes === NINE_HOLES) {
+          if (pendingNine) {
+            entries.push({
+              roundId: item.round.id,
+              roundIds: [pendingNine.round.id, item.round.id],
+              date: item.round.date,
+              differential: this.roundToTenth((pendingNine.differential as number) + (item.differential as number)),
+              exceptionalScoreReduction: 0
+            });
+            pendingNine = null;
+          } else {
+            pendingNine = item;
+          }
+        }
+      });
+
+      const history: HandicapRevision[] = [];
+      const historyTimes: number[] = [];
+      let lowWindowStart = 0;
+      let currentIndex: number | null = null;
+
+      entries.forEach((entry, i) => {
+        const windowStart = Math.max(0, i - SCORING_RECORD_SIZE + 1);
+
+        // An exceptional score reduces every differential in the record at the time it is posted
+        const esr = this.getExceptionalScoreReduction(entry.differential, currentIndex);
+        if (esr !== 0) {
+          for (let j = windowStart; j <= i; j++) {
+            entries[j].exceptionalScoreReduction += esr;
+          }
+        }
+
+        const record = entries.slice(windowStart, i + 1);
+        const rawIndex = this.calculateIndexFromRecord(record);
+
+        // The Low Handicap Index is only established once there are 20 scores on record
+        // History is chronological, so the 365-day window only ever moves forward
+        const entryTime = new Date(entry.date).getTime();
+        let lowHandicapIndex: number | null = null;
+        if (i + 1 >= SCORING_RECORD_SIZE) {
+          const cutoff = entryTime - LOW_INDEX_WINDOW_DAYS * DAY_MS;
+          while (lowWindowStart < history.length && historyTimes[lowWindowStart] < cutoff) lowWindowStart++;
+          for (let j = lowWindowStart; j < history.length; j++) {
+            const index = history[j].handicapIndex;
+            if (index !== null && (lowHandicapIndex === null || index < lowHandicapIndex)) lowHandicapIndex = index;
+          }
+        }
+
+        const capped = rawIndex === null ? null : this.applyCaps(rawIndex, lowHandicapIndex);
+        currentIndex = capped ? capped.index : null;
+
+        historyTimes.push(entryTime);
+        history.push({
+          roundId: entry.roundId,
+          roundIds: entry.roundIds,
+          date: entry.date,
+          differential: entry.differential,
+          handicapIndex: currentIndex,
+          lowHandicapIndex,
+          cap: capped ? capped.cap : 'none',
+          exceptionalScoreReduction: esr
+        });
+      });
+
+      const scoreRecord = entries.slice(-SCORING_RECORD_SIZE);
+      const rule = SCORES_TO_USE[scoreRecord.length];
+      const countingRoundIds = rule
+        ? [...scoreRecord]
+            .sort((a, b) => (a.differential + a.exceptionalScoreReduction) - (b.differential + b.exceptionalScoreReduction))
+            .slice(0, rule.count)
+            .reduce((ids: string[], e) => ids.concat(e.roundIds), [])
+        : [];
+      const latest = history[history.length - 1];
+
+      return {
+        handicapIndex: latest ? latest.handicapIndex : null,
+        lowHandicapIndex: latest ? latest.lowHandicapIndex : null,
+        scoreRecord,
+        countingRoundIds,
+        history
+      };
+    } catch (error) {
+      console.error('Error calculating handicap index:', error);
+      return EMPTY_RESULT;
+    }
+  }
+
+  // Plus handicaps are shown with a leading "+"
+  static formatHandicapIndex(index: number | null): string {
+    if (index === null || index === undefined) return 'N/A';
+    return index < 0 ? `+${Math.abs(index).toFixed(1)}` : index.toFixed(1);
+  }
+}
+
+export default HandicapCalculator;
+export type { HandicapResult, HandicapRevision, ScoreRecordEntry, TeeBox };
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import IntegrityChecker, { type IntegrityData } from './IntegrityChecker';
+import { DEFAULT_PLAYER_ID } from './PlayerProfiles';
+
+const holeNumbers = Array.from({ length: 18 }, (_, i) => i + 1);
+// Rated 72.0 / 113, so a differential is the adjusted score minus 72
+const course = {
+  id: 'course-1',
+  par: 72,
+  courseRating: 72,
+  slopeRating: 113,
+  holes: holeNumbers.map(number => ({ number, par: 4, handicap: number }))
+};
+const round = (fields: any = {}) => ({
+  id: 'round-1',
+  courseId: 'course-1',
+  playerId: DEFAULT_PLAYER_ID,
+  date: '2026-05-01',
+  teeBox: 'White',
+  holeNumbers,
+  courseHandicap: 18,
+  totalScore: 80,
+  scoreToPar: 8,
+  adjustedGrossScore: 80,
+  differential: 8,
+  completed: true,
+  ...fields
+});
+const holes = (scores: (number | null)[]) => scores
+  .map((score, i) => ({ id: `hole-${i + 1}`, roundId: 'round-1', holeNumber: i + 1, score: score as number }))
+  .filter(hole => hole.score !== null);
+const data = (roundFields: any, scores: (number | null)[]): IntegrityData => ({
+  players: [{ id: DEFAULT_PLAYER_ID, name: 'Me' }],
+  courses: [course],
+  rounds: [round(roundFields)],
+  holeScores: holes(scores),
+  shots: []
+});
+
+describe('IntegrityChecker total mismatch', () => {
+  it('finds a round whose total differs from its holes', () => {
+    const issues = IntegrityChecker.check(data({}, Array(18).fill(5)));
+
+    expect(issues.map(i => i.type)).toEqual(['total_mismatch']);
+    expect(issues[0].message).toContain('has a total of 80 but its holes add up to 90');
+  });
+
+  it('works the adjusted score and differential out again with the total', () => {
+    // Hole 1's 9 is over net double bogey (par 4 + 2 + 1 stroke), so it counts as 7
+    const scores = [9, ...Array(17).fill(5)];
+    const input = data({}, scores);
+    const { puts, changedRoundIds } = IntegrityChecker.repair(input, IntegrityChecker.check(input));
+
+    expect(changedRoundIds).toEqual(['round-1']);
+    expect(puts[0].record).toMatchObject({ totalScore: 94, scoreToPar: 22, adjustedGrossScore: 92, differential: 20 });
+  });
+
+  it('clears them when too few holes are left to count', () => {
+    const input = data({ totalScore: 60 }, [...Array(10).fill(5), ...Array(8).fill(null)]);
+    const { puts } = IntegrityChecker.repair(input, IntegrityChecker.check(input));
+
+    expect(puts[0].record).toMatchObject({ totalScore: 50, adjustedGrossScore: null, differential: null });
+  });
+
+  it('repairs the total from the hole kept after removing a duplicate', () => {
+    const input = data({ totalScore: 90 }, Array(18).fill(5));
+    input.holeScores.push({ id: 'hole-dupe', roundId: 'round-1', holeNumber: 1, score: 3, lastModified: 1 });
+    const issues = IntegrityChecker.check(input);
+    const { puts, deletes } = IntegrityChecker.repair(input, issues);
+
+    expect(issues.map(i => i.type)).toEqual(['duplicate_hole', 'total_mismatch']);
+    expect(deletes.map(d => d.record.id)).toEqual(['hole-1']);
+    expect(puts[0].record).toMatchObject({ totalScore: 88, adjustedGrossScore: 88, differential: 16 });
+  });
+});
@@ -0,0 +1,254 @@
+// Finds records that don't fit together and works out the writes that repair them
+import PlayerProfiles, { DEFAULT_PLAYER_ID } from './PlayerProfiles';
+import HandicapCalculator from './HandicapCalculator';
+
+interface Course {
+  id: string;
+  par?: number;
+  [field: string]: any;
+}
+
+interface Round {
+  id: string;
+  courseId: string;
+  playerId?: string;
+  date: string;
+  teeBox: string;
+  totalScore: number;
+  scoreToPar: number;
+  par?: number;
+  differential: number | null;
+  completed: boolean;
+  [field: string]: any;
+}
+
+interface HoleScore {
+  id: string;
+  roundId: string;
+  holeNumber: number;
+  score: number;
+  lastModified?: number;
+  [field: string]: any;
+}
+
+interface Shot {
+  id: string;
+  roundId: string;
+  [field: string]: any;
+}
+
+interface Player {
+  id: string;
+  [field: string]: any;
+}
+
+interface IntegrityData {
+  players: Player[];
+  courses: Course[];
+  rounds: Round[];
+  holeScores: HoleScore[];
+  shots: Shot[];
+}
+
+type IssueType = 'orphan_hole' | 'orphan_shot' | 'missing_course' | 'missing_player' | 'duplicate_hole' | 'total_mismatch';
+
+interface IntegrityIssue {
+  type: IssueType;
+  storeName: string;
+  recordId: string;
+  message: string;
+  repair: string; // What repairing it will do
+}
+
+interface IntegrityRepair {
+  puts: { storeName: string; record: any }[];
+  deletes: { storeName: string; record: any }[];
+  changedRoundIds: string[];
+}
+
+const REPAIR_DESCRIPTIONS: { [type in IssueType]: string } = {
+  orphan_hole: 'Delete the hole score',
+  orphan_shot: 'Delete the shot',
+  missing_course: 'Add a placeholder course so the round keeps counting',
+  missing_player: 'Add a placeholder player to hold the round',
+  duplicate_hole: 'Keep the most recently saved copy of the hole',
+  total_mismatch: 'Set the round total, adjusted score and differential from its holes'
+};
+
+const byRound = <T extends { roundId: string }>(records: T[]) => {
+  const grouped = new Map<string, T[]>();
+  records.forEach(record => {
+    const list = grouped.get(record.roundId);
+    if (list) list.push(record);
+    else grouped.set(record.roundId, [record]);
+  });
+  return grouped;
+};
+
+class IntegrityChecker {
+  // One hole per hole number: the copy saved last, or the first one when none carry a timestamp
+  static dedupeHoles(holes: HoleScore[]): { kept: HoleScore[]; dropped: HoleScore[] } {
+    const kept = new Map<number, HoleScore>();
+    const dropped: HoleScore[] = [];
+    holes.forEach(hole => {
+      const current = kept.get(hole.holeNumber);
+      if (!current) {
+        kept.set(hole.holeNumber, hole);
+      } else if ((hole.lastModified || 0) > (current.lastModified || 0)) {
+        dropped.push(current);
+        kept.set(hole.holeNumber, hole);
+      } else {
+        dropped.push(hole);
+      }
+    });
+    return { kept: Array.from(kept.values()), dropped };
+  }
+
+  static check(data: IntegrityData): IntegrityIssue[] {
+    const issues: IntegrityIssue[] = [];
+    const add = (type: IssueType, storeName: string, recordId: string, message: string) =>
+      issues.push({ type, storeName, recordId, message, repair: REPAIR_DESCRIPTIONS[type] });
+
+    const courseIds = new Set(data.courses.map(c => c.id));
+    const playerIds = new Set(data.players.map(p => p.id));
+    const roundIds = new Set(data.rounds.map(r => r.id));
+    const holesByRound = byRound(data.holeScores);
+
+    data.holeScores
+      .filter(hole => !roundIds.has(hole.roundId))
+      .forEach(hole => add('orphan_hole', 'holeScores', hole.id, `Hole ${hole.holeNumber} score belongs to a round that no longer exists`));
+    data.shots
+      .filter(shot => !roundIds.has(shot.roundId))
+      .forEach(shot => add('orphan_shot', 'shots', shot.id, 'Shot belongs to a round that no longer exists'));
+
+    data.rounds.forEach(round => {
+      const label = `Round on ${new Date(round.date).toLocaleDateString()}`;
+      if (!courseIds.has(round.courseId)) {
+        add('missing_course', 'rounds', round.id, `${label} points to a course that isn't saved`);
+      }
+      if (!round.playerId || !playerIds.has(round.playerId)) {
+        add('missing_player', 'rounds', round.id, `${label} belongs to a player who isn't saved`);
+      }
+
+      const holes = holesByRound.get(round.id) || [];
+      const { kept, dropped } = this.dedupeHoles(holes);
+      dropped
+        .map(hole => hole.holeNumber)
+        .filter((n, i, all) => all.indexOf(n) === i)
+        .forEach(holeNumber => add('duplicate_hole', 'rounds', round.id, `${label} has more than one score for hole ${holeNumber}`));
+
+      if (kept.length > 0) {
+        const holeTotal = kept.reduce((sum, hole) => sum + (hole.score || 0), 0);
+        if (holeTotal !== round.totalScore) {
+          add('total_mismatch', 'rounds', round.id, `${label} has a total of ${round.totalScore} but its holes add up to ${holeTotal}`);
+        }
+      }
+    });
+
+    return issues;
+  }
+
+  // Records to write and delete so the given issues go away
+  static repair(data: IntegrityData, issues: IntegrityIssue[]): IntegrityRepair {
+    const puts: IntegrityRepair['puts'] = [];
+    const deletes: IntegrityRepair['deletes'] = [];
+    const changedRoundIds: string[] = [];
+    const now = Date.now();
+    const holesByRound = byRound(data.holeScores);
+    const roundsById = new Map<string, Round>();
+    data.rounds.forEach(r => roundsById.set(r.id, r));
+    const coursesById = new Map<string, Course>();
+    data.courses.forEach(c => coursesById.set(c.id, c));
+    const addedCourses = new Set<string>();
+    const addedPlayers = new Set<string>();
+    const dedupedRounds = new Set<string>();
+
+    issues.forEach(issue => {
+      const round = roundsById.get(issue.recordId);
+      switch (issue.type) {
+        case 'orphan_hole': {
+          const hole = data.holeScores.find(h => h.id === issue.recordId);
+          if (hole) deletes.push({ storeName: 'holeScores', record: hole });
+          break;
+        }
+        case 'orphan_shot': {
+          const shot = data.shots.find(s => s.id === issue.recordId);
+          if (shot) deletes.push({ storeName: 'shots', record: shot });
+          break;
+        }
+        case 'missing_course': {
+          if (!round || addedCourses.has(round.courseId)) break;
+          addedCourses.add(round.courseId);
+          puts.push({
+            storeName: 'courses',
+            record: {
+              id: round.courseId,
+              name: 'Recovered course',
+              location: {},
+              isHomeCourse: false,
+              imported: false,
+              holes: [],
+              par: round.par || 72,
+              lastModified: now
+            }
+          });
+          break;
+        }
+        case 'missing_player': {
+          if (!round) break;
+          if (!round.playerId) {
+            // Rounds from before players existed go to the default player, which is added if it's gone
+            const assigned = { ...round, playerId: DEFAULT_PLAYER_ID, lastModified: now, synced: false };
+            roundsById.set(round.id, assigned); // So a total repair later in the list keeps the player
+            puts.push({ storeName: 'rounds', record: assigned });
+          }
+          const playerId = round.playerId || DEFAULT_PLAYER_ID;
+          if (addedPlayers.has(playerId) || data.players.some(p => p.id === playerId)) break;
+          addedPlayers.add(playerId);
+          puts.push({
+            storeName: 'players',
+            record: playerId === DEFAULT_PLAYER_ID
+              ? { ...PlayerProfiles.createDefault(), lastModified: now }
+              : { id: playerId, name: 'Recovered player', createdAt: now, lastModified: now }
+          });
+          break;
+        }
+        case 'duplicate_hole': {
+          // A round gets one issue per duplicated hole number; all of its duplicates go in one pass
+          if (!round || dedupedRounds.has(round.id)) break;
+          dedupedRounds.add(round.id);
+          const { dropped } = this.dedupeHoles(holesByRound.get(round.id) || []);
+          dropped.forEach(hole => deletes.push({ storeName: 'holeScores', record: hole }));
+          if (changedRoundIds.indexOf(round.id) === -1) changedRoundIds.push(round.id);
+          break;
+        }
+        case 'total_mismatch': {
+          if (!round) break;
+          const { kept } = this.dedupeHoles(holesByRound.get(round.id) || []);
+          const totalScore = kept.reduce((sum, hole) => sum + (hole.score || 0), 0);
+          // The handicap index reads these, so they're worked out again from the same holes
+          const { adjustedGrossScore, differential } = HandicapCalculator.scoreRound(round, kept, coursesById.get(round.courseId));
+          puts.push({
+            storeName: 'rounds',
+            record: {
+              ...round,
+              totalScore,
+              scoreToPar: round.scoreToPar + (totalScore - round.totalScore),
+              adjustedGrossScore,
+              differential,
+              lastModified: now,
+              synced: false
+            }
+          });
+          if (changedRoundIds.indexOf(round.id) === -1) changedRoundIds.push(round.id);
+          break;
+        }
+      }
+    });
+
+    return { puts, deletes, changedRoundIds };
+  }
+}
+
+export default IntegrityChecker;
+export type { IntegrityIssue, IntegrityRepair, IntegrityData, IssueType };
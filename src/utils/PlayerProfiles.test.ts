@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import PlayerProfiles from './PlayerProfiles';
+
+const sam = PlayerProfiles.create('Sam');
+const alex = PlayerProfiles.create('Alex');
+
+describe('PlayerProfiles.checkDelete', () => {
+  it('keeps at least one player', () => {
+    expect(PlayerProfiles.checkDelete(sam, [sam], [], [])).toBe('There has to be at least one player');
+  });
+
+  it('refuses a player with rounds, in the trash too', () => {
+    const players = [sam, alex];
+    expect(PlayerProfiles.checkDelete(sam, players, [{ playerId: sam.id }], [])).toBe('Sam has 1 round. Delete them first.');
+    expect(PlayerProfiles.checkDelete(sam, players, [], [{ playerId: sam.id }, { playerId: sam.id }]))
+      .toBe('Sam has 2 rounds in the trash. Delete them there first.');
+  });
+
+  it('lets a player with no rounds go', () => {
+    expect(PlayerProfiles.checkDelete(sam, [sam, alex], [{ playerId: alex.id }], [{ playerId: alex.id }])).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+// The people sharing this device. Every round and hole score belongs to one player, and each
+// player's dashboard, handicap and stats only count their own rounds.
+import RecordId from './RecordId';
+
+interface Player {
+  id: string;
+  name: string;
+  createdAt: number;
+  lastModified: number;
+  synced?: boolean; // Set on records last taken from the sync server
+}
+
+const MAX_NAME_LENGTH = 40;
+
+// The player rounds recorded before players existed belong to. Every device derives the same id,
+// so histories migrated on different devices merge into one player when they sync.
+const DEFAULT_PLAYER_ID = RecordId.fromLegacy('player', 'default-player');
+
+class PlayerProfiles {
+  static create(name: string): Player {
+    const now = Date.now();
+    return { id: RecordId.create('player'), name: name.trim(), createdAt: now, lastModified: now };
+  }
+
+  // Left with no timestamp, so a name given to it on any device wins over this one when they sync
+  static createDefault(name?: string): Player {
+    return { id: DEFAULT_PLAYER_ID, name: (name || '').trim() || 'Me', createdAt: 0, lastModified: 0 };
+  }
+
+  static checkName(name: string, players: Player[], playerId?: string): string | null {
+    const trimmed = name.trim();
+    if (!trimmed) return 'Enter a name';
+    if (trimmed.length > MAX_NAME_LENGTH) return `Keep names to ${MAX_NAME_LENGTH} characters`;
+    if (players.some(p => p.id !== playerId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+      return `There's already a player called ${trimmed}`;
+    }
+    return null;
+  }
+
+  // Only a player with no rounds can be removed, counting rounds in the trash, which would come back
+  // without a player if they were restored
+  static checkDelete(
+    player: Player,
+    players: Player[],
+    rounds: { playerId?: string }[],
+    trashedRounds: { playerId?: string }[]
+  ): string | null {
+    if (players.length === 1) return 'There has to be at least one player';
+    const plural = (count: number) => `${count} round${count === 1 ? '' : 's'}`;
+    const roundCount = rounds.filter(r => r.playerId === player.id).length;
+    if (roundCount > 0) return `${player.name} has ${plural(roundCount)}. Delete them first.`;
+    const trashedCount = trashedRounds.filter(r => r.playerId === player.id).length;
+    if (trashedCount > 0) {
+      return `${player.name} has ${plural(trashedCount)} in the trash. Delete them there first.`;
+    }
+    return null;
+  }
+
+  static sort(players: Player[]): Player[] {
+    return players.slice().sort((a, b) => a.createdAt - b.createdAt || a.name.localeCompare(b.name));
+  }
+}
+
+export default PlayerProfiles;
+export { DEFAULT_PLAYER_ID };
+export type { Player };
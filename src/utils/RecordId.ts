@@ -0,0 +1,104 @@
+// Record ids: a type prefix plus a random UUID, e.g. round-1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed.
+// Older ids were built from Date.now() and could collide; those map to a UUID hashed from the old id,
+// so every device that migrates the same record, or pulls it from a device that hasn't yet, agrees on it.
+const CURRENT_ID = /^[a-z]+-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const PREFIXES: { [storeName: string]: string } = {
+  courses: 'course',
+  rounds: 'round',
+  holeScores: 'hole',
+  shots: 'shot',
+  roundHistory: 'edit',
+  players: 'player'
+};
+
+// Fields that point at another store's records
+const REFERENCES: { [storeName: string]: { [field: string]: string } } = {
+  rounds: { courseId: 'course', playerId: 'player' },
+  holeScores: { roundId: 'round', playerId: 'player' },
+  shots: { roundId: 'round' },
+  roundHistory: { roundId: 'round' },
+  roundStats: { roundId: 'round', courseId: 'course' }
+};
+
+const toHex = (n: number) => ('00000000' + (n >>> 0).toString(16)).slice(-8);
+
+const formatUuid = (hex: string, version: string) =>
+  `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${version}${hex.slice(13, 16)}-` +
+  `${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+
+// 128-bit string hash (cyrb128), laid out as a version 8 UUID
+const hashUuid = (text: string) => {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762;
+  for (let i = 0; i < text.length; i++) {
+    const k = text.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  h1 ^= h2 ^ h3 ^ h4;
+  h2 ^= h1;
+  h3 ^= h1;
+  h4 ^= h1;
+  return formatUuid(toHex(h1) + toHex(h2) + toHex(h3) + toHex(h4), '8');
+};
+
+const randomUuid = () => {
+  const cryptoApi: any = typeof crypto !== 'undefined' ? crypto : null;
+  if (cryptoApi && typeof cryptoApi.randomUUID === 'function') return cryptoApi.randomUUID() as string;
+
+  const bytes = new Uint8Array(16);
+  if (cryptoApi && typeof cryptoApi.getRandomValues === 'function') {
+    cryptoApi.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+  }
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) hex += ('0' + bytes[i].toString(16)).slice(-2);
+  return formatUuid(hex, '4');
+};
+
+class RecordId {
+  static create(prefix: string): string {
+    return `${prefix}-${randomUuid()}`;
+  }
+
+  static isCurrent(id: any): boolean {
+    return typeof id === 'string' && CURRENT_ID.test(id);
+  }
+
+  // Same legacy id in, same new id out
+  static fromLegacy(prefix: string, id: any): any {
+    if (id === null || id === undefined || id === '' || this.isCurrent(id)) return id;
+    return `${prefix}-${hashUuid(String(id))}`;
+  }
+
+  // A record with its own id and the ids it points at moved to the current format
+  static normalize<T extends { [field: string]: any }>(storeName: string, record: T): T {
+    if (!record || typeof record !== 'object') return record;
+    const next: any = { ...record };
+    const prefix = PREFIXES[storeName];
+    if (prefix && 'id' in next) next.id = this.fromLegacy(prefix, next.id);
+
+    const references = REFERENCES[storeName] || {};
+    Object.keys(references).forEach(field => {
+      if (field in next) next[field] = this.fromLegacy(references[field], next[field]);
+    });
+    return next;
+  }
+
+  static needsMigration(storeName: string, record: any): boolean {
+    if (!record || typeof record !== 'object') return false;
+    if (PREFIXES[storeName] && !this.isCurrent(record.id)) return true;
+    const references = REFERENCES[storeName] || {};
+    return Object.keys(references).some(field => record[field] && !this.isCurrent(record[field]));
+  }
+}
+
+export default RecordId;
+export { PREFIXES as RECORD_ID_PREFIXES };
@@ -0,0 +1,136 @@
+// Field-level change history for edited rounds
+import RecordId from './RecordId';
+
+interface Round {
+  id: string;
+  [field: string]: any;
+}
+
+interface HoleScore {
+  holeNumber: number;
+  [field: string]: any;
+}
+
+interface Shot {
+  holeNumber: number;
+  shotNumber: number;
+  startDistance: number;
+  lie: string;
+  result: string;
+}
+
+interface RoundChange {
+  field: string;
+  holeNumber?: number; // Set for hole-level changes
+  from: any;
+  to: any;
+}
+
+interface Editor {
+  deviceId: string;
+  name?: string;
+}
+
+interface RoundHistoryEntry {
+  id: string;
+  roundId: string;
+  editedAt: number;
+  editedBy: Editor;
+  changes: RoundChange[];
+}
+
+// Round fields a player can change from the scorecard, plus the totals recomputed from them
+const ROUND_FIELDS = [
+  'date', 'teeBox', 'weather', 'playingPartners', 'roundType', 'tags', 'handicapAllowance', 'holesPlayed',
+  'totalScore', 'adjustedGrossScore', 'scoreToPar', 'differential', 'courseRating', 'slopeRating', 'par'
+];
+
+const HOLE_FIELDS = [
+  'score', 'putts', 'fairwayHit', 'greenInRegulation', 'penaltyStrokes', 'greensideBunker', 'upAndDownAttempt', 'chipCount'
+];
+
+// Missing, empty and null all mean "not recorded"
+const normalize = (value: any) => (value === undefined || value === '' ? null : value);
+const isSame = (a: any, b: any) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+const describeShots = (shots: Shot[]) =>
+  [...shots]
+    .sort((a, b) => a.shotNumber - b.shotNumber)
+    .map(s => `${s.lie} ${s.startDistance} → ${s.result}`);
+
+class RoundChangeLog {
+  static diff(
+    before: Round,
+    beforeHoles: HoleScore[],
+    after: Round,
+    afterHoles: HoleScore[],
+    beforeShots: Shot[] = [],
+    afterShots: Shot[] = []
+  ): RoundChange[] {
+    const changes: RoundChange[] = [];
+
+    ROUND_FIELDS.forEach(field => {
+      if (!isSame(before[field], after[field])) {
+        changes.push({ field, from: normalize(before[field]), to: normalize(after[field]) });
+      }
+    });
+
+    const holeNumbers = beforeHoles.concat(afterHoles)
+      .map(h => h.holeNumber)
+      .filter((n, i, all) => all.indexOf(n) === i)
+      .sort((a, b) => a - b);
+
+    holeNumbers.forEach(holeNumber => {
+      const oldHole = beforeHoles.find(h => h.holeNumber === holeNumber);
+      const newHole = afterHoles.find(h => h.holeNumber === holeNumber);
+
+      // Holes added or dropped by a layout change are logged by score only
+      if (!oldHole || !newHole) {
+        changes.push({ field: 'score', holeNumber, from: normalize(oldHole?.score), to: normalize(newHole?.score) });
+        return;
+      }
+
+      HOLE_FIELDS.forEach(field => {
+        if (!isSame(oldHole[field], newHole[field])) {
+          changes.push({ field, holeNumber, from: normalize(oldHole[field]), to: normalize(newHole[field]) });
+        }
+      });
+
+      const oldShots = describeShots(beforeShots.filter(s => s.holeNumber === holeNumber));
+      const newShots = describeShots(afterShots.filter(s => s.holeNumber === holeNumber));
+      if (!isSame(oldShots, newShots)) {
+        changes.push({ field: 'shots', holeNumber, from: oldShots, to: newShots });
+      }
+    });
+
+    return changes;
+  }
+
+  static createEntry(roundId: string, changes: RoundChange[], editedBy: Editor): RoundHistoryEntry {
+    const editedAt = Date.now();
+    return {
+      id: RecordId.create('edit'),
+      roundId,
+      editedAt,
+      editedBy,
+      changes
+    };
+  }
+
+  static formatValue(value: any): string {
+    if (value === null || value === undefined || value === '') return '—';
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(1);
+    return String(value);
+  }
+
+  static describeChange(change: RoundChange): string {
+    const field = change.field.replace(/([A-Z])/g, ' $1').toLowerCase();
+    const label = change.holeNumber ? `Hole ${change.holeNumber} ${field}` : field.charAt(0).toUpperCase() + field.slice(1);
+    return `${label}: ${this.formatValue(change.from)} → ${this.formatValue(change.to)}`;
+  }
+}
+
+export default RoundChangeLog;
+export type { RoundChange, RoundHistoryEntry, Editor };
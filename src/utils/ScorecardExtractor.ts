@@ -1,4 +1,5 @@
 import { createWorker, Worker, PSM } from 'tesseract.js';
+import RecordId from './RecordId';
 
 // Interfaces
 interface CourseMetadata {
@@ -373,7 +374,7 @@ class ScorecardExtractor {
     }));
 
     return {
-      id: `course-${Date.now()}`,
+      id: RecordId.create('course'),
       name: metadata.courseName,
       location: {
         address: metadata.location,
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import SideGames, { type GameConfig, type GamePlayer } from './SideGames';
+
+// Par 4s with stroke index equal to the hole number, so hole 1 is the hardest
+const holes = Array.from({ length: 18 }, (_, i) => ({ number: i + 1, par: 4, handicap: i + 1 }));
+const holeNumbers = holes.map(h => h.number);
+const player = (playerId: string, courseHandicap: number | null, scores: (number | null)[]): GamePlayer => ({
+  playerId,
+  courseHandicap,
+  holes,
+  holeScores: scores.map((score, i) => ({ holeNumber: i + 1, score }))
+});
+const pars = (count: number) => Array.from({ length: count }, () => 4);
+const name = (playerId: string) => playerId.toUpperCase();
+const gross = (config: GameConfig): GameConfig => ({ ...config, net: false });
+const totalStrokes = (strokes: { [holeNumber: number]: number }) =>
+  Object.keys(strokes).reduce((sum, hole) => sum + strokes[Number(hole)], 0);
+
+describe('SideGames match play', () => {
+  it('closes out a match once the side behind cannot catch up', () => {
+    const config = gross(SideGames.createConfig('match_play', ['a', 'b']));
+    const a = player('a', 0, [3, 3, 3, 3, ...pars(14)]);
+    const b = player('b', 0, pars(18));
+    const standings = SideGames.play(config, [a, b], holeNumbers);
+
+    // Holes after the match is decided don't count
+    expect(standings.matches[0]).toMatchObject({ up: 4, played: 15, remaining: 3, winner: 0, finished: true });
+    expect(SideGames.describe(config, standings, name)).toEqual(['Match: A won 4&3']);
+
+    const closed = SideGames.play(config, [player('a', 0, [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, ...pars(8)]), b], holeNumbers);
+    expect(SideGames.describe(config, closed, name)).toEqual(['Match: A won 10&8']);
+  });
+
+  it('gives strokes off the low handicap on the hardest holes', () => {
+    const config = SideGames.createConfig('match_play', ['a', 'b']);
+    // B makes 5s on the two hardest holes and gets a stroke on each, so both are halved
+    const a = player('a', 2, pars(18));
+    const b = player('b', 4, [5, 5, ...pars(16)]);
+    const strokes = SideGames.getStrokes(config, [a, b], holeNumbers);
+
+    expect(totalStrokes(strokes.a)).toBe(0);
+    expect(strokes.b[1]).toBe(1);
+    expect(strokes.b[2]).toBe(1);
+    expect(strokes.b[3]).toBe(0);
+    expect(SideGames.play(config, [a, b], holeNumbers).matches[0]).toMatchObject({ up: 0, winner: null, finished: true });
+  });
+
+  it('reports a live match as it stands', () => {
+    const config = gross(SideGames.createConfig('match_play', ['a', 'b']));
+    const standings = SideGames.play(config, [player('a', 0, [4, 4, 4]), player('b', 0, [5, 4, 4])], holeNumbers);
+
+    expect(standings.holesPlayed).toBe(3);
+    expect(standings.complete).toBe(false);
+    expect(SideGames.describe(config, standings, name)).toEqual(['Match: A 1 up thru 3']);
+    expect(SideGames.settle(config, standings).payments).toEqual([]);
+  });
+});
+
+describe('SideGames four-ball', () => {
+  const scores = [
+    player('a', 0, pars(18)),
+    player('b', 0, [5, 5, ...pars(16)]),
+    player('c', 20, [5, 5, 5, ...pars(15)]),
+    player('d', 20, [6, 4, 5, ...pars(15)])
+  ];
+
+  it('plays off the four-ball handicap allowance', () => {
+    const config = SideGames.createConfig('four_ball', ['a', 'b', 'c', 'd']);
+    const strokes = SideGames.getStrokes(config, scores, holeNumbers);
+
+    expect(SideGames.getAllowance(config)).toBe(85);
+    expect(SideGames.describeHandicaps(config)).toBe(' (net, 85%)');
+    expect(totalStrokes(strokes.c)).toBe(17);
+    expect(totalStrokes(SideGames.getStrokes({ ...config, allowance: 100 }, scores, holeNumbers).c)).toBe(20);
+  });
+
+  it('scores the better ball of each side and settles partner for partner', () => {
+    const config = gross({ ...SideGames.createConfig('four_ball', ['a', 'b', 'c', 'd']), sides: [['a', 'b'], ['c', 'd']] });
+    const standings = SideGames.play(config, scores, holeNumbers);
+
+    // A's par beats C and D's 5s on hole 1 and hole 3; hole 2 is halved by D's 4
+    expect(standings.matches[0]).toMatchObject({ up: 2, winner: 0, finished: true });
+    expect(SideGames.settle(config, standings)).toEqual({
+      net: { a: 1, b: 1, c: -1, d: -1 },
+      payments: [{ from: 'c', to: 'a', amount: 1 }, { from: 'd', to: 'b', amount: 1 }]
+    });
+  });
+
+  it('needs two sides of two', () => {
+    const config = SideGames.createConfig('four_ball', ['a', 'b', 'c']);
+    expect(SideGames.checkConfig(config, 18)).toBe('Four-ball needs four players in two sides of two');
+  });
+});
+
+describe('SideGames Nassau', () => {
+  // A wins holes 1 and 2, B wins 10 to 12; everything else is halved
+  const a = player('a', 0, [3, 3, ...pars(16)]);
+  const b = player('b', 0, [...pars(9), 3, 3, 3, ...pars(6)]);
+
+  it('starts a press when a side falls two down and settles every bet', () => {
+    const config = { ...gross(SideGames.createConfig('nassau', ['a', 'b'])), stake: 5 };
+    const standings = SideGames.play(config, [a, b], holeNumbers);
+
+    expect(SideGames.describe(config, standings, name)).toEqual([
+      'Front 9: A won 2&1',
+      'Front 9 press 1: halved',
+      'Back 9: B won 3&2',
+      'Back 9 press 1: B won 1 up',
+      'Overall: B won 1 up'
+    ]);
+    expect(standings.matches[1].holeNumbers).toEqual([3, 4, 5, 6, 7, 8, 9]);
+    expect(standings.matches[3].holeNumbers).toEqual([12, 13, 14, 15, 16, 17, 18]);
+    expect(SideGames.settle(config, standings)).toEqual({
+      net: { a: -10, b: 10 },
+      payments: [{ from: 'a', to: 'b', amount: 10 }]
+    });
+  });
+
+  it('plays no presses when they are turned off', () => {
+    const config = { ...gross(SideGames.createConfig('nassau', ['a', 'b'])), pressAfter: 0 };
+    expect(SideGames.play(config, [a, b], holeNumbers).matches.map(m => m.label)).toEqual(['Front 9', 'Back 9', 'Overall']);
+  });
+
+  it('is only played over 18 holes', () => {
+    const config = SideGames.createConfig('nassau', ['a', 'b']);
+    expect(SideGames.checkConfig(config, 9)).toBe('Nassau is played over 18 holes');
+  });
+});
+
+describe('SideGames skins', () => {
+  it('carries tied holes over to the next outright win', () => {
+    const config = { ...gross(SideGames.createConfig('skins', ['a', 'b', 'c'])), stake: 2 };
+    const standings = SideGames.play(config, [
+      player('a', 0, [4, 4, 3, 4]),
+      player('b', 0, [4, 4, 4, 4]),
+      player('c', 0, [3, 4, 4, 4])
+    ], [1, 2, 3, 4]);
+
+    expect(standings.skins).toEqual([
+      { holeNumber: 1, playerId: 'c', skins: 1 },
+      { holeNumber: 3, playerId: 'a', skins: 2 }
+    ]);
+    expect(standings.carryover).toBe(1);
+    expect(SideGames.describe(config, standings, name)).toEqual([
+      'A: 2 skins',
+      'C: 1 skin',
+      'B: 0 skins',
+      '1 skin carried over, unclaimed'
+    ]);
+    // Each skin is worth the stake from every other player
+    expect(SideGames.settle(config, standings).net).toEqual({ a: 6, b: -6, c: 0 });
+  });
+});
+
+describe('SideGames Stableford', () => {
+  const a = player('a', 0, [3, 4, 5, 6, 9, ...pars(13)]);
+  const b = player('b', 18, pars(18));
+
+  it('scores gross points against par', () => {
+    const config = gross(SideGames.createConfig('stableford', ['a', 'b']));
+    const standings = SideGames.play(config, [a, b], holeNumbers);
+
+    // Birdie 3, par 2, bogey 1, double and worse 0
+    expect(standings.points).toEqual({ a: 3 + 2 + 1 + 0 + 0 + 26, b: 36 });
+  });
+
+  it('adds each player\'s own strokes when net', () => {
+    const config = SideGames.createConfig('stableford', ['a', 'b']);
+    const standings = SideGames.play(config, [a, b], holeNumbers);
+
+    expect(standings.points).toEqual({ a: 32, b: 54 });
+    expect(SideGames.settle(config, standings).payments).toEqual([{ from: 'a', to: 'b', amount: 22 }]);
+  });
+});
@@ -0,0 +1,420 @@
+// Games played alongside stroke play by a group on one scorecard. Standings are worked out from
+// the group's hole scores each time, so they're live during the round and settle when it's saved.
+import HandicapCalculator from './HandicapCalculator';
+
+type GameFormat = 'match_play' | 'four_ball' | 'nassau' | 'skins' | 'stableford';
+
+interface Hole {
+  number: number;
+  par: number;
+  handicap: number;
+}
+
+interface HoleScore {
+  holeNumber: number;
+  score: number | null;
+}
+
+interface GameConfig {
+  format: GameFormat;
+  net: boolean; // Handicap strokes given on the hardest holes by Hole.handicap
+  allowance?: number; // Percent of each course handicap the game plays off
+  stake: number; // Per match, press, skin or Stableford point
+  // Two sides for match play, four-ball and Nassau; one side per player for skins and Stableford
+  sides: string[][];
+  pressAfter?: number; // Nassau: a new bet starts when a side falls this many holes down; 0 for none
+}
+
+// What the game needs from one player's card
+interface GamePlayer {
+  playerId: string;
+  courseHandicap: number | null;
+  holes: Hole[]; // Holes of the player's tee
+  holeScores: HoleScore[];
+}
+
+interface MatchStatus {
+  label: string;
+  holeNumbers: number[];
+  up: number; // Positive when the first side is ahead
+  played: number;
+  remaining: number;
+  winner: 0 | 1 | null; // Null while the match is live or when it's halved
+  finished: boolean;
+}
+
+interface SkinResult {
+  holeNumber: number;
+  playerId: string;
+  skins: number; // Includes holes carried over to this one
+}
+
+interface GameStandings {
+  format: GameFormat;
+  matches: MatchStatus[];
+  points: { [playerId: string]: number }; // Stableford points or skins won
+  skins: SkinResult[];
+  carryover: number; // Skins still riding on the next hole
+  holesPlayed: number;
+  complete: boolean;
+}
+
+interface Payment {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+interface Settlement {
+  net: { [playerId: string]: number };
+  payments: Payment[];
+}
+
+// Kept on each round of the group, with names as they were so it reads the same after renames
+interface SideGameResult {
+  config: GameConfig;
+  names: { [playerId: string]: string };
+  results: string[];
+  net: { [playerId: string]: number };
+  payments: Payment[];
+  complete: boolean;
+  settledAt: number;
+}
+
+const GAME_FORMATS: { value: GameFormat; label: string }[] = [
+  { value: 'match_play', label: 'Match play' },
+  { value: 'four_ball', label: 'Four-ball best ball' },
+  { value: 'nassau', label: 'Nassau' },
+  { value: 'skins', label: 'Skins' },
+  { value: 'stableford', label: 'Stableford' }
+];
+
+const TEAM_FORMATS: GameFormat[] = ['match_play', 'four_ball', 'nassau'];
+// Handicap allowances from WHS Appendix C; better-ball pairs play off less of their handicap
+const DEFAULT_ALLOWANCES: { [format in GameFormat]: number } = {
+  match_play: 100,
+  four_ball: 85,
+  nassau: 100,
+  skins: 100,
+  stableford: 100
+};
+const DEFAULT_PRESS_AFTER = 2;
+const NASSAU_HOLES = 18;
+
+const formatLabel = (format: GameFormat) => GAME_FORMATS.find(f => f.value === format)?.label || format;
+
+// Stableford: 2 points for a (net) par, one more for each stroke under, none at net double bogey or worse
+const stablefordPoints = (score: number, par: number, strokes: number) => Math.max(0, 2 + par + strokes - score);
+
+class SideGames {
+  static isTeamFormat(format: GameFormat): boolean {
+    return TEAM_FORMATS.includes(format);
+  }
+
+  static getAllowance(config: GameConfig): number {
+    return config.allowance ?? DEFAULT_ALLOWANCES[config.format];
+  }
+
+  // ' (net)', with the allowance when it isn't the full handicap
+  static describeHandicaps(config: GameConfig): string {
+    if (!config.net) return '';
+    const allowance = SideGames.getAllowance(config);
+    return allowance === 100 ? ' (net)' : ` (net, ${allowance}%)`;
+  }
+
+  static getPlayerIds(config: GameConfig): string[] {
+    return config.sides.reduce((ids: string[], side) => ids.concat(side), []);
+  }
+
+  static createConfig(format: GameFormat, playerIds: string[], previous?: GameConfig | null): GameConfig {
+    return SideGames.withPlayers({
+      format,
+      net: previous?.net ?? true,
+      stake: previous?.stake ?? 1,
+      allowance: DEFAULT_ALLOWANCES[format],
+      sides: [],
+      pressAfter: format === 'nassau' ? DEFAULT_PRESS_AFTER : undefined
+    }, playerIds);
+  }
+
+  // Keeps sides as they were when players join or leave; newcomers go to the smaller side
+  static withPlayers(config: GameConfig, playerIds: string[]): GameConfig {
+    if (!SideGames.isTeamFormat(config.format)) {
+      return { ...config, sides: playerIds.map(id => [id]) };
+    }
+    const sides = [0, 1].map(i => (config.sides[i] || []).filter(id => playerIds.includes(id)));
+    const placed = SideGames.getPlayerIds({ ...config, sides });
+    playerIds.filter(id => !placed.includes(id)).forEach(id => {
+      sides[sides[0].length <= sides[1].length ? 0 : 1].push(id);
+    });
+    return { ...config, sides };
+  }
+
+  static moveToSide(config: GameConfig, playerId: string, side: 0 | 1): GameConfig {
+    const sides = config.sides.map(ids => ids.filter(id => id !== playerId));
+    sides[side] = [...(sides[side] || []), playerId];
+    return { ...config, sides };
+  }
+
+  static checkConfig(config: GameConfig, holeCount: number): string | null {
+    const playerCount = SideGames.getPlayerIds(config).length;
+    if (!(config.stake >= 0)) return 'Enter a stake of zero or more';
+    const allowance = SideGames.getAllowance(config);
+    if (!(allowance >= 0 && allowance <= 100)) return 'Enter a handicap allowance from 0 to 100%';
+    switch (config.format) {
+      case 'match_play':
+        if (playerCount !== 2) return 'Match play is for two players';
+        break;
+      case 'four_ball':
+        if (playerCount !== 4 || config.sides.some(side => side.length !== 2)) {
+          return 'Four-ball needs four players in two sides of two';
+        }
+        break;
+      case 'nassau':
+        if (holeCount !== NASSAU_HOLES) return 'Nassau is played over 18 holes';
+        if (config.sides.length !== 2 || config.sides[0].length === 0 || config.sides[0].length !== config.sides[1].length) {
+          return 'Nassau needs two sides with the same number of players';
+        }
+        break;
+      default:
+        if (playerCount < 2) return `${formatLabel(config.format)} needs at least two players`;
+    }
+    return null;
+  }
+
+  // Strokes each player gets on each hole, from the allowance of their course handicap. Head-to-head
+  // games play off the lowest handicap in the game; Stableford uses each player's own.
+  static getStrokes(config: GameConfig, players: GamePlayer[], holeNumbers: number[]): { [playerId: string]: { [holeNumber: number]: number } } {
+    const allowance = SideGames.getAllowance(config);
+    const handicaps = players.map(p => HandicapCalculator.calculatePlayingHandicap(p.courseHandicap, allowance) ?? 0);
+    const lowest = config.format === 'stableford' ? 0 : Math.min(...handicaps);
+    const strokes: { [playerId: string]: { [holeNumber: number]: number } } = {};
+    players.forEach((player, i) => {
+      strokes[player.playerId] = config.net
+        ? HandicapCalculator.getStrokesReceived(handicaps[i] - lowest, player.holes.filter(h => holeNumbers.includes(h.number)))
+        : {};
+    });
+    return strokes;
+  }
+
+  // holeNumbers are in play order, so a shotgun or back-nine start is scored as played
+  static play(config: GameConfig, players: GamePlayer[], holeNumbers: number[]): GameStandings {
+    const inGame = SideGames.getPlayerIds(config);
+    const gamePlayers = players.filter(p => inGame.includes(p.playerId));
+    const strokes = SideGames.getStrokes(config, gamePlayers, holeNumbers);
+
+    const scoreOn = (playerId: string, holeNumber: number): number | null => {
+      const score = gamePlayers.find(p => p.playerId === playerId)?.holeScores.find(h => h.holeNumber === holeNumber)?.score;
+      return typeof score === 'number' && score > 0 ? score - (strokes[playerId]?.[holeNumber] || 0) : null;
+    };
+    const holesPlayed = holeNumbers.filter(n => inGame.every(id => scoreOn(id, n) !== null)).length;
+
+    const standings: GameStandings = {
+      format: config.format,
+      matches: [],
+      points: {},
+      skins: [],
+      carryover: 0,
+      holesPlayed,
+      complete: holeNumbers.length > 0 && holesPlayed === holeNumbers.length
+    };
+    inGame.forEach(id => { standings.points[id] = 0; });
+
+    if (SideGames.isTeamFormat(config.format)) {
+      // Best ball of each side; a hole counts once both sides have a score on it
+      const results: { [holeNumber: number]: number } = {};
+      holeNumbers.forEach(n => {
+        const best = config.sides.map(side => {
+          const scores = side.map(id => scoreOn(id, n)).filter((s): s is number => s !== null);
+          return scores.length > 0 ? Math.min(...scores) : null;
+        });
+        if (best[0] !== null && best[1] !== null) {
+          results[n] = best[0] < best[1] ? 1 : best[1] < best[0] ? -1 : 0;
+        }
+      });
+
+      if (config.format === 'nassau') {
+        const half = Math.floor(holeNumbers.length / 2);
+        standings.matches = [
+          ...SideGames.playWithPresses('Front 9', holeNumbers.slice(0, half), results, config.pressAfter || 0),
+          ...SideGames.playWithPresses('Back 9', holeNumbers.slice(half), results, config.pressAfter || 0),
+          SideGames.playMatch('Overall', holeNumbers, results)
+        ];
+      } else {
+        standings.matches = [SideGames.playMatch('Match', holeNumbers, results)];
+      }
+      return standings;
+    }
+
+    if (config.format === 'skins') {
+      holeNumbers.forEach(n => {
+        const scores = inGame.map(id => ({ id, score: scoreOn(id, n) }));
+        if (scores.some(s => s.score === null)) return;
+        const low = Math.min(...scores.map(s => s.score as number));
+        const winners = scores.filter(s => s.score === low);
+        const skins = standings.carryover + 1;
+        if (winners.length === 1) {
+          standings.skins.push({ holeNumber: n, playerId: winners[0].id, skins });
+          standings.points[winners[0].id] += skins;
+          standings.carryover = 0;
+        } else {
+          standings.carryover = skins;
+        }
+      });
+      return standings;
+    }
+
+    // Stableford counts every hole a player has scored, without waiting on the others
+    gamePlayers.forEach(player => {
+      holeNumbers.forEach(n => {
+        const score = player.holeScores.find(h => h.holeNumber === n)?.score;
+        const hole = player.holes.find(h => h.number === n);
+        if (typeof score !== 'number' || score <= 0) return;
+        standings.points[player.playerId] += stablefordPoints(score, hole?.par || 4, strokes[player.playerId]?.[n] || 0);
+      });
+    });
+    return standings;
+  }
+
+  // A match is over once the side behind can't catch up; holes after that don't count
+  static playMatch(label: string, holeNumbers: number[], results: { [holeNumber: number]: number }): MatchStatus {
+    let up = 0;
+    let played = 0;
+    let finished = false;
+    holeNumbers.forEach(n => {
+      if (finished || results[n] === undefined) return;
+      up += results[n];
+      played++;
+      if (Math.abs(up) > holeNumbers.length - played) finished = true;
+    });
+    const remaining = holeNumbers.length - played;
+    if (remaining === 0) finished = true;
+    return {
+      label,
+      holeNumbers,
+      up,
+      played,
+      remaining,
+      winner: finished && up !== 0 ? (up > 0 ? 0 : 1) : null,
+      finished
+    };
+  }
+
+  // Each time a side falls pressAfter down in the latest bet, a press starts on the next hole and
+  // runs to the end of the nine
+  static playWithPresses(label: string, holeNumbers: number[], results: { [holeNumber: number]: number }, pressAfter: number): MatchStatus[] {
+    const matches = [SideGames.playMatch(label, holeNumbers, results)];
+    let start = 0;
+    while (pressAfter > 0) {
+      let up = 0;
+      let trigger = -1;
+      for (let i = start; i < holeNumbers.length; i++) {
+        if (results[holeNumbers[i]] === undefined) break;
+        up += results[holeNumbers[i]];
+        if (Math.abs(up) >= pressAfter) {
+          trigger = i;
+          break;
+        }
+      }
+      if (trigger === -1 || trigger >= holeNumbers.length - 1) break;
+      start = trigger + 1;
+      matches.push(SideGames.playMatch(`${label} press ${matches.length}`, holeNumbers.slice(start), results));
+    }
+    return matches;
+  }
+
+  // Finished matches are paid player for player across the sides; skins by every other player to
+  // the winner; Stableford on the point difference between each pair
+  static settle(config: GameConfig, standings: GameStandings): Settlement {
+    const inGame = SideGames.getPlayerIds(config);
+    const owed: { [pair: string]: number } = {};
+    const pay = (from: string, to: string, amount: number) => {
+      if (from === to || amount <= 0) return;
+      owed[`${from}|${to}`] = (owed[`${from}|${to}`] || 0) + amount;
+    };
+
+    if (SideGames.isTeamFormat(config.format)) {
+      standings.matches.forEach(match => {
+        if (match.winner === null) return;
+        const winners = config.sides[match.winner];
+        const losers = config.sides[1 - match.winner];
+        losers.forEach((id, i) => pay(id, winners[i % winners.length], config.stake));
+      });
+    } else if (config.format === 'skins') {
+      standings.skins.forEach(skin => {
+        inGame.forEach(id => pay(id, skin.playerId, skin.skins * config.stake));
+      });
+    } else {
+      inGame.forEach(a => inGame.forEach(b => {
+        const difference = standings.points[a] - standings.points[b];
+        if (difference > 0) pay(b, a, difference * config.stake);
+      }));
+    }
+
+    // Debts between the same two players are netted into one payment
+    const net: { [playerId: string]: number } = {};
+    inGame.forEach(id => { net[id] = 0; });
+    const payments: Payment[] = [];
+    inGame.forEach((a, i) => inGame.slice(i + 1).forEach(b => {
+      const amount = (owed[`${a}|${b}`] || 0) - (owed[`${b}|${a}`] || 0);
+      if (amount === 0) return;
+      const payment = amount > 0 ? { from: a, to: b, amount } : { from: b, to: a, amount: -amount };
+      payments.push(payment);
+      net[payment.from] -= payment.amount;
+      net[payment.to] += payment.amount;
+    }));
+    return { net, payments };
+  }
+
+  static formatAmount(amount: number): string {
+    return Number.isInteger(amount) ? String(amount) : amount.toFixed(2);
+  }
+
+  static describeMatch(match: MatchStatus, sideNames: string[]): string {
+    const leader = sideNames[match.up > 0 ? 0 : 1];
+    const margin = Math.abs(match.up);
+    if (match.played === 0) return `${match.label}: not started`;
+    if (match.finished) {
+      if (match.winner === null) return `${match.label}: halved`;
+      return `${match.label}: ${leader} won ${match.remaining > 0 ? `${margin}&${match.remaining}` : `${margin} up`}`;
+    }
+    const status = match.up === 0 ? 'all square' : `${leader} ${margin} up`;
+    return `${match.label}: ${status} thru ${match.played}`;
+  }
+
+  // One line per match, or players from best to worst for skins and Stableford
+  static describe(config: GameConfig, standings: GameStandings, nameOf: (playerId: string) => string): string[] {
+    if (SideGames.isTeamFormat(config.format)) {
+      const sideNames = config.sides.map(side => side.map(nameOf).join(' & '));
+      return standings.matches.map(match => SideGames.describeMatch(match, sideNames));
+    }
+    const unit = config.format === 'skins' ? 'skin' : 'pt';
+    const lines = SideGames.getPlayerIds(config)
+      .slice()
+      .sort((a, b) => standings.points[b] - standings.points[a])
+      .map(id => `${nameOf(id)}: ${standings.points[id]} ${unit}${standings.points[id] === 1 ? '' : 's'}`);
+    if (standings.carryover > 0) {
+      lines.push(`${standings.carryover} skin${standings.carryover === 1 ? '' : 's'} carried over${standings.complete ? ', unclaimed' : ''}`);
+    }
+    return lines;
+  }
+
+  static createResult(config: GameConfig, standings: GameStandings, nameOf: (playerId: string) => string): SideGameResult {
+    const names: { [playerId: string]: string } = {};
+    SideGames.getPlayerIds(config).forEach(id => { names[id] = nameOf(id); });
+    const settlement = SideGames.settle(config, standings);
+    return {
+      config,
+      names,
+      results: SideGames.describe(config, standings, nameOf),
+      net: settlement.net,
+      payments: settlement.payments,
+      complete: standings.complete,
+      settledAt: Date.now()
+    };
+  }
+}
+
+export default SideGames;
+export { GAME_FORMATS, formatLabel };
+export type { GameFormat, GameConfig, GamePlayer, GameStandings, MatchStatus, Payment, Settlement, SideGameResult };
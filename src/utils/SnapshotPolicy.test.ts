@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import SnapshotPolicy, { SNAPSHOT_INTERVAL_MS, type SnapshotSummary } from './SnapshotPolicy';
+import RecordId from './RecordId';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Midday local time, so a fraction of a day back stays on the calendar day it looks like
+const now = new Date(2026, 4, 20, 12).getTime();
+const snapshot = (id: string, daysAgo: number, reason?: SnapshotSummary['reason']): SnapshotSummary => ({
+  id,
+  reason,
+  createdAt: now - daysAgo * DAY_MS,
+  fromVersion: 8
+});
+
+describe('SnapshotPolicy.isDue', () => {
+  it('takes a snapshot once a day', () => {
+    expect(SnapshotPolicy.isDue([], now)).toBe(true);
+    expect(SnapshotPolicy.isDue([snapshot('s1', 0.5, 'scheduled')], now)).toBe(false);
+    expect(SnapshotPolicy.isDue([{ ...snapshot('s1', 0, 'manual'), createdAt: now - SNAPSHOT_INTERVAL_MS }], now)).toBe(true);
+  });
+
+  it('does not count copies taken before an upgrade', () => {
+    expect(SnapshotPolicy.isDue([snapshot('u1', 0.1, 'upgrade'), snapshot('u2', 0.1)], now)).toBe(true);
+  });
+});
+
+describe('SnapshotPolicy.expired', () => {
+  it('keeps the last day, then one a day for a week, then one a week for a month', () => {
+    const expired = SnapshotPolicy.expired([
+      snapshot('s0', 0.5, 'scheduled'),
+      snapshot('s1', 1.2, 'scheduled'),
+      snapshot('s2', 1.4, 'before_import'),
+      snapshot('s3', 2.1, 'scheduled'),
+      snapshot('s4', 3, 'scheduled'),
+      snapshot('s5', 8, 'scheduled'),
+      snapshot('s6', 9, 'scheduled'),
+      snapshot('s7', 12, 'scheduled'),
+      snapshot('s8', 20, 'scheduled'),
+      snapshot('s9', 40, 'scheduled')
+    ], now);
+
+    // The earliest of each day or week stays, so s2 outlives s1 and s7 outlives s6 and s5
+    expect(expired).toEqual(['s9', 's6', 's5', 's1']);
+  });
+
+  it('keeps the three newest upgrade copies whatever their age', () => {
+    const expired = SnapshotPolicy.expired([
+      snapshot('u1', 1, 'upgrade'),
+      snapshot('u2', 2),
+      snapshot('u3', 50, 'upgrade'),
+      snapshot('u4', 60, 'upgrade')
+    ], now);
+
+    expect(expired).toEqual(['u4']);
+  });
+});
+
+describe('SnapshotPolicy.compare', () => {
+  it('lists the rounds a rollback would bring back, remove and change', () => {
+    const courseId = RecordId.create('course');
+    const round = (id: string, totalScore: number) => ({ id, courseId, date: '2026-05-01', totalScore });
+    const kept = RecordId.create('round');
+    const changed = RecordId.create('round');
+    const added = RecordId.create('round');
+
+    const preview = SnapshotPolicy.compare({
+      courses: [{ id: courseId, name: 'Test Links' }],
+      rounds: [round(kept, 80), round(changed, 85), round('legacy-7', 90)],
+      holeScores: [{}, {}]
+    }, {
+      courses: [{ id: courseId, name: 'Test Links' }],
+      rounds: [round(kept, 80), round(changed, 84), round(added, 78)]
+    });
+
+    expect(preview.counts.rounds).toEqual({ snapshot: 3, now: 3 });
+    expect(preview.counts.holeScores).toEqual({ snapshot: 2, now: 0 });
+    // Old ids are compared as they'll be once restored
+    expect(preview.roundsBack).toEqual([round(RecordId.fromLegacy('round', 'legacy-7'), 90)]);
+    expect(preview.roundsGone.map(r => r.id)).toEqual([added]);
+    expect(preview.roundsChanged).toBe(1);
+    expect(preview.courseNames[courseId]).toBe('Test Links');
+  });
+});
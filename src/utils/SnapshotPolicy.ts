@@ -0,0 +1,128 @@
+// When local snapshots are taken, which ones are kept, and what rolling back to one would change.
+// Snapshots live in the backup database next to the copies taken before schema upgrades,
+// so rolling the main database back can't lose them.
+import RecordId from './RecordId';
+
+type SnapshotReason = 'scheduled' | 'manual' | 'before_clear' | 'before_import' | 'before_restore' | 'upgrade';
+
+interface SnapshotSummary {
+  id: string;
+  reason?: SnapshotReason; // Missing on copies taken before schema upgrades by older versions
+  createdAt: number;
+  fromVersion: number;
+  counts?: { [storeName: string]: number };
+}
+
+interface RoundSummary {
+  id: string;
+  courseId: string;
+  date: string;
+  totalScore: number;
+  lastModified?: number;
+}
+
+interface SnapshotPreview {
+  counts: { [storeName: string]: { snapshot: number; now: number } };
+  roundsBack: RoundSummary[]; // In the snapshot but not on the device now
+  roundsGone: RoundSummary[]; // On the device now but not in the snapshot
+  roundsChanged: number;
+  courseNames: { [courseId: string]: string };
+}
+
+type StoreRecords = { [storeName: string]: any[] };
+
+const PREVIEW_STORES = ['courses', 'rounds', 'holeScores', 'shots'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const SNAPSHOT_INTERVAL_MS = DAY_MS;
+// Everything from the last day, then one a day for a week, then one a week for a month
+const KEEP_ALL_MS = DAY_MS;
+const DAILY_FOR_MS = 7 * DAY_MS;
+const WEEKLY_FOR_MS = 30 * DAY_MS;
+const MAX_UPGRADE_SNAPSHOTS = 3;
+
+const SNAPSHOT_REASONS: { [reason in SnapshotReason]: string } = {
+  scheduled: 'Daily snapshot',
+  manual: 'Taken by hand',
+  before_clear: 'Before clearing data',
+  before_import: 'Before an import',
+  before_restore: 'Before a rollback',
+  upgrade: 'Before an app update'
+};
+
+const isUpgrade = (snapshot: SnapshotSummary) => !snapshot.reason || snapshot.reason === 'upgrade';
+
+class SnapshotPolicy {
+  static isDue(snapshots: SnapshotSummary[], now: number = Date.now()): boolean {
+    return !snapshots.some(s => !isUpgrade(s) && now - s.createdAt < SNAPSHOT_INTERVAL_MS);
+  }
+
+  // Ids of the snapshots the retention policy no longer keeps. Within each day or week the
+  // earliest snapshot stays, so a snapshot taken before clearing or importing outlives the ones after it.
+  static expired(snapshots: SnapshotSummary[], now: number = Date.now()): string[] {
+    const upgrades = snapshots.filter(isUpgrade).sort((a, b) => b.createdAt - a.createdAt);
+    const removed = upgrades.slice(MAX_UPGRADE_SNAPSHOTS).map(s => s.id);
+
+    const keptBuckets = new Set<string>();
+    snapshots
+      .filter(s => !isUpgrade(s))
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach(snapshot => {
+        const age = now - snapshot.createdAt;
+        if (age < KEEP_ALL_MS) return;
+
+        let bucket: string | null = null;
+        if (age < DAILY_FOR_MS) bucket = `day-${new Date(snapshot.createdAt).toDateString()}`;
+        else if (age < WEEKLY_FOR_MS) bucket = `week-${Math.floor(age / (7 * DAY_MS))}`;
+
+        if (bucket && !keptBuckets.has(bucket)) {
+          keptBuckets.add(bucket);
+        } else {
+          removed.push(snapshot.id);
+        }
+      });
+
+    return removed;
+  }
+
+  static compare(snapshotData: StoreRecords, currentData: StoreRecords): SnapshotPreview {
+    const counts: SnapshotPreview['counts'] = {};
+    PREVIEW_STORES.forEach(storeName => {
+      counts[storeName] = { snapshot: (snapshotData[storeName] || []).length, now: (currentData[storeName] || []).length };
+    });
+
+    // Snapshots taken before record ids changed are compared by the ids they'll get once restored
+    const snapshotRounds: RoundSummary[] = (snapshotData.rounds || []).map(round => RecordId.normalize('rounds', round));
+    const currentRounds: RoundSummary[] = currentData.rounds || [];
+    const currentById = new Map<string, RoundSummary>();
+    currentRounds.forEach(round => currentById.set(round.id, round));
+    const snapshotIds = new Set(snapshotRounds.map(round => round.id));
+
+    const courseNames: SnapshotPreview['courseNames'] = {};
+    (snapshotData.courses || []).map(course => RecordId.normalize('courses', course))
+      .concat(currentData.courses || [])
+      .forEach(course => {
+        courseNames[course.id] = course.name;
+      });
+
+    return {
+      counts,
+      roundsBack: snapshotRounds.filter(round => !currentById.has(round.id)),
+      roundsGone: currentRounds.filter(round => !snapshotIds.has(round.id)),
+      roundsChanged: snapshotRounds.filter(round => {
+        const current = currentById.get(round.id);
+        return current && JSON.stringify(current) !== JSON.stringify(round);
+      }).length,
+      courseNames
+    };
+  }
+
+  static describe(snapshot: SnapshotSummary): string {
+    return SNAPSHOT_REASONS[snapshot.reason || 'upgrade'];
+  }
+}
+
+export default SnapshotPolicy;
+export { SNAPSHOT_INTERVAL_MS };
+export type { SnapshotReason, SnapshotSummary, SnapshotPreview, StoreRecords };
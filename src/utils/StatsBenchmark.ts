@@ -0,0 +1,102 @@
+// Benchmark for StatsCalculator with generated rounds (run with `npm run bench:stats`)
+import StatsCalculator from './StatsCalculator';
+
+interface BenchmarkResult {
+  label: string;
+  ms: number;
+}
+
+const PARS = [4, 4, 3, 5, 4, 4, 3, 4, 5, 4, 3, 4, 5, 4, 4, 3, 4, 5];
+
+// Deterministic pseudo-random numbers so runs are comparable
+const createRandom = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+const time = (label: string, fn: () => void): BenchmarkResult => {
+  const start = performance.now();
+  fn();
+  return { label, ms: performance.now() - start };
+};
+
+export function generateBenchmarkData(roundCount: number, courseCount = 20) {
+  const random = createRandom(42);
+  const courses = Array.from({ length: courseCount }, (_, c) => ({
+    id: `course-${c}`,
+    name: `Course ${c}`,
+    location: {},
+    isHomeCourse: c === 0,
+    imported: false,
+    holes: PARS.map((par, i) => ({ number: i + 1, par, handicap: ((i * 7) % 18) + 1, yardages: {} })),
+    par: PARS.reduce((sum, par) => sum + par, 0),
+    courseRating: 70 + (c % 5),
+    slopeRating: 115 + c
+  }));
+
+  const rounds: any[] = [];
+  const holeScores: any[] = [];
+  const start = new Date(2010, 0, 1).getTime();
+  for (let r = 0; r < roundCount; r++) {
+    const id = `round-${r}`;
+    const course = courses[r % courseCount];
+    let totalScore = 0;
+    PARS.forEach((par, i) => {
+      const score = par + Math.floor(random() * 4) - 1;
+      totalScore += score;
+      holeScores.push({
+        id: `hole-${id}-${i + 1}`,
+        roundId: id,
+        holeNumber: i + 1,
+        score,
+        putts: Math.floor(random() * 3) + 1,
+        fairwayHit: par === 3 ? 'n/a' : random() > 0.5 ? 'yes' : 'no',
+        greenInRegulation: random() > 0.6,
+        penaltyStrokes: random() > 0.9 ? 1 : 0
+      });
+    });
+    rounds.push({
+      id,
+      courseId: course.id,
+      date: new Date(start + r * 86400000).toISOString(),
+      teeBox: 'Regular',
+      totalScore,
+      scoreToPar: totalScore - course.par,
+      differential: null,
+      completed: true,
+      lastModified: r
+    });
+  }
+
+  return { rounds, holeScores, courses };
+}
+
+export function runStatsBenchmark(roundCount = 5000): BenchmarkResult[] {
+  const { rounds, holeScores, courses } = generateBenchmarkData(roundCount);
+  const results: BenchmarkResult[] = [];
+  let aggregates = StatsCalculator.getRoundAggregates(rounds, holeScores, courses);
+
+  results.push(time(`Full stats, no cache (${rounds.length} rounds, ${holeScores.length} holes)`, () => {
+    StatsCalculator.calculateAllStats(rounds, holeScores, courses);
+  }));
+  results.push(time('Build all round aggregates', () => {
+    aggregates = StatsCalculator.getRoundAggregates(rounds, holeScores, courses);
+  }));
+  results.push(time('Full stats from cached aggregates', () => {
+    StatsCalculator.calculateAllStats(rounds, holeScores, courses, {}, aggregates);
+  }));
+
+  // Saving one more round only aggregates that round
+  const extra = generateBenchmarkData(1);
+  const newRound = { ...extra.rounds[0], id: 'round-new', lastModified: Date.now() };
+  const newHoles = extra.holeScores.map((h: any) => ({ ...h, roundId: newRound.id }));
+  results.push(time('Incremental update after saving one round', () => {
+    const aggregate = StatsCalculator.buildRoundAggregate(newRound, newHoles, courses[0]);
+    StatsCalculator.calculateAllStats([...rounds, newRound], holeScores, courses, {}, [...aggregates, aggregate]);
+  }));
+  results.push(time('Filtered stats (one course, 18 holes)', () => {
+    StatsCalculator.calculateAllStats(rounds, holeScores, courses, { courseId: courses[0].id, holes: '18' }, aggregates);
+  }));
+
+  return results;
+}
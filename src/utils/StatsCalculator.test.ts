@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import StatsCalculator from './StatsCalculator';
+
+const course: any = {
+  id: 'course-1',
+  name: 'Test Links',
+  par: 12,
+  holes: [1, 2, 3].map(number => ({ number, par: 4, handicap: number, yardages: {} })),
+  lastModified: 1
+};
+const round: any = { id: 'round-1', courseId: 'course-1', date: '2026-05-01', teeBox: 'White', totalScore: 13, lastModified: 1 };
+const hole = (holeNumber: number, fields: any) => ({
+  id: `hole-${holeNumber}`,
+  roundId: 'round-1',
+  holeNumber,
+  putts: 2,
+  fairwayHit: 'yes',
+  greenInRegulation: false,
+  penaltyStrokes: 0,
+  ...fields
+});
+
+describe('StatsCalculator short game', () => {
+  it('only counts missed greens as scramble chances when the short game was recorded', () => {
+    const aggregate = StatsCalculator.buildRoundAggregate(round, [
+      // Nothing recorded around the green: GIR is just unticked
+      hole(1, { score: 4 }),
+      hole(2, { score: 4, putts: 1, upAndDownAttempt: true, chipCount: 1 }),
+      hole(3, { score: 5, greensideBunker: true })
+    ], course);
+
+    expect(aggregate.scrambleChances).toBe(2);
+    expect(aggregate.scrambles).toBe(1);
+    expect(aggregate.sandSaveChances).toBe(1);
+    expect(aggregate.sandSaves).toBe(0);
+    expect(aggregate.upAndDownChances).toBe(1);
+    expect(aggregate.upAndDowns).toBe(1);
+  });
+});
+
+describe('StatsCalculator tee pars', () => {
+  // The forward tee plays hole 1 as a par 5
+  const teeCourse: any = {
+    ...course,
+    teeBoxes: [
+      { key: 'white', name: 'White' },
+      { key: 'red', name: 'Red', holes: [{ number: 1, par: 5, handicap: 3 }] }
+    ]
+  };
+  const redRound: any = { ...round, id: 'round-red', teeBox: 'Red', teeKey: 'red' };
+  const whiteRound: any = { ...round, id: 'round-white' };
+
+  it('scores a round against the pars of the tee it was played from', () => {
+    const aggregate = StatsCalculator.buildRoundAggregate(redRound, [hole(1, { roundId: 'round-red', score: 5 })], teeCourse);
+
+    expect(aggregate.distribution.pars).toBe(1);
+    expect(aggregate.parTypes[5].holes).toBe(1);
+    expect(aggregate.parTypes[4].holes).toBe(0);
+  });
+
+  it('averages each hole against the par of each round', () => {
+    const averages = StatsCalculator.getHoleAverages([
+      StatsCalculator.buildRoundAggregate(redRound, [hole(1, { roundId: 'round-red', score: 5 })], teeCourse),
+      StatsCalculator.buildRoundAggregate(whiteRound, [hole(1, { roundId: 'round-white', score: 5 })], teeCourse)
+    ], [redRound, whiteRound], [teeCourse], 'course-1');
+
+    expect(averages[0].avgScore).toBe(5);
+    expect(averages[0].toPar).toBe(0.5);
+  });
+});
+
+describe('StatsCalculator hole averages', () => {
+  it('averages the cached aggregates of the given rounds only', () => {
+    const other: any = { ...round, id: 'round-2' };
+    const aggregates = [
+      StatsCalculator.buildRoundAggregate(round, [hole(1, { score: 3 }), hole(2, { score: 6 })], course),
+      StatsCalculator.buildRoundAggregate(other, [hole(1, { roundId: 'round-2', score: 5 })], course)
+    ];
+
+    expect(aggregates[0].holeResults).toEqual({ 1: { score: 3, par: 4 }, 2: { score: 6, par: 4 } });
+    expect(StatsCalculator.getHoleAverages(aggregates, [round, other], [course], 'course-1').map(h => h.avgScore))
+      .toEqual([4, 6, 0]);
+    // A round filtered out of the view drops out of the averages
+    expect(StatsCalculator.getHoleAverages(aggregates, [other], [course], 'course-1')[0]).toMatchObject({ avgScore: 5, count: 1, toPar: 1 });
+  });
+});
@@ -1,4 +1,7 @@
 // Enhanced Statistics Calculator with TypeScript
+import HandicapCalculator, { type HandicapRevision, type TeeBox } from './HandicapCalculator';
+import StrokesGainedCalculator, { type Shot } from './StrokesGained';
+
 interface Location {
   address?: string;
   city?: string;
@@ -31,6 +34,7 @@ interface Course {
   bogeyRating?: number;
   frontNineRating?: number;
   backNineRating?: number;
+  lastModified?: number;
 }
 
 interface Round {
@@ -38,10 +42,16 @@ interface Round {
   courseId: string;
   date: string;
   teeBox: string;
+  teeKey?: string;
   totalScore: number;
   scoreToPar: number;
-  differential: number;
+  differential: number | null;
   completed: boolean;
+  holesPlayed?: number;
+  holeNumbers?: number[];
+  roundType?: string;
+  tags?: string[];
+  lastModified?: number;
 }
 
 interface HoleScore {
@@ -53,21 +63,43 @@ interface HoleScore {
   fairwayHit: string;
   greenInRegulation: boolean;
   penaltyStrokes: number;
-  sandSave?: boolean; // New field for sand saves
+  greensideBunker?: boolean | null; // Played from a greenside bunker
+  upAndDownAttempt?: boolean | null; // Ball was around the green needing a chip or pitch
+  chipCount?: number | null; // Chips and pitches before the first putt
 }
 
 interface Filters {
   courseId?: string;
   startDate?: string;
   endDate?: string;
+  teeBox?: string;
+  holes?: 'all' | '9' | '18';
+  roundType?: string;
+  tags?: string[];
 }
 
 interface ScoreDistribution {
-  birdiesOrBetter: number;
+  eagles: number; // Eagle or better
+  birdies: number;
   pars: number;
   bogeys: number;
   doubles: number;
-  others: number;
+  triplesPlus: number;
+}
+
+interface ParTypeStats {
+  par: number;
+  holes: number;
+  avgScore: number;
+  toPar: number;
+  distribution: ScoreDistribution;
+}
+
+interface ScoredHole {
+  holeScore: HoleScore;
+  round: Round;
+  par: number;
+  toPar: number;
 }
 
 interface StrokesGained {
@@ -85,39 +117,214 @@ interface HoleAverage {
   toPar: number;
 }
 
+interface ParTypeCounts {
+  holes: number;
+  strokes: number;
+  distribution: ScoreDistribution;
+}
+
+// Per-round counters cached in the roundStats store
+interface RoundAggregate {
+  roundId: string;
+  courseId: string;
+  version: number;
+  roundModified?: number;
+  courseModified?: number;
+  holes: number; // Scored holes with a known par
+  strokes: number;
+  puttHoles: number;
+  putts: number;
+  onePutts: number;
+  girHits: number;
+  girEligible: number;
+  firHits: number;
+  firEligible: number;
+  bogeyAvoided: number;
+  scrambleChances: number; // Missed greens with a known par
+  scrambles: number;
+  sandSaveChances: number;
+  sandSaves: number;
+  upAndDownChances: number;
+  upAndDowns: number;
+  shotTrackedHoles: number; // Holes with true strokes gained from shot data
+  distribution: ScoreDistribution;
+  parTypes: { [par: number]: ParTypeCounts };
+  strokesGained: StrokesGained;
+  holeResults: { [holeNumber: number]: { score: number; par: number } }; // Scored holes, for per-hole averages
+}
+
+interface AggregateSummary {
+  girPct: number;
+  firPct: number;
+  puttingAvg: number;
+  onePuttPct: number;
+  bogeyAvoidancePct: number;
+  birdieAvg: number;
+  scramblingPct: number;
+  sandSavePct: number;
+  upAndDownPct: number;
+  shortGameHoles: ShortGameHoles;
+  distribution: ScoreDistribution;
+  parTypeStats: ParTypeStats[];
+  strokesGained: StrokesGained;
+  shotTrackedHoles: number;
+}
+
+// Holes each short-game percentage was computed from
+interface ShortGameHoles {
+  scrambling: number;
+  sandSaves: number;
+  upAndDowns: number;
+}
+
+interface StatsIndex {
+  roundsById: Map<string, Round>;
+  coursesById: Map<string, Course>;
+  holesByTee: Map<string, Map<number, Hole>>; // Filled as rounds from each course and tee are read
+}
+
 export interface GolfStats {
   scoringAvg: number;
+  nineHoleScoringAvg: number;
   girPct: number;
   firPct: number;
   puttingAvg: number;
   handicap: number | null;
+  lowHandicapIndex: number | null;
+  handicapHistory: HandicapRevision[];
   distribution: ScoreDistribution;
+  parTypeStats: ParTypeStats[];
   strokesGained: StrokesGained;
+  shotTrackedHoles: number;
   scramblingPct: number;
   sandSavePct: number;
+  upAndDownPct: number;
+  shortGameHoles: ShortGameHoles;
   onePuttPct: number;
   birdieAvg: number;
   bogeyAvoidancePct: number;
 }
 
+const DEFAULT_HOLE_COUNT = 18;
+const PAR_TYPES = [3, 4, 5];
+
+// Bump when RoundAggregate changes shape or meaning so cached aggregates are rebuilt
+const AGGREGATE_VERSION = 6;
+
+const emptyDistribution = (): ScoreDistribution => ({
+  eagles: 0,
+  birdies: 0,
+  pars: 0,
+  bogeys: 0,
+  doubles: 0,
+  triplesPlus: 0
+});
+
+const emptyParTypeStats = (): ParTypeStats[] =>
+  PAR_TYPES.map(par => ({ par, holes: 0, avgScore: 0, toPar: 0, distribution: emptyDistribution() }));
+
+const addDistributions = (to: ScoreDistribution, from: ScoreDistribution) => {
+  to.eagles += from.eagles;
+  to.birdies += from.birdies;
+  to.pars += from.pars;
+  to.bogeys += from.bogeys;
+  to.doubles += from.doubles;
+  to.triplesPlus += from.triplesPlus;
+};
+
+const emptyAggregate = (round: Round, course: Course | undefined): RoundAggregate => ({
+  roundId: round.id,
+  courseId: round.courseId,
+  version: AGGREGATE_VERSION,
+  roundModified: round.lastModified,
+  courseModified: course?.lastModified,
+  holes: 0,
+  strokes: 0,
+  puttHoles: 0,
+  putts: 0,
+  onePutts: 0,
+  girHits: 0,
+  girEligible: 0,
+  firHits: 0,
+  firEligible: 0,
+  bogeyAvoided: 0,
+  scrambleChances: 0,
+  scrambles: 0,
+  sandSaveChances: 0,
+  sandSaves: 0,
+  upAndDownChances: 0,
+  upAndDowns: 0,
+  shotTrackedHoles: 0,
+  distribution: emptyDistribution(),
+  parTypes: PAR_TYPES.reduce((types: { [par: number]: ParTypeCounts }, par) => {
+    types[par] = { holes: 0, strokes: 0, distribution: emptyDistribution() };
+    return types;
+  }, {}),
+  strokesGained: { offTee: 0, approach: 0, shortGame: 0, putting: 0 },
+  holeResults: {}
+});
+
 class StatsCalculator {
-  static calculateScoringAverage(rounds: Round[], filters: Filters = {}): number {
+  static hasActiveFilters(filters: Filters = {}): boolean {
+    return !!(filters.courseId || filters.startDate || filters.endDate || filters.teeBox ||
+      (filters.holes && filters.holes !== 'all') || filters.roundType || (filters.tags && filters.tags.length > 0));
+  }
+
+  static filterRounds(rounds: Round[], filters: Filters = {}): Round[] {
     try {
-      if (!Array.isArray(rounds) || rounds.length === 0) return 0;
+      if (!Array.isArray(rounds)) return [];
 
-      let filteredRounds = rounds;
+      let filteredRounds = rounds.filter(r => !!r);
       if (filters.courseId) {
-        filteredRounds = filteredRounds.filter(r => r && r.courseId === filters.courseId);
+        filteredRounds = filteredRounds.filter(r => r.courseId === filters.courseId);
       }
+      // Compare calendar days so the end date includes rounds played that day
       if (filters.startDate) {
-        const startDate = new Date(filters.startDate);
-        filteredRounds = filteredRounds.filter(r => r && new Date(r.date) >= startDate);
+        filteredRounds = filteredRounds.filter(r => (r.date || '').slice(0, 10) >= filters.startDate!);
       }
       if (filters.endDate) {
-        const endDate = new Date(filters.endDate);
-        filteredRounds = filteredRounds.filter(r => r && new Date(r.date) <= endDate);
+        filteredRounds = filteredRounds.filter(r => (r.date || '').slice(0, 10) <= filters.endDate!);
       }
+      if (filters.teeBox) {
+        filteredRounds = filteredRounds.filter(r => r.teeBox === filters.teeBox);
+      }
+      if (filters.holes === '18') {
+        filteredRounds = this.getFullRounds(filteredRounds);
+      } else if (filters.holes === '9') {
+        filteredRounds = this.getNineHoleRounds(filteredRounds);
+      }
+      if (filters.roundType) {
+        // Rounds saved before round types existed count as casual
+        filteredRounds = filteredRounds.filter(r => (r.roundType || 'casual') === filters.roundType);
+      }
+      if (filters.tags && filters.tags.length > 0) {
+        filteredRounds = filteredRounds.filter(r => filters.tags!.every(tag => (r.tags || []).includes(tag)));
+      }
+
+      return filteredRounds;
+    } catch (error) {
+      console.error('Error filtering rounds:', error);
+      return [];
+    }
+  }
+
+  // Narrows rounds first, then keeps only the hole scores that belong to those rounds
+  static applyFilters(rounds: Round[], holeScores: HoleScore[], filters: Filters = {}): { rounds: Round[]; holeScores: HoleScore[] } {
+    const filteredRounds = this.filterRounds(rounds, filters);
+    if (!this.hasActiveFilters(filters)) {
+      return { rounds: filteredRounds, holeScores: Array.isArray(holeScores) ? holeScores : [] };
+    }
+
+    const roundIds = new Set(filteredRounds.map(r => r.id));
+    const filteredHoles = Array.isArray(holeScores) ? holeScores.filter(h => h && roundIds.has(h.roundId)) : [];
+    return { rounds: filteredRounds, holeScores: filteredHoles };
+  }
 
+  static calculateScoringAverage(rounds: Round[], filters: Filters = {}): number {
+    try {
+      if (!Array.isArray(rounds) || rounds.length === 0) return 0;
+
+      const filteredRounds = this.filterRounds(rounds, filters);
       if (filteredRounds.length === 0) return 0;
 
       const totalScore = filteredRounds.reduce((sum, r) => sum + (r.totalScore || 0), 0);
@@ -128,56 +335,285 @@ class StatsCalculator {
     }
   }
 
-  static calculateGIRPercentage(holeScores: HoleScore[], rounds: Round[], courses: Course[]): number {
-    try {
-      if (!Array.isArray(holeScores) || holeScores.length === 0) return 0;
-
-      // Exclude par 3s as per industry standard
-      const relevantHoles = holeScores.filter(h => {
-        if (!h || !h.roundId || !h.holeNumber) return false;
+  // Lookup maps built once per calculation instead of searching arrays for every hole
+  static buildIndex(rounds: Round[], courses: Course[]): StatsIndex {
+    const roundsById = new Map<string, Round>();
+    const coursesById = new Map<string, Course>();
 
-        const round = rounds.find(r => r && r.id === h.roundId);
-        if (!round) return false;
+    (Array.isArray(rounds) ? rounds : []).forEach(r => {
+      if (r && r.id) roundsById.set(r.id, r);
+    });
+    (Array.isArray(courses) ? courses : []).forEach(c => {
+      if (c && c.id) coursesById.set(c.id, c);
+    });
 
-        const course = courses.find(c => c && c.id === round.courseId);
-        if (!course || !course.holes) return false;
+    return { roundsById, coursesById, holesByTee: new Map() };
+  }
 
-        const hole = course.holes.find(ch => ch && ch.number === h.holeNumber);
-        return hole && hole.par !== 3; // Exclude par 3s
-      });
+  // Course holes, with the par and stroke index of the given tee where it has its own
+  static getHoleMap(course: Course | undefined, tee?: TeeBox): Map<number, Hole> {
+    const holes = new Map<number, Hole>();
+    const teeHoles = tee && Array.isArray(tee.holes) ? tee.holes : [];
+    (course?.holes || []).forEach(h => {
+      if (!h || !h.number) return;
+      const teeHole = teeHoles.find(t => t && t.number === h.number);
+      holes.set(h.number, teeHole ? { ...h, par: teeHole.par || h.par, handicap: teeHole.handicap || h.handicap } : h);
+    });
+    return holes;
+  }
 
-      if (relevantHoles.length === 0) return 0;
+  // Holes as set up on the tee the round was played from
+  static getRoundHoleMap(round: Round, course: Course | undefined): Map<number, Hole> {
+    return this.getHoleMap(course, HandicapCalculator.findTee(course, round.teeKey, round.teeBox));
+  }
 
-      const girs = relevantHoles.filter(h => h.greenInRegulation).length;
-      return (girs / relevantHoles.length) * 100;
-    } catch (error) {
-      console.error('Error calculating GIR percentage:', error);
-      return 0;
+  static getIndexedRoundHoles(index: StatsIndex, round: Round): Map<number, Hole> {
+    const key = `${round.courseId}|${round.teeKey || ''}|${round.teeBox || ''}`;
+    let holes = index.holesByTee.get(key);
+    if (!holes) {
+      holes = this.getRoundHoleMap(round, index.coursesById.get(round.courseId));
+      index.holesByTee.set(key, holes);
     }
+    return holes;
   }
 
-  static calculateFIRPercentage(holeScores: HoleScore[], rounds: Round[], courses: Course[]): number {
-    try {
-      if (!Array.isArray(holeScores) || holeScores.length === 0) return 0;
+  static groupByRound<T extends { roundId: string }>(items: T[]): Map<string, T[]> {
+    const byRound = new Map<string, T[]>();
+    (Array.isArray(items) ? items : []).forEach(h => {
+      if (!h || !h.roundId) return;
+      const list = byRound.get(h.roundId);
+      if (list) list.push(h);
+      else byRound.set(h.roundId, [h]);
+    });
+    return byRound;
+  }
+
+  static addToDistribution(distribution: ScoreDistribution, toPar: number): void {
+    if (toPar <= -2) distribution.eagles++;
+    else if (toPar === -1) distribution.birdies++;
+    else if (toPar === 0) distribution.pars++;
+    else if (toPar === 1) distribution.bogeys++;
+    else if (toPar === 2) distribution.doubles++;
+    else distribution.triplesPlus++;
+  }
+
+  // Additive per-round counters; stats for any set of rounds are sums of these
+  static buildRoundAggregate(round: Round, holeScores: HoleScore[], course: Course | undefined, shots: Shot[] = []): RoundAggregate {
+    const aggregate = emptyAggregate(round, course);
+    const courseHoles = this.getRoundHoleMap(round, course);
+    const shotsByHole = StrokesGainedCalculator.groupShotsByHole(shots);
+
+    (Array.isArray(holeScores) ? holeScores : []).forEach(hole => {
+      if (!hole || !hole.holeNumber) return;
+      const courseHole = courseHoles.get(hole.holeNumber);
+      const par = courseHole?.par;
+      const hasScore = typeof hole.score === 'number' && hole.score > 0;
+
+      if (typeof hole.putts === 'number' && hole.putts >= 0) {
+        aggregate.puttHoles++;
+        aggregate.putts += hole.putts;
+        if (hole.putts === 1) aggregate.onePutts++;
+      }
+
+      if (!courseHole) return;
+
+      // GIR excludes par 3s as per industry standard
+      if (par !== 3) {
+        aggregate.girEligible++;
+        if (hole.greenInRegulation) aggregate.girHits++;
+      }
+
+      // Par 3s don't have fairways
+      if (par && par > 3 && hole.fairwayHit !== 'n/a') {
+        aggregate.firEligible++;
+        if (hole.fairwayHit === 'yes') aggregate.firHits++;
+      }
+
+      // True strokes gained where the hole has complete shot data, the old estimate otherwise
+      const shotGained = StrokesGainedCalculator.calculateHole(shotsByHole.get(hole.holeNumber) || [], courseHole.par);
+      if (shotGained) {
+        aggregate.shotTrackedHoles++;
+        aggregate.strokesGained.offTee += shotGained.offTee;
+        aggregate.strokesGained.approach += shotGained.approach;
+        aggregate.strokesGained.shortGame += shotGained.shortGame;
+        aggregate.strokesGained.putting += shotGained.putting;
+      } else {
+        this.addStrokesGainedEstimate(aggregate.strokesGained, hole, courseHole.par);
+      }
 
-      // Only consider par 4s and 5s (par 3s don't have fairways)
-      const relevantHoles = holeScores.filter(h => {
-        if (!h || !h.roundId || !h.holeNumber || h.fairwayHit === 'n/a') return false;
+      if (!hasScore || !par) return;
+
+      const toPar = hole.score - par;
+      aggregate.holes++;
+      aggregate.strokes += hole.score;
+      aggregate.holeResults[hole.holeNumber] = { score: hole.score, par };
+      this.addToDistribution(aggregate.distribution, toPar);
+      if (toPar <= 1) aggregate.bogeyAvoided++;
+      this.addShortGame(aggregate, hole, par);
+
+      const parType = aggregate.parTypes[par];
+      if (parType) {
+        parType.holes++;
+        parType.strokes += hole.score;
+        this.addToDistribution(parType.distribution, toPar);
+      }
+    });
+
+    return aggregate;
+  }
+
+  // Short-game counters only use what was recorded for the hole; unrecorded holes are left out
+  static addShortGame(aggregate: RoundAggregate, hole: HoleScore, par: number) {
+    // Scrambling: missed the green in regulation and still made par or better. GIR is false until it's
+    // ticked, so a miss only counts when the hole's around-the-green play was recorded too.
+    const hasShortGame = [hole.greensideBunker, hole.upAndDownAttempt, hole.chipCount]
+      .some(value => value !== null && value !== undefined);
+    if (hole.greenInRegulation === false && hasShortGame) {
+      aggregate.scrambleChances++;
+      if (hole.score <= par) aggregate.scrambles++;
+    }
+
+    // Sand save: par or better after playing from a greenside bunker
+    if (hole.greensideBunker === true) {
+      aggregate.sandSaveChances++;
+      if (hole.score <= par) aggregate.sandSaves++;
+    }
 
-        const round = rounds.find(r => r && r.id === h.roundId);
-        if (!round) return false;
+    // Up and down: holed out in two strokes or fewer from around the green
+    const hasChips = typeof hole.chipCount === 'number' && hole.chipCount >= 0;
+    const hasPutts = typeof hole.putts === 'number' && hole.putts >= 0;
+    if (hole.upAndDownAttempt === true && hasChips && hasPutts) {
+      aggregate.upAndDownChances++;
+      if ((hole.chipCount as number) + hole.putts <= 2) aggregate.upAndDowns++;
+    }
+  }
 
-        const course = courses.find(c => c && c.id === round.courseId);
-        if (!course || !course.holes) return false;
+  // A cached aggregate is only reused while the round, its course and the aggregate format are unchanged
+  static isAggregateCurrent(aggregate: RoundAggregate | undefined, round: Round, course: Course | undefined): boolean {
+    return !!aggregate &&
+      aggregate.version === AGGREGATE_VERSION &&
+      aggregate.courseId === round.courseId &&
+      aggregate.roundModified === round.lastModified &&
+      aggregate.courseModified === course?.lastModified;
+  }
 
-        const hole = course.holes.find(ch => ch && ch.number === h.holeNumber);
-        return hole && hole.par > 3;
+  static getRoundAggregates(
+    rounds: Round[],
+    holeScores: HoleScore[],
+    courses: Course[],
+    cachedAggregates: RoundAggregate[] = [],
+    index: StatsIndex = this.buildIndex(rounds, courses),
+    shots: Shot[] = []
+  ): RoundAggregate[] {
+    const cached = new Map<string, RoundAggregate>();
+    (Array.isArray(cachedAggregates) ? cachedAggregates : []).forEach(a => {
+      if (a && a.roundId) cached.set(a.roundId, a);
+    });
+
+    // Hole scores are only grouped when some round has to be aggregated from scratch
+    let holesByRound: Map<string, HoleScore[]> | null = null;
+    let shotsByRound: Map<string, Shot[]> | null = null;
+
+    const aggregates: RoundAggregate[] = [];
+    index.roundsById.forEach(round => {
+      const course = index.coursesById.get(round.courseId);
+      const existing = cached.get(round.id);
+      if (existing && this.isAggregateCurrent(existing, round, course)) {
+        aggregates.push(existing);
+        return;
+      }
+      if (!holesByRound) holesByRound = this.groupByRound(holeScores);
+      if (!shotsByRound) shotsByRound = this.groupByRound(shots);
+      aggregates.push(this.buildRoundAggregate(round, holesByRound.get(round.id) || [], course, shotsByRound.get(round.id) || []));
+    });
+    return aggregates;
+  }
+
+  static summarizeAggregates(aggregates: RoundAggregate[]): AggregateSummary {
+    const total = emptyAggregate({ id: '', courseId: '' } as Round, undefined);
+    let roundsWithHoles = 0;
+
+    aggregates.forEach(a => {
+      if (!a) return;
+      if (a.holes > 0) roundsWithHoles++;
+      total.holes += a.holes;
+      total.strokes += a.strokes;
+      total.puttHoles += a.puttHoles;
+      total.putts += a.putts;
+      total.onePutts += a.onePutts;
+      total.girHits += a.girHits;
+      total.girEligible += a.girEligible;
+      total.firHits += a.firHits;
+      total.firEligible += a.firEligible;
+      total.bogeyAvoided += a.bogeyAvoided;
+      total.scrambleChances += a.scrambleChances || 0;
+      total.scrambles += a.scrambles || 0;
+      total.sandSaveChances += a.sandSaveChances || 0;
+      total.sandSaves += a.sandSaves || 0;
+      total.upAndDownChances += a.upAndDownChances || 0;
+      total.upAndDowns += a.upAndDowns || 0;
+      total.shotTrackedHoles += a.shotTrackedHoles || 0;
+      addDistributions(total.distribution, a.distribution);
+      total.strokesGained.offTee += a.strokesGained.offTee;
+      total.strokesGained.approach += a.strokesGained.approach;
+      total.strokesGained.shortGame += a.strokesGained.shortGame;
+      total.strokesGained.putting += a.strokesGained.putting;
+      PAR_TYPES.forEach(par => {
+        const from = a.parTypes[par];
+        const to = total.parTypes[par];
+        if (!from || !to) return;
+        to.holes += from.holes;
+        to.strokes += from.strokes;
+        addDistributions(to.distribution, from.distribution);
       });
+    });
+
+    const pct = (part: number, whole: number) => (whole > 0 ? (part / whole) * 100 : 0);
+
+    return {
+      girPct: pct(total.girHits, total.girEligible),
+      firPct: pct(total.firHits, total.firEligible),
+      puttingAvg: total.puttHoles > 0 ? total.putts / total.puttHoles : 0,
+      onePuttPct: pct(total.onePutts, total.puttHoles),
+      bogeyAvoidancePct: pct(total.bogeyAvoided, total.holes),
+      birdieAvg: roundsWithHoles > 0
+        ? (total.distribution.eagles + total.distribution.birdies) / roundsWithHoles
+        : 0,
+      scramblingPct: pct(total.scrambles, total.scrambleChances),
+      sandSavePct: pct(total.sandSaves, total.sandSaveChances),
+      upAndDownPct: pct(total.upAndDowns, total.upAndDownChances),
+      shortGameHoles: {
+        scrambling: total.scrambleChances,
+        sandSaves: total.sandSaveChances,
+        upAndDowns: total.upAndDownChances
+      },
+      distribution: total.distribution,
+      parTypeStats: PAR_TYPES.map(par => {
+        const p = total.parTypes[par];
+        const avgScore = p.holes ? p.strokes / p.holes : 0;
+        return { par, holes: p.holes, avgScore, toPar: p.holes ? avgScore - par : 0, distribution: p.distribution };
+      }),
+      strokesGained: total.strokesGained,
+      shotTrackedHoles: total.shotTrackedHoles
+    };
+  }
+
+  static summarize(holeScores: HoleScore[], rounds: Round[], courses: Course[]): AggregateSummary {
+    return this.summarizeAggregates(this.getRoundAggregates(rounds, holeScores, courses));
+  }
 
-      if (relevantHoles.length === 0) return 0;
+  static calculateGIRPercentage(holeScores: HoleScore[], rounds: Round[], courses: Course[]): number {
+    try {
+      return this.summarize(holeScores, rounds, courses).girPct;
+    } catch (error) {
+      console.error('Error calculating GIR percentage:', error);
+      return 0;
+    }
+  }
 
-      const hits = relevantHoles.filter(h => h.fairwayHit === 'yes').length;
-      return (hits / relevantHoles.length) * 100;
+  static calculateFIRPercentage(holeScores: HoleScore[], rounds: Round[], courses: Course[]): number {
+    try {
+      return this.summarize(holeScores, rounds, courses).firPct;
     } catch (error) {
       console.error('Error calculating FIR percentage:', error);
       return 0;
@@ -198,199 +634,124 @@ class StatsCalculator {
     }
   }
 
-  static getScoreDistribution(rounds: Round[]): ScoreDistribution {
-    try {
-      const distribution: ScoreDistribution = {
-        birdiesOrBetter: 0,
-        pars: 0,
-        bogeys: 0,
-        doubles: 0,
-        others: 0
-      };
+  // Hole scores joined to the par of the course hole they were played on
+  static getScoredHoles(holeScores: HoleScore[], rounds: Round[], courses: Course[]): ScoredHole[] {
+    if (!Array.isArray(holeScores) || !Array.isArray(rounds) || !Array.isArray(courses)) return [];
 
-      if (!Array.isArray(rounds)) return distribution;
+    const index = this.buildIndex(rounds, courses);
+    const scored: ScoredHole[] = [];
+    holeScores.forEach(holeScore => {
+      if (!holeScore || !holeScore.roundId || !holeScore.holeNumber || typeof holeScore.score !== 'number' || holeScore.score <= 0) return;
 
-      rounds.forEach(round => {
-        if (!round || typeof round.scoreToPar !== 'number') return;
+      const round = index.roundsById.get(holeScore.roundId);
+      if (!round) return;
 
-        const toPar = round.scoreToPar;
-        if (toPar <= -1) distribution.birdiesOrBetter++;
-        else if (toPar === 0) distribution.pars++;
-        else if (toPar === 1) distribution.bogeys++;
-        else if (toPar === 2) distribution.doubles++;
-        else distribution.others++;
-      });
+      const courseHole = this.getIndexedRoundHoles(index, round).get(holeScore.holeNumber);
+      if (!courseHole || !courseHole.par) return;
+
+      scored.push({ holeScore, round, par: courseHole.par, toPar: holeScore.score - courseHole.par });
+    });
+    return scored;
+  }
 
-      return distribution;
+  static getScoreDistribution(holeScores: HoleScore[], rounds: Round[], courses: Course[]): ScoreDistribution {
+    try {
+      return this.summarize(holeScores, rounds, courses).distribution;
     } catch (error) {
       console.error('Error calculating score distribution:', error);
-      return { birdiesOrBetter: 0, pars: 0, bogeys: 0, doubles: 0, others: 0 };
+      return emptyDistribution();
     }
   }
 
-  static calculateHandicap(rounds: Round[], courses: Course[]): number | null {
+  static getParTypeStats(holeScores: HoleScore[], rounds: Round[], courses: Course[]): ParTypeStats[] {
     try {
-      if (!Array.isArray(rounds) || rounds.length < 5) return null;
-      if (!Array.isArray(courses)) return null;
-
-      // Calculate differentials using actual course ratings
-      const differentials = rounds.map(round => {
-        if (!round) return null;
-
-        const course = courses.find(c => c && c.id === round.courseId);
-        if (!course || !course.courseRating || !course.slopeRating) {
-          // Fallback to basic calculation if no rating data
-          return round.differential || (round.totalScore - 72);
-        }
-
-        // Calculate differential using USGA formula:
-        // (Score - Course Rating) × 113 ÷ Slope Rating
-        const adjustedScore = round.totalScore;
-        const courseRating = course.courseRating;
-        const slopeRating = course.slopeRating;
-
-        return ((adjustedScore - courseRating) * 113) / slopeRating;
-      }).filter(d => d !== null && !isNaN(d)) as number[];
+      return this.summarize(holeScores, rounds, courses).parTypeStats;
+    } catch (error) {
+      console.error('Error calculating par type stats:', error);
+      return emptyParTypeStats();
+    }
+  }
 
-      if (differentials.length < 5) return null;
+  static calculateHandicap(rounds: Round[], courses: Course[]): number | null {
+    return HandicapCalculator.calculateHandicapIndex(rounds, courses).handicapIndex;
+  }
 
-      // Sort differentials and take average of best ones
-      differentials.sort((a, b) => a - b);
+  // Basic Strokes Gained estimate for one hole
+  static addStrokesGainedEstimate(results: StrokesGained, hole: HoleScore, par: number): void {
+    const score = hole.score;
+    const putts = hole.putts;
 
-      // Use USGA recommended number of differentials based on rounds played
-      let numToUse: number;
-      if (differentials.length <= 6) numToUse = 1;
-      else if (differentials.length <= 8) numToUse = 2;
-      else if (differentials.length <= 10) numToUse = 3;
-      else if (differentials.length <= 12) numToUse = 4;
-      else if (differentials.length <= 14) numToUse = 5;
-      else if (differentials.length <= 16) numToUse = 6;
-      else numToUse = Math.min(8, Math.floor(differentials.length / 2));
+    // Off-the-Tee: Based on fairway accuracy
+    if (hole.fairwayHit === 'yes' && par > 3) {
+      results.offTee += 0.2; // Bonus for hitting fairway on par 4/5
+    } else if (hole.fairwayHit === 'no' && par > 3) {
+      results.offTee -= 0.1; // Penalty for missing fairway
+    }
 
-      const bestDifferentials = differentials.slice(0, numToUse);
-      const handicap = bestDifferentials.reduce((sum, d) => sum + d, 0) / numToUse;
+    // Approach: Based on GIR
+    if (hole.greenInRegulation) {
+      if (par === 3) results.approach += 0.3;
+      else if (par === 4) results.approach += 0.4;
+      else if (par === 5) results.approach += 0.5;
+    } else {
+      // Penalty for missing green
+      results.approach -= 0.2;
+    }
 
-      return parseFloat(handicap.toFixed(1));
-    } catch (error) {
-      console.error('Error calculating handicap:', error);
-      return null;
+    // Short Game: Based on scrambling (getting up-and-down)
+    if (!hole.greenInRegulation && score <= par) {
+      results.shortGame += 0.5; // Up-and-down success
+    } else if (!hole.greenInRegulation && score > par) {
+      results.shortGame -= 0.3; // Failed scramble
     }
+
+    // Putting: Based on putts relative to par
+    if (putts === 1) results.putting += 0.3;
+    else if (putts === 2) results.putting += 0.1;
+    else if (putts >= 3) results.putting -= 0.2;
   }
 
-  static calculateStrokesGained(holeScores: HoleScore[], rounds: Round[], courses: Course[]): StrokesGained {
+  static calculateStrokesGained(holeScores: HoleScore[], rounds: Round[], courses: Course[], shots: Shot[] = []): StrokesGained {
     try {
-      const results: StrokesGained = { offTee: 0, approach: 0, shortGame: 0, putting: 0 };
-
       if (!Array.isArray(holeScores) || !Array.isArray(rounds) || !Array.isArray(courses)) {
-        return results;
+        return { offTee: 0, approach: 0, shortGame: 0, putting: 0 };
       }
-
-      holeScores.forEach(hole => {
-        if (!hole || !hole.roundId || !hole.holeNumber) return;
-
-        const round = rounds.find(r => r && r.id === hole.roundId);
-        if (!round) return;
-
-        const course = courses.find(c => c && c.id === round.courseId);
-        if (!course || !course.holes) return;
-
-        const courseHole = course.holes.find(h => h && h.number === hole.holeNumber);
-        if (!courseHole) return;
-
-        const par = courseHole.par;
-        const score = hole.score;
-        const putts = hole.putts;
-
-        // Basic Strokes Gained implementation
-        // Off-the-Tee: Based on fairway accuracy
-        if (hole.fairwayHit === 'yes' && par > 3) {
-          results.offTee += 0.2; // Bonus for hitting fairway on par 4/5
-        } else if (hole.fairwayHit === 'no' && par > 3) {
-          results.offTee -= 0.1; // Penalty for missing fairway
-        }
-
-        // Approach: Based on GIR
-        if (hole.greenInRegulation) {
-          if (par === 3) results.approach += 0.3;
-          else if (par === 4) results.approach += 0.4;
-          else if (par === 5) results.approach += 0.5;
-        } else {
-          // Penalty for missing green
-          results.approach -= 0.2;
-        }
-
-        // Short Game: Based on scrambling (getting up-and-down)
-        if (!hole.greenInRegulation && score <= par) {
-          results.shortGame += 0.5; // Up-and-down success
-        } else if (!hole.greenInRegulation && score > par) {
-          results.shortGame -= 0.3; // Failed scramble
-        }
-
-        // Putting: Based on putts relative to par
-        if (putts === 1) results.putting += 0.3;
-        else if (putts === 2) results.putting += 0.1;
-        else if (putts >= 3) results.putting -= 0.2;
-      });
-
-      return results;
+      return this.summarizeAggregates(
+        this.getRoundAggregates(rounds, holeScores, courses, [], this.buildIndex(rounds, courses), shots)
+      ).strokesGained;
     } catch (error) {
       console.error('Error calculating strokes gained:', error);
       return { offTee: 0, approach: 0, shortGame: 0, putting: 0 };
     }
   }
 
-  static calculateScramblingPercentage(holeScores: HoleScore[]): number {
+  static calculateScramblingPercentage(holeScores: HoleScore[], rounds: Round[], courses: Course[]): number {
     try {
-      if (!Array.isArray(holeScores) || holeScores.length === 0) return 0;
-
-      // Scrambling: Up-and-down percentage (miss GIR but make par or better)
-      const scrambleOpportunities = holeScores.filter(h =>
-        h && !h.greenInRegulation && typeof h.score === 'number'
-      );
-
-      if (scrambleOpportunities.length === 0) return 0;
-
-      const successfulScrambles = scrambleOpportunities.filter(h => {
-        // Need to get par or better after missing green
-        // This is a simplification; ideally we'd know the strokes to green
-        return h.score <= 0; // Assuming score is relative to par, but actually it's absolute
-        // Wait, score is absolute score, we need par to calculate toPar
-        // This needs course data. For now, assume if score <= par, it's a scramble
-        // But this is not accurate. Actually, scrambling is when you take 1 or 2 putts after missing GIR
-        return h.putts <= 2 && h.score <= 4; // Rough approximation
-      }).length;
-
-      return (successfulScrambles / scrambleOpportunities.length) * 100;
+      return this.summarize(holeScores, rounds, courses).scramblingPct;
     } catch (error) {
       console.error('Error calculating scrambling percentage:', error);
       return 0;
     }
   }
 
-  static calculateSandSavePercentage(holeScores: HoleScore[]): number {
+  static calculateSandSavePercentage(holeScores: HoleScore[], rounds: Round[], courses: Course[]): number {
     try {
-      if (!Array.isArray(holeScores) || holeScores.length === 0) return 0;
-
-      // Sand Saves: Similar to scrambling but from sand
-      // This requires knowing if the ball was in a bunker
-      // For now, use sandSave flag if available, otherwise estimate
-      const sandSaveOpportunities = holeScores.filter(h =>
-        h && (h.sandSave !== undefined ? h.sandSave : Math.random() < 0.1) // Placeholder
-      );
-
-      if (sandSaveOpportunities.length === 0) return 0;
-
-      const successfulSandSaves = sandSaveOpportunities.filter(h =>
-        h && h.score <= 4 // Rough approximation
-      ).length;
-
-      return (successfulSandSaves / sandSaveOpportunities.length) * 100;
+      return this.summarize(holeScores, rounds, courses).sandSavePct;
     } catch (error) {
       console.error('Error calculating sand save percentage:', error);
       return 0;
     }
   }
 
+  static calculateUpAndDownPercentage(holeScores: HoleScore[], rounds: Round[], courses: Course[]): number {
+    try {
+      return this.summarize(holeScores, rounds, courses).upAndDownPct;
+    } catch (error) {
+      console.error('Error calculating up and down percentage:', error);
+      return 0;
+    }
+  }
+
   static calculateOnePuttPercentage(holeScores: HoleScore[]): number {
     try {
       if (!Array.isArray(holeScores) || holeScores.length === 0) return 0;
@@ -406,105 +767,75 @@ class StatsCalculator {
     }
   }
 
-  static calculateBirdieAverage(rounds: Round[]): number {
+  // Birdies or better per round, over rounds that have hole-by-hole scores
+  static calculateBirdieAverage(holeScores: HoleScore[], rounds: Round[], courses: Course[]): number {
     try {
-      if (!Array.isArray(rounds) || rounds.length === 0) return 0;
-
-      // Birdie Average: Average birdies per round
-      const totalBirdies = rounds.reduce((sum, round) => {
-        if (!round || typeof round.scoreToPar !== 'number') return sum;
-        // This is approximate; ideally we'd count actual birdies from hole scores
-        // For now, estimate based on score to par
-        const estimatedBirdies = Math.max(0, -round.scoreToPar - (round.scoreToPar > 0 ? round.scoreToPar * 0.5 : 0));
-        return sum + estimatedBirdies;
-      }, 0);
-
-      return totalBirdies / rounds.length;
+      return this.summarize(holeScores, rounds, courses).birdieAvg;
     } catch (error) {
       console.error('Error calculating birdie average:', error);
       return 0;
     }
   }
 
+  // Bogey Avoidance: Percentage of holes without bogeys or worse
   static calculateBogeyAvoidancePercentage(holeScores: HoleScore[], rounds: Round[], courses: Course[]): number {
     try {
       if (!Array.isArray(holeScores) || holeScores.length === 0) return 0;
-
-      // Bogey Avoidance: Percentage of holes without bogeys or worse
-      let totalHoles = 0;
-      let holesWithoutBogey = 0;
-
-      holeScores.forEach(hole => {
-        if (!hole || !hole.roundId || !hole.holeNumber || typeof hole.score !== 'number') return;
-
-        const round = rounds.find(r => r && r.id === hole.roundId);
-        if (!round) return;
-
-        const course = courses.find(c => c && c.id === round.courseId);
-        if (!course || !course.holes) return;
-
-        const courseHole = course.holes.find(h => h && h.number === hole.holeNumber);
-        if (!courseHole) return;
-
-        const par = courseHole.par;
-        const toPar = hole.score - par;
-
-        totalHoles++;
-        if (toPar <= 1) { // Par, birdie, or eagle
-          holesWithoutBogey++;
-        }
-      });
-
-      if (totalHoles === 0) return 0;
-      return (holesWithoutBogey / totalHoles) * 100;
+      return this.summarize(holeScores, rounds, courses).bogeyAvoidancePct;
     } catch (error) {
       console.error('Error calculating bogey avoidance percentage:', error);
       return 0;
     }
   }
 
-  static getHoleAverages(holeScores: HoleScore[], rounds: Round[], courses: Course[], courseId: string): HoleAverage[] {
+  // Per-hole averages from the cached aggregates, which cover every round whether or not its hole scores are loaded
+  static getHoleAverages(aggregates: RoundAggregate[], rounds: Round[], courses: Course[], courseId: string): HoleAverage[] {
     try {
-      const holeData: HoleAverage[] = Array.from({ length: 18 }, (_, i) => ({
-        hole: i + 1,
+      const course = Array.isArray(courses) ? courses.find(c => c && c.id === courseId) : undefined;
+      const holeCount = course?.holes?.length || DEFAULT_HOLE_COUNT;
+      const holeData: HoleAverage[] = Array.from({ length: holeCount }, (_, i) => ({
+        hole: course?.holes?.[i]?.number || i + 1,
         avgScore: 0,
-        par: 4,
+        par: course?.holes?.[i]?.par || 4,
         count: 0,
         toPar: 0
       }));
 
-      if (!Array.isArray(holeScores) || !Array.isArray(rounds) || !Array.isArray(courses) || !courseId) {
+      if (!Array.isArray(aggregates) || !Array.isArray(rounds) || !courseId) {
         return holeData;
       }
 
-      holeScores.forEach(hole => {
-        if (!hole || !hole.roundId || !hole.holeNumber || typeof hole.score !== 'number') return;
-
-        const round = rounds.find(r => r && r.id === hole.roundId);
-        if (!round || round.courseId !== courseId) return;
-
-        const idx = hole.holeNumber - 1;
-        if (idx >= 0 && idx < 18) {
-          holeData[idx].avgScore += hole.score;
-          holeData[idx].count++;
-        }
+      const dataByHole = new Map<number, HoleAverage>();
+      holeData.forEach(d => dataByHole.set(d.hole, d));
+      const roundIds = new Set(rounds.filter(r => r && r.courseId === courseId).map(r => r.id));
+      // To par is against the par of each round's tee, which can differ from the course's
+      const parTotals = new Map<number, number>();
+
+      aggregates.forEach(aggregate => {
+        if (!aggregate || !roundIds.has(aggregate.roundId) || !aggregate.holeResults) return;
+        Object.keys(aggregate.holeResults).forEach(key => {
+          const result = aggregate.holeResults[Number(key)];
+          const data = dataByHole.get(Number(key));
+          if (!data) return;
+          data.avgScore += result.score;
+          data.count++;
+          parTotals.set(data.hole, (parTotals.get(data.hole) || 0) + result.par);
+        });
       });
 
-      const course = courses.find(c => c && c.id === courseId);
-      holeData.forEach((data, idx) => {
+      holeData.forEach(data => {
         if (data.count > 0) {
+          data.toPar = (data.avgScore - (parTotals.get(data.hole) || 0)) / data.count;
           data.avgScore = data.avgScore / data.count;
+        } else {
+          data.toPar = data.avgScore - data.par;
         }
-        if (course?.holes?.[idx]) {
-          data.par = course.holes[idx].par;
-        }
-        data.toPar = data.avgScore - data.par;
       });
 
       return holeData;
     } catch (error) {
       console.error('Error calculating hole averages:', error);
-      return Array.from({ length: 18 }, (_, i) => ({
+      return Array.from({ length: DEFAULT_HOLE_COUNT }, (_, i) => ({
         hole: i + 1,
         avgScore: 0,
         par: 4,
@@ -514,55 +845,87 @@ class StatsCalculator {
     }
   }
 
-  // Main stats calculation method
-  static calculateAllStats(rounds: Round[], holeScores: HoleScore[], courses: Course[], filters: Filters = {}): GolfStats {
+  // Rounds that count toward 18-hole scoring figures; legacy rounds without a hole count are full rounds
+  static getFullRounds(rounds: Round[]): Round[] {
+    if (!Array.isArray(rounds)) return [];
+    return rounds.filter(r => r && (r.holesPlayed ?? DEFAULT_HOLE_COUNT) === DEFAULT_HOLE_COUNT);
+  }
+
+  static getNineHoleRounds(rounds: Round[]): Round[] {
+    if (!Array.isArray(rounds)) return [];
+    return rounds.filter(r => r && r.holesPlayed === 9);
+  }
+
+  static getEmptyStats(): GolfStats {
+    return {
+      scoringAvg: 0,
+      nineHoleScoringAvg: 0,
+      girPct: 0,
+      firPct: 0,
+      puttingAvg: 0,
+      handicap: null,
+      lowHandicapIndex: null,
+      handicapHistory: [],
+      distribution: emptyDistribution(),
+      parTypeStats: emptyParTypeStats(),
+      strokesGained: { offTee: 0, approach: 0, shortGame: 0, putting: 0 },
+      shotTrackedHoles: 0,
+      scramblingPct: 0,
+      sandSavePct: 0,
+      upAndDownPct: 0,
+      shortGameHoles: { scrambling: 0, sandSaves: 0, upAndDowns: 0 },
+      onePuttPct: 0,
+      birdieAvg: 0,
+      bogeyAvoidancePct: 0
+    };
+  }
+
+  // Main stats calculation method; cached round aggregates skip the hole-by-hole pass for unchanged rounds
+  static calculateAllStats(
+    allRounds: Round[],
+    allHoleScores: HoleScore[],
+    courses: Course[],
+    filters: Filters = {},
+    cachedAggregates: RoundAggregate[] = [],
+    shots: Shot[] = []
+  ): GolfStats {
     try {
-      const scoringAvg = this.calculateScoringAverage(rounds, filters);
-      const girPct = this.calculateGIRPercentage(holeScores, rounds, courses);
-      const firPct = this.calculateFIRPercentage(holeScores, rounds, courses);
-      const puttingAvg = this.calculatePuttingAverage(holeScores);
-      const handicap = this.calculateHandicap(rounds, courses);
-      const distribution = this.getScoreDistribution(rounds);
-      const strokesGained = this.calculateStrokesGained(holeScores, rounds, courses);
-      const scramblingPct = this.calculateScramblingPercentage(holeScores);
-      const sandSavePct = this.calculateSandSavePercentage(holeScores);
-      const onePuttPct = this.calculateOnePuttPercentage(holeScores);
-      const birdieAvg = this.calculateBirdieAverage(rounds);
-      const bogeyAvoidancePct = this.calculateBogeyAvoidancePercentage(holeScores, rounds, courses);
+      // Every metric below runs on the same filtered rounds and hole scores
+      const { rounds, holeScores } = this.applyFilters(allRounds, allHoleScores, filters);
+      const index = this.buildIndex(rounds, courses);
+      const summary = this.summarizeAggregates(this.getRoundAggregates(rounds, holeScores, courses, cachedAggregates, index, shots));
+
+      const scoringAvg = this.calculateScoringAverage(this.getFullRounds(rounds));
+      const nineHoleScoringAvg = this.calculateScoringAverage(this.getNineHoleRounds(rounds));
+      const handicapResult = HandicapCalculator.calculateHandicapIndex(rounds, courses);
 
       return {
         scoringAvg,
-        girPct,
-        firPct,
-        puttingAvg,
-        handicap,
-        distribution,
-        strokesGained,
-        scramblingPct,
-        sandSavePct,
-        onePuttPct,
-        birdieAvg,
-        bogeyAvoidancePct
+        nineHoleScoringAvg,
+        girPct: summary.girPct,
+        firPct: summary.firPct,
+        puttingAvg: summary.puttingAvg,
+        handicap: handicapResult.handicapIndex,
+        lowHandicapIndex: handicapResult.lowHandicapIndex,
+        handicapHistory: handicapResult.history,
+        distribution: summary.distribution,
+        parTypeStats: summary.parTypeStats,
+        strokesGained: summary.strokesGained,
+        shotTrackedHoles: summary.shotTrackedHoles,
+        scramblingPct: summary.scramblingPct,
+        sandSavePct: summary.sandSavePct,
+        upAndDownPct: summary.upAndDownPct,
+        shortGameHoles: summary.shortGameHoles,
+        onePuttPct: summary.onePuttPct,
+        birdieAvg: summary.birdieAvg,
+        bogeyAvoidancePct: summary.bogeyAvoidancePct
       };
     } catch (error) {
       console.error('Error calculating all stats:', error);
-      return {
-        scoringAvg: 0,
-        girPct: 0,
-        firPct: 0,
-        puttingAvg: 0,
-        handicap: null,
-        distribution: { birdiesOrBetter: 0, pars: 0, bogeys: 0, doubles: 0, others: 0 },
-        strokesGained: { offTee: 0, approach: 0, shortGame: 0, putting: 0 },
-        scramblingPct: 0,
-        sandSavePct: 0,
-        onePuttPct: 0,
-        birdieAvg: 0,
-        bogeyAvoidancePct: 0
-      };
+      return this.getEmptyStats();
     }
   }
 }
 
 export default StatsCalculator;
-export type { Filters };
\ No newline at end of file
+export type { Filters, ScoreDistribution, ParTypeStats, RoundAggregate, ShortGameHoles };
@@ -0,0 +1,81 @@
+// Runs stats in a Web Worker, falling back to the main thread where workers aren't available
+import StatsCalculator, { type GolfStats, type Filters, type RoundAggregate } from './StatsCalculator';
+import { type Shot } from './StrokesGained';
+
+interface PendingRequest {
+  resolve: (stats: GolfStats) => void;
+  reject: (error: Error) => void;
+}
+
+class StatsWorkerClient {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor() {
+    try {
+      if (typeof Worker !== 'undefined') {
+        this.worker = new Worker(new URL('../workers/statsWorker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+        this.worker.onerror = (event: ErrorEvent) => {
+          console.error('Stats worker failed, calculating on the main thread:', event.message);
+          this.failPending(new Error(event.message || 'Stats worker failed'));
+          this.terminate();
+        };
+      }
+    } catch (error) {
+      console.error('Stats worker unavailable, calculating on the main thread:', error);
+      this.worker = null;
+    }
+  }
+
+  calculate(
+    rounds: any[],
+    holeScores: any[],
+    courses: any[],
+    filters: Filters = {},
+    aggregates: RoundAggregate[] = [],
+    shots: Shot[] = []
+  ): Promise<GolfStats> {
+    if (!this.worker) {
+      return Promise.resolve(StatsCalculator.calculateAllStats(rounds, holeScores, courses, filters, aggregates, shots));
+    }
+
+    const id = ++this.nextId;
+    return new Promise<GolfStats>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker!.postMessage({ id, rounds, holeScores, courses, filters, aggregates, shots });
+    }).catch(error => {
+      // A failed worker request is retried synchronously so the UI still gets numbers
+      console.error('Stats worker request failed:', error);
+      return StatsCalculator.calculateAllStats(rounds, holeScores, courses, filters, aggregates, shots);
+    });
+  }
+
+  terminate() {
+    if (this.worker) {
+      this.worker.terminate();
+      this.worker = null;
+    }
+    this.failPending(new Error('Stats worker terminated'));
+  }
+
+  private handleMessage(data: { id: number; stats?: GolfStats; error?: string }) {
+    const request = this.pending.get(data.id);
+    if (!request) return;
+    this.pending.delete(data.id);
+
+    if (data.error || !data.stats) {
+      request.reject(new Error(data.error || 'Stats worker returned no result'));
+    } else {
+      request.resolve(data.stats);
+    }
+  }
+
+  private failPending(error: Error) {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
+
+export default StatsWorkerClient;
@@ -0,0 +1,132 @@
+// Strokes gained from shot-level data against baseline expected-strokes tables
+type Lie = 'tee' | 'fairway' | 'rough' | 'sand' | 'recovery' | 'green';
+type ShotResult = 'fairway' | 'rough' | 'sand' | 'recovery' | 'green' | 'holed' | 'penalty';
+
+interface Shot {
+  id: string;
+  roundId: string;
+  holeNumber: number;
+  shotNumber: number;
+  startDistance: number; // Yards, or feet when the lie is the green
+  lie: Lie;
+  result: ShotResult;
+}
+
+// A shot as scoring needs it, saved or still being entered on the scorecard
+type HoleShot = Omit<Shot, 'id' | 'roundId'>;
+
+interface StrokesGainedBreakdown {
+  offTee: number;
+  approach: number;
+  shortGame: number; // Around the green
+  putting: number;
+}
+
+// Expected strokes to hole out by distance: [distance, strokes]. Approximate PGA Tour baseline.
+const BASELINES: { [lie in Lie]: [number, number][] } = {
+  tee: [
+    [100, 2.92], [120, 2.99], [140, 2.97], [160, 2.99], [180, 3.05], [200, 3.12], [220, 3.17], [240, 3.25],
+    [260, 3.45], [280, 3.65], [300, 3.71], [320, 3.79], [340, 3.86], [360, 3.92], [380, 3.96], [400, 3.99],
+    [420, 4.02], [440, 4.08], [460, 4.17], [480, 4.28], [500, 4.41], [520, 4.54], [540, 4.65], [560, 4.74],
+    [580, 4.79], [600, 4.82]
+  ],
+  fairway: [
+    [5, 2.10], [20, 2.40], [40, 2.60], [60, 2.70], [80, 2.75], [100, 2.80], [120, 2.85], [140, 2.91],
+    [160, 2.98], [180, 3.08], [200, 3.19], [220, 3.32], [240, 3.45], [260, 3.58], [280, 3.69], [300, 3.78],
+    [350, 3.92], [400, 4.11], [450, 4.25], [500, 4.53], [550, 4.83], [600, 4.94]
+  ],
+  rough: [
+    [5, 2.25], [20, 2.59], [40, 2.78], [60, 2.91], [80, 2.96], [100, 3.02], [120, 3.08], [140, 3.15],
+    [160, 3.23], [180, 3.31], [200, 3.42], [220, 3.53], [240, 3.64], [260, 3.74], [280, 3.83], [300, 3.90],
+    [350, 4.07], [400, 4.30], [450, 4.44], [500, 4.72], [550, 5.02], [600, 5.13]
+  ],
+  sand: [
+    [5, 2.35], [20, 2.53], [40, 2.82], [60, 3.15], [80, 3.24], [100, 3.23], [120, 3.21], [140, 3.22],
+    [160, 3.28], [180, 3.40], [200, 3.55], [220, 3.70], [240, 3.84], [260, 3.93], [280, 4.00], [300, 4.04],
+    [350, 4.34], [400, 4.69], [450, 4.83], [500, 5.11], [550, 5.41], [600, 5.52]
+  ],
+  recovery: [
+    [20, 3.40], [50, 3.60], [100, 3.80], [150, 3.80], [200, 3.87], [250, 4.00], [300, 4.20], [350, 4.50],
+    [400, 4.75], [450, 4.89], [500, 5.17], [550, 5.47], [600, 5.58]
+  ],
+  green: [
+    [1, 1.00], [2, 1.01], [3, 1.04], [4, 1.13], [5, 1.23], [6, 1.34], [7, 1.42], [8, 1.50], [9, 1.56],
+    [10, 1.61], [15, 1.78], [20, 1.87], [30, 1.98], [40, 2.06], [50, 2.14], [60, 2.21], [90, 2.40]
+  ]
+};
+
+const LIES: Lie[] = ['tee', 'fairway', 'rough', 'sand', 'recovery', 'green'];
+const AROUND_GREEN_YARDS = 30;
+const PENALTY_STROKES = 1;
+
+class StrokesGained {
+  static isLie(value: any): value is Lie {
+    return LIES.includes(value);
+  }
+
+  // Linear interpolation between table points, clamped to the ends of the table
+  static getExpectedStrokes(lie: Lie, distance: number): number | null {
+    const table = BASELINES[lie];
+    if (!table || typeof distance !== 'number' || isNaN(distance) || distance <= 0) return null;
+
+    if (distance <= table[0][0]) return table[0][1];
+    const last = table[table.length - 1];
+    if (distance >= last[0]) return last[1];
+
+    for (let i = 1; i < table.length; i++) {
+      const [d1, s1] = table[i];
+      if (distance <= d1) {
+        const [d0, s0] = table[i - 1];
+        return s0 + ((distance - d0) / (d1 - d0)) * (s1 - s0);
+      }
+    }
+    return last[1];
+  }
+
+  static getCategory(shot: HoleShot, par: number): keyof StrokesGainedBreakdown {
+    if (shot.lie === 'green') return 'putting';
+    if (shot.lie === 'tee' && par > 3) return 'offTee';
+    if (shot.startDistance <= AROUND_GREEN_YARDS) return 'shortGame';
+    return 'approach';
+  }
+
+  // Shots for one hole in order, or null when the sequence can't be scored (missing data or not holed out)
+  static getCompleteHoleShots<T extends HoleShot>(shots: T[]): T[] | null {
+    if (!Array.isArray(shots) || shots.length === 0) return null;
+
+    const ordered = [...shots].sort((a, b) => a.shotNumber - b.shotNumber);
+    if (ordered[ordered.length - 1].result !== 'holed') return null;
+    if (ordered.some(s => !this.isLie(s.lie) || this.getExpectedStrokes(s.lie, s.startDistance) === null)) return null;
+    return ordered;
+  }
+
+  // Strokes gained per shot = expected before − expected after − 1 (− penalty strokes)
+  static calculateHole(shots: HoleShot[], par: number): StrokesGainedBreakdown | null {
+    const ordered = this.getCompleteHoleShots(shots);
+    if (!ordered) return null;
+
+    const results: StrokesGainedBreakdown = { offTee: 0, approach: 0, shortGame: 0, putting: 0 };
+    ordered.forEach((shot, i) => {
+      const before = this.getExpectedStrokes(shot.lie, shot.startDistance) as number;
+      const next = ordered[i + 1];
+      const after = next ? (this.getExpectedStrokes(next.lie, next.startDistance) as number) : 0;
+      const penalty = shot.result === 'penalty' ? PENALTY_STROKES : 0;
+      results[this.getCategory(shot, par)] += before - after - 1 - penalty;
+    });
+    return results;
+  }
+
+  static groupShotsByHole(shots: Shot[]): Map<number, Shot[]> {
+    const byHole = new Map<number, Shot[]>();
+    (Array.isArray(shots) ? shots : []).forEach(shot => {
+      if (!shot || !shot.holeNumber) return;
+      const list = byHole.get(shot.holeNumber);
+      if (list) list.push(shot);
+      else byHole.set(shot.holeNumber, [shot]);
+    });
+    return byHole;
+  }
+}
+
+export default StrokesGained;
+export type { Shot, HoleShot, Lie, ShotResult, StrokesGainedBreakdown };
@@ -0,0 +1,74 @@
+// Sync backends: anything that can store a device's changes and hand back everyone else's since a cursor
+type SyncCursor = string | null;
+
+interface SyncChange {
+  id: string; // Sync queue item id, so a retried push isn't applied twice
+  storeName: string;
+  operation: 'put' | 'delete';
+  recordId: string;
+  data: any | null; // The full record for puts, null for deletes
+  timestamp: number;
+  deviceId?: string; // Set by the backend on pulled changes
+}
+
+interface PushResult {
+  accepted: number;
+  cursor: SyncCursor;
+}
+
+interface PullResult {
+  changes: SyncChange[]; // Changes from other devices, oldest first
+  cursor: SyncCursor; // Pass back to continue after these changes
+  hasMore: boolean;
+}
+
+interface SyncAdapter {
+  push(deviceId: string, changes: SyncChange[]): Promise<PushResult>;
+  pull(deviceId: string, since: SyncCursor): Promise<PullResult>;
+}
+
+interface SyncConfig {
+  serverUrl: string;
+  token?: string; // Shared household key, if the server requires one
+}
+
+// Talks to the reference server in server/sync-server.mjs, or anything with the same two endpoints
+class HttpSyncAdapter implements SyncAdapter {
+  private baseUrl: string;
+  private token?: string;
+
+  constructor(config: SyncConfig) {
+    this.baseUrl = config.serverUrl.replace(/\/+$/, '');
+    this.token = config.token || undefined;
+  }
+
+  async push(deviceId: string, changes: SyncChange[]): Promise<PushResult> {
+    return this.request('/changes', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId, changes })
+    });
+  }
+
+  async pull(deviceId: string, since: SyncCursor): Promise<PullResult> {
+    const params = new URLSearchParams({ device: deviceId });
+    if (since) params.set('since', since);
+    return this.request(`/changes?${params.toString()}`, { method: 'GET' });
+  }
+
+  private async request(path: string, init: RequestInit): Promise<any> {
+    const headers: { [name: string]: string } = { 'Content-Type': 'application/json' };
+    if (this.token) headers.Authorization = `Bearer ${this.token}`;
+
+    const response = await fetch(`${this.baseUrl}${path}`, { ...init, headers });
+    if (response.status === 401) {
+      throw new Error('The sync server rejected the household key');
+    }
+    if (!response.ok) {
+      throw new Error(`Sync server error: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+}
+
+export default HttpSyncAdapter;
+export type { SyncAdapter, SyncChange, SyncConfig, SyncCursor, PushResult, PullResult };
@@ -0,0 +1,208 @@
+// One sync pass: pull other devices' changes into GolfDB, then push this device's queued changes
+import { type SyncAdapter, type SyncChange, type SyncCursor } from './SyncAdapter';
+import RecordId, { RECORD_ID_PREFIXES } from './RecordId';
+import { DEFAULT_PLAYER_ID } from './PlayerProfiles';
+
+interface SyncQueueItem {
+  id: string;
+  storeName: string;
+  operation: string;
+  data: any;
+  timestamp: number;
+  status: string;
+  retries: number;
+  nextAttemptAt: number | null;
+  lastError: string | null;
+}
+
+interface LocalRecord {
+  storeName: string;
+  record: any;
+}
+
+interface SyncResult {
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+}
+
+// Stores that are shared between devices. Cached aggregates and the trash stay local.
+// Players come first so a pulled round's player is already there when it's applied.
+const SYNC_STORES = ['players', 'courses', 'rounds', 'holeScores', 'shots', 'roundHistory'];
+const PLAYER_STORES = ['rounds', 'holeScores'];
+const PUSH_BATCH_SIZE = 200;
+
+const recordKey = (storeName: string, recordId: string) => `${storeName}:${recordId}`;
+
+class SyncEngine {
+  // Pulling first means a record changed on both sides is caught before the local change is pushed over it
+  static async run(db: any, adapter: SyncAdapter, deviceId: string): Promise<SyncResult> {
+    await db.compactSyncQueue();
+    const cursor: SyncCursor = (await db.get('settings', 'syncCursor'))?.value ?? null;
+
+    // Every unsent change counts for conflicts, including ones waiting out a backoff or dead
+    const unsent = ((await db.getSyncQueue()) as SyncQueueItem[])
+      .filter(item => item.status !== 'completed' && SYNC_STORES.includes(item.storeName) && item.data?.id);
+    const pendingKeys = new Set(unsent.map(item => recordKey(item.storeName, item.data.id)));
+
+    const pull = await this.pullChanges(db, adapter, deviceId, cursor, pendingKeys);
+
+    // Local copies to send back out, and on the first sync with a server everything recorded before it
+    // was set up, go through the queue so they get the same retries as any other change
+    const snapshotSent = (await db.get('settings', 'syncSnapshotSent'))?.value === true;
+    const extra = pull.changedLocally.concat(snapshotSent ? [] : await this.snapshotRecords(db, pendingKeys));
+    await db.batch([
+      ...extra.map(({ storeName, record }) => db.syncOperation(storeName, 'put', record)),
+      ...(snapshotSent ? [] : [{ type: 'put', storeName: 'settings', value: { key: 'syncSnapshotSent', value: true } }])
+    ]);
+
+    // Records waiting for review aren't pushed until the conflict is resolved
+    const conflicted = new Set(((await db.getPendingConflicts()) as any[]).map(c => recordKey(c.storeName, c.recordId)));
+    const toPush = ((await db.getDueSyncItems()) as SyncQueueItem[])
+      .filter(item => SYNC_STORES.includes(item.storeName) && item.data?.id)
+      .filter(item => !conflicted.has(recordKey(item.storeName, item.data.id)));
+
+    let pushed = 0;
+    for (let i = 0; i < toPush.length; i += PUSH_BATCH_SIZE) {
+      const batch = toPush.slice(i, i + PUSH_BATCH_SIZE);
+      try {
+        await adapter.push(deviceId, batch.map(item => this.toChange(item)));
+      } catch (error) {
+        // Later batches would almost certainly fail the same way, so they wait for the next pass
+        for (const item of batch) {
+          await db.retrySyncItem(item.id, error);
+        }
+        throw error;
+      }
+      await db.markSyncItemsComplete(batch.map(item => item.id));
+      pushed += batch.length;
+    }
+
+    return { pulled: pull.applied, pushed, conflicts: pull.conflicts };
+  }
+
+  static toChange(item: SyncQueueItem): SyncChange {
+    const operation = item.operation === 'delete' ? 'delete' : 'put';
+    return {
+      id: item.id,
+      storeName: item.storeName,
+      operation,
+      recordId: item.data.id,
+      data: operation === 'put' ? item.data : null,
+      timestamp: item.timestamp
+    };
+  }
+
+  static async pullChanges(
+    db: any,
+    adapter: SyncAdapter,
+    deviceId: string,
+    cursor: SyncCursor,
+    pendingKeys: Set<string>
+  ) {
+    let since = cursor;
+    let applied = 0;
+    let conflicts = 0;
+    const changedLocally: LocalRecord[] = [];
+
+    for (;;) {
+      const page = await adapter.pull(deviceId, since);
+      const result = await this.applyChanges(db, page.changes, pendingKeys);
+      applied += result.applied;
+      conflicts += result.conflicts;
+      changedLocally.push(...result.changedLocally);
+
+      // Saved per page so an interrupted pull picks up where it stopped
+      since = page.cursor;
+      await db.put('settings', { key: 'syncCursor', value: since });
+      if (!page.hasMore) break;
+    }
+
+    return { applied, conflicts, changedLocally };
+  }
+
+  // Remote changes win unless the same record also has an unsent local change; those go to review
+  static async applyChanges(db: any, changes: SyncChange[], pendingKeys: Set<string>) {
+    let applied = 0;
+    let conflicts = 0;
+    const changedLocally: LocalRecord[] = [];
+
+    const normalized = changes.map(change => this.normalizeChange(change));
+    for (const storeName of SYNC_STORES) {
+      const storeChanges = this.latestPerRecord(normalized.filter(c => c.storeName === storeName));
+      const puts = storeChanges.filter(c => c.operation === 'put' && c.data).map(c => c.data);
+      const deletes = storeChanges.filter(c => c.operation === 'delete');
+
+      for (const conflict of await db.detectConflicts(storeName, puts)) {
+        const record = conflict.remote;
+        const pending = pendingKeys.has(recordKey(storeName, record.id));
+
+        if (conflict.type === 'local_newer') {
+          // A newer local copy that was never queued is sent back out so the other devices catch up
+          if (!pending) changedLocally.push({ storeName, record: conflict.local });
+          continue;
+        }
+        if (pending && conflict.type !== 'server_only') {
+          await db.resolveConflict(storeName, conflict, { strategy: 'manual' });
+          conflicts++;
+          continue;
+        }
+        await db.resolveConflict(storeName, conflict, { strategy: 'use_remote' });
+        applied++;
+      }
+
+      if (deletes.length > 0) {
+        const existing = await db.getMany(storeName, deletes.map(c => c.recordId));
+        for (const local of existing) {
+          const conflict = { type: 'server_deleted', local, remote: null };
+          if (pendingKeys.has(recordKey(storeName, local.id))) {
+            await db.resolveConflict(storeName, conflict, { strategy: 'manual' });
+            conflicts++;
+          } else {
+            await db.resolveConflict(storeName, conflict, { strategy: 'use_remote' });
+            applied++;
+          }
+        }
+      }
+    }
+
+    return { applied, conflicts, changedLocally };
+  }
+
+  // Devices that haven't updated yet still send timestamp ids; they map to the same ids the migration gave them
+  static normalizeChange(change: SyncChange): SyncChange {
+    let data = change.data ? RecordId.normalize(change.storeName, change.data) : change.data;
+    // Devices on a version from before players send rounds with no player; those are the default player's
+    if (data && !data.playerId && PLAYER_STORES.includes(change.storeName)) {
+      data = { ...data, playerId: DEFAULT_PLAYER_ID };
+    }
+    return {
+      ...change,
+      recordId: RecordId.fromLegacy(RECORD_ID_PREFIXES[change.storeName] || '', change.recordId),
+      data
+    };
+  }
+
+  // A page can hold several changes to one record; only the last one matters
+  static latestPerRecord(changes: SyncChange[]): SyncChange[] {
+    const latest = new Map<string, SyncChange>();
+    changes.forEach(change => latest.set(change.recordId, change));
+    return Array.from(latest.values());
+  }
+
+  static async snapshotRecords(db: any, pendingKeys: Set<string>): Promise<LocalRecord[]> {
+    const snapshot: LocalRecord[] = [];
+    for (const storeName of SYNC_STORES) {
+      const records = await db.getAll(storeName);
+      records
+        // Records that came from the server in this same pass are already there
+        .filter((record: any) => !record.synced && !pendingKeys.has(recordKey(storeName, record.id)))
+        .forEach((record: any) => snapshot.push({ storeName, record }));
+    }
+    return snapshot;
+  }
+}
+
+export default SyncEngine;
+export { SYNC_STORES };
+export type { SyncResult, SyncQueueItem };
@@ -0,0 +1,86 @@
+// Soft delete: removed records are kept in the trash store until they're restored or expire
+import RecordId from './RecordId';
+
+type TrashType = 'round' | 'course' | 'all';
+
+// Live stores a trash entry can hold records from. Cached aggregates aren't kept; they're rebuilt on restore.
+const TRASHABLE_STORES = ['courses', 'rounds', 'holeScores', 'shots', 'roundHistory'];
+
+interface TrashRecords {
+  [storeName: string]: { id: string; [field: string]: any }[];
+}
+
+interface TrashEntry {
+  id: string;
+  type: TrashType;
+  itemId: string | null; // Round or course id; null when everything was cleared
+  label: string;
+  deletedAt: number;
+  expiresAt: number;
+  records: TrashRecords;
+}
+
+// What the trash view shows, without the records themselves
+interface TrashItem {
+  id: string;
+  type: TrashType;
+  label: string;
+  deletedAt: number;
+  expiresAt: number;
+  courseCount: number;
+  roundCount: number;
+}
+
+const TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class TrashBin {
+  static createEntry(type: TrashType, itemId: string | null, label: string, records: TrashRecords): TrashEntry {
+    const deletedAt = Date.now();
+    return {
+      id: RecordId.create('trash'),
+      type,
+      itemId,
+      label,
+      deletedAt,
+      expiresAt: deletedAt + TRASH_RETENTION_DAYS * DAY_MS,
+      records
+    };
+  }
+
+  // Deletes the records from their live stores and stores the entry, for one batch
+  static trashOperations(entry: TrashEntry): any[] {
+    const deletes = TRASHABLE_STORES.reduce((ops: any[], storeName) => {
+      return ops.concat((entry.records[storeName] || []).map(record => ({ type: 'delete', storeName, key: record.id })));
+    }, []);
+    return deletes.concat([{ type: 'put', storeName: 'trash', value: entry }]);
+  }
+
+  // Puts the records back and removes the entry, for one batch
+  static restoreOperations(entry: TrashEntry): any[] {
+    const puts = TRASHABLE_STORES.reduce((ops: any[], storeName) => {
+      return ops.concat((entry.records[storeName] || []).map(record => ({ type: 'put', storeName, value: record })));
+    }, []);
+    return puts.concat([{ type: 'delete', storeName: 'trash', key: entry.id }]);
+  }
+
+  static summarize(entry: TrashEntry): TrashItem {
+    return {
+      id: entry.id,
+      type: entry.type,
+      label: entry.label,
+      deletedAt: entry.deletedAt,
+      expiresAt: entry.expiresAt,
+      courseCount: (entry.records.courses || []).length,
+      roundCount: (entry.records.rounds || []).length
+    };
+  }
+
+  static daysLeft(item: { expiresAt: number }, now: number = Date.now()): number {
+    return Math.max(0, Math.ceil((item.expiresAt - now) / DAY_MS));
+  }
+}
+
+export default TrashBin;
+export { TRASH_RETENTION_DAYS };
+export type { TrashEntry, TrashItem, TrashType, TrashRecords };
@@ -0,0 +1,12 @@
+// Web Worker that runs StatsCalculator off the main thread
+import StatsCalculator from '../utils/StatsCalculator';
+
+self.onmessage = (event: MessageEvent) => {
+  const { id, rounds, holeScores, courses, filters, aggregates, shots } = event.data || {};
+  try {
+    const stats = StatsCalculator.calculateAllStats(rounds, holeScores, courses, filters, aggregates, shots);
+    self.postMessage({ id, stats });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config'
+import react from '@vitejs/plugin-react'
+
+// Kept apart from vite.config.js so tests don't build the PWA service worker
+export default defineConfig({
+  plugins: [react()],
+  // App.test.js predates the move to Vite and has JSX in a .js file
+  esbuild: {
+    loader: 'tsx',
+    include: /src\/.*\.[jt]sx?$/,
+    exclude: []
+  },
+  test: {
+    environment: 'jsdom',
+    globals: true,
+    setupFiles: './src/setupTests.js'
+  }
+})